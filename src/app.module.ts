@@ -15,6 +15,8 @@ import { AtGuard } from './auth/guards';
 import { ResponseInterceptor } from './common/interceptors/response.interceptor';
 import { ProductModule } from './product/product.module';
 import { OrderModule } from './order/order.module';
+import { CategoryModule } from './category/category.module';
+import { CartModule } from './cart/cart.module';
 
 @Module({
   imports: [
@@ -63,6 +65,8 @@ import { OrderModule } from './order/order.module';
     UserModule,
     ProductModule,
     OrderModule,
+    CategoryModule,
+    CartModule,
   ],
   controllers: [],
   providers: [
@@ -0,0 +1,90 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { NotFoundException } from '@nestjs/common';
+import { WINSTON_MODULE_PROVIDER } from 'nest-winston';
+import { ApiKeyService } from './api-key.service';
+import { ApiKey, ApiKeyScope } from './entities';
+
+describe('ApiKeyService', () => {
+  let service: ApiKeyService;
+  let apiKeys: ApiKey[];
+
+  const userId = '5f6b1c2e-8d4a-4b7e-9c3f-2a1d0e9b8c7a';
+
+  const matches = (row: object, where: object) =>
+    Object.entries(where).every(([key, value]) =>
+      // IsNull() is the only operator used against this repository
+      typeof value === 'object' && value !== null
+        ? row[key] === null || row[key] === undefined
+        : row[key] === value,
+    );
+
+  const apiKeyRepository = {
+    create: jest.fn((data) => ({ revokedAt: null, lastUsedAt: null, ...data })),
+    save: jest.fn(async (row) => {
+      const saved = { id: `key-${apiKeys.length + 1}`, ...row };
+      apiKeys.push(saved);
+      return saved;
+    }),
+    findOne: jest.fn(
+      async ({ where }) => apiKeys.find((row) => matches(row, where)) ?? null,
+    ),
+    find: jest.fn(async ({ where }) =>
+      apiKeys.filter((row) => matches(row, where)),
+    ),
+    update: jest.fn(async (where, changes) => {
+      const rows = apiKeys.filter((row) => matches(row, where));
+      rows.forEach((row) => Object.assign(row, changes));
+      return { affected: rows.length };
+    }),
+  };
+
+  beforeEach(async () => {
+    apiKeys = [];
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApiKeyService,
+        { provide: getRepositoryToken(ApiKey), useValue: apiKeyRepository },
+        {
+          provide: WINSTON_MODULE_PROVIDER,
+          useValue: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ApiKeyService>(ApiKeyService);
+  });
+
+  it('stores only a hash and authenticates the key returned once', async () => {
+    const { apiKey, key } = await service.create(userId, {
+      name: 'warehouse',
+      scopes: [ApiKeyScope.PRODUCTS_WRITE],
+    });
+
+    expect(key.startsWith(`pmk_${apiKey.prefix}`)).toBe(true);
+    expect(apiKeys[0].keyHash).not.toContain(key.slice(16));
+
+    const resolved = await service.authenticate(key);
+    expect(resolved?.id).toBe(apiKey.id);
+    expect(resolved?.lastUsedAt).toBeInstanceOf(Date);
+  });
+
+  it('rejects tampered and revoked keys', async () => {
+    const { apiKey, key } = await service.create(userId, {
+      name: 'warehouse',
+      scopes: [ApiKeyScope.PRODUCTS_READ],
+    });
+
+    const tampered = `${key.slice(0, -1)}${key.endsWith('0') ? '1' : '0'}`;
+    expect(await service.authenticate(tampered)).toBeNull();
+    expect(await service.authenticate('not-a-key')).toBeNull();
+
+    await service.revoke(userId, apiKey.id);
+    expect(await service.authenticate(key)).toBeNull();
+    await expect(service.revoke(userId, apiKey.id)).rejects.toBeInstanceOf(
+      NotFoundException,
+    );
+  });
+});
@@ -0,0 +1,121 @@
+import {
+  Inject,
+  Injectable,
+  InternalServerErrorException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { randomBytes } from 'crypto';
+import * as argon from 'argon2';
+import { Logger } from 'winston';
+import { WINSTON_MODULE_PROVIDER } from 'nest-winston';
+import { ApiKey } from './entities';
+import { CreateApiKeyDto } from './dto';
+
+// Keys look like `pmk_<12 hex prefix><48 hex secret>`
+const KEY_MARKER = 'pmk_';
+const PREFIX_LENGTH = 12;
+
+// lastUsedAt is only written when older than this, to avoid a write per request
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+@Injectable()
+export class ApiKeyService {
+  constructor(
+    @InjectRepository(ApiKey) private apiKeyRepository: Repository<ApiKey>,
+    @Inject(WINSTON_MODULE_PROVIDER) private readonly logger: Logger,
+  ) {}
+
+  async create(
+    userId: string,
+    dto: CreateApiKeyDto,
+  ): Promise<{ apiKey: ApiKey; key: string }> {
+    const prefix = randomBytes(PREFIX_LENGTH / 2).toString('hex');
+    const secret = randomBytes(24).toString('hex');
+
+    let apiKey: ApiKey;
+    try {
+      apiKey = await this.apiKeyRepository.save(
+        this.apiKeyRepository.create({
+          userId,
+          name: dto.name,
+          scopes: dto.scopes,
+          prefix,
+          keyHash: await argon.hash(secret),
+        }),
+      );
+    } catch (error) {
+      this.logger.error('Failed to create API key', { userId, error });
+      throw new InternalServerErrorException('Failed to create API key');
+    }
+
+    this.logger.info('API key created', {
+      userId,
+      apiKeyId: apiKey.id,
+      scopes: dto.scopes,
+    });
+
+    return { apiKey, key: `${KEY_MARKER}${prefix}${secret}` };
+  }
+
+  async listForUser(userId: string): Promise<ApiKey[]> {
+    return await this.apiKeyRepository.find({
+      where: { userId, revokedAt: IsNull() },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  async revoke(userId: string, apiKeyId: string): Promise<void> {
+    const result = await this.apiKeyRepository.update(
+      { id: apiKeyId, userId, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+
+    if (!result.affected) {
+      this.logger.warn('API key not found for revocation', {
+        userId,
+        apiKeyId,
+      });
+      throw new NotFoundException('API key not found');
+    }
+
+    this.logger.info('API key revoked', { userId, apiKeyId });
+  }
+
+  // Resolves a raw key to its active row (with its owner), or null
+  async authenticate(rawKey: string): Promise<ApiKey | null> {
+    if (!rawKey?.startsWith(KEY_MARKER)) {
+      return null;
+    }
+
+    const prefix = rawKey.slice(
+      KEY_MARKER.length,
+      KEY_MARKER.length + PREFIX_LENGTH,
+    );
+    const secret = rawKey.slice(KEY_MARKER.length + PREFIX_LENGTH);
+
+    const apiKey = await this.apiKeyRepository.findOne({
+      where: { prefix, revokedAt: IsNull() },
+      relations: ['user'],
+    });
+
+    if (!apiKey || !secret || !(await argon.verify(apiKey.keyHash, secret))) {
+      this.logger.warn('Request with invalid API key', { prefix });
+      return null;
+    }
+
+    const now = new Date();
+    if (
+      !apiKey.lastUsedAt ||
+      now.getTime() - apiKey.lastUsedAt.getTime() >= TOUCH_INTERVAL_MS
+    ) {
+      await this.apiKeyRepository.update(
+        { id: apiKey.id },
+        { lastUsedAt: now },
+      );
+    }
+
+    return apiKey;
+  }
+}
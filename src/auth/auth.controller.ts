@@ -1,13 +1,42 @@
-import { Body, Controller, HttpCode, HttpStatus, Post } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBody } from '@nestjs/swagger';
+import {
+  Body,
+  Controller,
+  HttpCode,
+  Headers,
+  HttpStatus,
+  Ip,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBody,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
 import { AuthService } from './auth.service';
-import { NoAuth } from 'src/common/decorators';
-import { SigninDto, SignupDto } from './dto';
+import { GetCurrentUser, NoAuth } from 'src/common/decorators';
+import { rtReq, userReq } from 'src/common/types';
+import {
+  ForgotPasswordDto,
+  ResetPasswordDto,
+  SigninDto,
+  SignupDto,
+  TwoFactorCodeDto,
+  TwoFactorSigninDto,
+  VerifyEmailDto,
+} from './dto';
+import { RtGuard } from './guards';
+import { TwoFactorService } from './two-factor.service';
 
 @ApiTags('auth')
 @Controller('auth')
 export class AuthController {
-  constructor(private authService: AuthService) {}
+  constructor(
+    private authService: AuthService,
+    private twoFactorService: TwoFactorService,
+  ) {}
 
   @NoAuth()
   @ApiOperation({ summary: 'Register a new user' })
@@ -22,6 +51,10 @@ export class AuthController {
           type: 'string',
           example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
         },
+        refresh_token: {
+          type: 'string',
+          example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+        },
       },
     },
   })
@@ -35,17 +68,26 @@ export class AuthController {
   })
   @HttpCode(HttpStatus.CREATED)
   @Post('/signup')
-  async localSignup(@Body() dto: SignupDto) {
-    const tokens = await this.authService.signup(dto);
+  async localSignup(
+    @Body() dto: SignupDto,
+    @Ip() ip: string,
+    @Headers('user-agent') userAgent: string,
+  ) {
+    const tokens = await this.authService.signup(dto, { ip, userAgent });
     return tokens;
   }
 
   @NoAuth()
-  @ApiOperation({ summary: 'Sign in an existing user' })
+  @ApiOperation({
+    summary: 'Sign in an existing user',
+    description:
+      'Accounts with two-factor authentication receive a challenge token instead of the token pair; exchange it at /auth/2fa/verify.',
+  })
   @ApiBody({ type: SigninDto })
   @ApiResponse({
     status: 200,
-    description: 'User successfully signed in',
+    description:
+      'User successfully signed in, or two-factor challenge issued (two_factor_required + challenge_token)',
     schema: {
       type: 'object',
       properties: {
@@ -53,6 +95,10 @@ export class AuthController {
           type: 'string',
           example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
         },
+        refresh_token: {
+          type: 'string',
+          example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+        },
       },
     },
   })
@@ -64,10 +110,388 @@ export class AuthController {
     status: 401,
     description: 'Unauthorized - invalid credentials',
   })
+  @ApiResponse({
+    status: 423,
+    description:
+      'Locked - too many failed attempts (code ACCOUNT_LOCKED or IP_LOCKED)',
+  })
+  @ApiResponse({
+    status: 429,
+    description:
+      'Too many requests - retry after the progressive delay (code TOO_MANY_ATTEMPTS)',
+  })
   @HttpCode(HttpStatus.OK)
   @Post('/signin')
-  async localSignin(@Body() dto: SigninDto) {
-    const tokens = await this.authService.signin(dto);
+  async localSignin(
+    @Body() dto: SigninDto,
+    @Ip() ip: string,
+    @Headers('user-agent') userAgent: string,
+  ) {
+    const tokens = await this.authService.signin(dto, { ip, userAgent });
     return tokens;
   }
+
+  @NoAuth()
+  @ApiOperation({
+    summary: 'Complete a two-factor signin',
+    description:
+      'Exchanges the challenge token returned by signin together with a TOTP or recovery code for the token pair.',
+  })
+  @ApiBody({ type: TwoFactorSigninDto })
+  @ApiResponse({
+    status: 200,
+    description: 'User successfully signed in',
+    schema: {
+      type: 'object',
+      properties: {
+        access_token: {
+          type: 'string',
+          example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+        },
+        refresh_token: {
+          type: 'string',
+          example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - invalid or expired challenge, or invalid code',
+  })
+  @ApiResponse({
+    status: 423,
+    description: 'Locked - too many failed attempts',
+  })
+  @ApiResponse({
+    status: 429,
+    description: 'Too many requests - retry after the progressive delay',
+  })
+  @HttpCode(HttpStatus.OK)
+  @Post('/2fa/verify')
+  async signinTwoFactor(
+    @Body() dto: TwoFactorSigninDto,
+    @Ip() ip: string,
+    @Headers('user-agent') userAgent: string,
+  ) {
+    return await this.authService.signinTwoFactor(dto, { ip, userAgent });
+  }
+
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Start two-factor enrollment',
+    description:
+      'Returns a new TOTP secret and otpauth URI for the authenticator app. Enrollment only takes effect after confirming a code at /auth/2fa/enable.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Secret generated',
+    schema: {
+      type: 'object',
+      properties: {
+        secret: { type: 'string', example: 'JBSWY3DPEHPK3PXP' },
+        otpauthUrl: {
+          type: 'string',
+          example:
+            'otpauth://totp/Product%20Management:user%40example.com?secret=JBSWY3DPEHPK3PXP&period=30&digits=6&algorithm=SHA1&issuer=Product%20Management',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - two-factor authentication already enabled',
+  })
+  @HttpCode(HttpStatus.CREATED)
+  @Post('/2fa/setup')
+  async setupTwoFactor(@GetCurrentUser() user: userReq) {
+    return await this.twoFactorService.setup({
+      id: user.userId,
+      email: user.email,
+    });
+  }
+
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Confirm enrollment with a code and enable two-factor',
+    description: 'Recovery codes are returned once and stored hashed.',
+  })
+  @ApiBody({ type: TwoFactorCodeDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Two-factor authentication enabled',
+    schema: {
+      type: 'object',
+      properties: {
+        recoveryCodes: {
+          type: 'array',
+          items: { type: 'string' },
+          example: ['3f9a1-c0b7e', '8d2e4-a61f0'],
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - setup not started or invalid code',
+  })
+  @HttpCode(HttpStatus.OK)
+  @Post('/2fa/enable')
+  async enableTwoFactor(
+    @GetCurrentUser() user: userReq,
+    @Body() dto: TwoFactorCodeDto,
+  ) {
+    return await this.twoFactorService.enable(user.userId, dto.code);
+  }
+
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Disable two-factor authentication' })
+  @ApiBody({ type: TwoFactorCodeDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Two-factor authentication disabled',
+    schema: {
+      type: 'object',
+      properties: {
+        message: {
+          type: 'string',
+          example: 'Two-factor authentication disabled',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - not enabled or invalid code',
+  })
+  @HttpCode(HttpStatus.OK)
+  @Post('/2fa/disable')
+  async disableTwoFactor(
+    @GetCurrentUser() user: userReq,
+    @Body() dto: TwoFactorCodeDto,
+  ) {
+    return await this.twoFactorService.disable(user.userId, dto.code);
+  }
+
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Replace all recovery codes',
+    description: 'Previously issued recovery codes stop working.',
+  })
+  @ApiBody({ type: TwoFactorCodeDto })
+  @ApiResponse({
+    status: 200,
+    description: 'New recovery codes',
+    schema: {
+      type: 'object',
+      properties: {
+        recoveryCodes: {
+          type: 'array',
+          items: { type: 'string' },
+          example: ['3f9a1-c0b7e', '8d2e4-a61f0'],
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - not enabled or invalid code',
+  })
+  @HttpCode(HttpStatus.OK)
+  @Post('/2fa/recovery-codes')
+  async regenerateRecoveryCodes(
+    @GetCurrentUser() user: userReq,
+    @Body() dto: TwoFactorCodeDto,
+  ) {
+    return await this.twoFactorService.regenerateRecoveryCodes(
+      user.userId,
+      dto.code,
+    );
+  }
+
+  @NoAuth()
+  @UseGuards(RtGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Exchange a refresh token for a new token pair',
+    description:
+      'Send the refresh token as the bearer token. Each refresh token can only be used once; reusing one revokes the whole session.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Tokens successfully refreshed',
+    schema: {
+      type: 'object',
+      properties: {
+        access_token: {
+          type: 'string',
+          example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+        },
+        refresh_token: {
+          type: 'string',
+          example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - invalid, expired or reused refresh token',
+  })
+  @HttpCode(HttpStatus.OK)
+  @Post('/refresh')
+  async refreshTokens(@GetCurrentUser() user: rtReq) {
+    return await this.authService.refreshTokens(
+      user.userId,
+      user.tokenId,
+      user.refreshToken,
+    );
+  }
+
+  @NoAuth()
+  @UseGuards(RtGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Invalidate the refresh token',
+    description: 'Send the refresh token as the bearer token.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'User successfully logged out',
+    schema: {
+      type: 'object',
+      properties: {
+        message: {
+          type: 'string',
+          example: 'Logged out successfully',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - invalid or expired refresh token',
+  })
+  @HttpCode(HttpStatus.OK)
+  @Post('/logout')
+  async logout(@GetCurrentUser() user: rtReq) {
+    return await this.authService.logout(user.userId, user.tokenId);
+  }
+
+  @NoAuth()
+  @ApiOperation({
+    summary: 'Request a password reset token by email',
+    description:
+      'Always responds with the same message, whether or not the email is registered.',
+  })
+  @ApiBody({ type: ForgotPasswordDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Reset token sent if the account exists',
+    schema: {
+      type: 'object',
+      properties: {
+        message: {
+          type: 'string',
+          example:
+            'If an account exists for this email, a password reset link has been sent',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - validation error',
+  })
+  @HttpCode(HttpStatus.OK)
+  @Post('/forgot-password')
+  async forgotPassword(@Body() dto: ForgotPasswordDto) {
+    return await this.authService.forgotPassword(dto);
+  }
+
+  @NoAuth()
+  @ApiOperation({ summary: 'Reset password using an emailed reset token' })
+  @ApiBody({ type: ResetPasswordDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Password reset successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        message: {
+          type: 'string',
+          example: 'Password reset successfully',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - validation error or invalid/expired token',
+  })
+  @HttpCode(HttpStatus.OK)
+  @Post('/reset-password')
+  async resetPassword(@Body() dto: ResetPasswordDto) {
+    return await this.authService.resetPassword(dto);
+  }
+
+  @NoAuth()
+  @ApiOperation({
+    summary: 'Confirm email ownership using an emailed verification token',
+    description:
+      'Tokens issued before verification keep reporting the email as unverified until they are refreshed.',
+  })
+  @ApiBody({ type: VerifyEmailDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Email verified successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        message: {
+          type: 'string',
+          example:
+            'Email verified successfully. Refresh your tokens to pick up the change',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - validation error or invalid/expired token',
+  })
+  @HttpCode(HttpStatus.OK)
+  @Post('/verify-email')
+  async verifyEmail(@Body() dto: VerifyEmailDto) {
+    return await this.authService.verifyEmail(dto);
+  }
+
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Send a new email verification token' })
+  @ApiResponse({
+    status: 200,
+    description: 'Verification email sent',
+    schema: {
+      type: 'object',
+      properties: {
+        message: {
+          type: 'string',
+          example: 'Verification email sent',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - email already verified',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @HttpCode(HttpStatus.OK)
+  @Post('/verify-email/resend')
+  async resendVerificationEmail(@GetCurrentUser() user: userReq) {
+    return await this.authService.resendVerificationEmail(user.userId);
+  }
 }
@@ -2,16 +2,67 @@ import { Module } from '@nestjs/common';
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
 import { JwtModule } from '@nestjs/jwt';
-import { TypeOrmModule } from '@nestjs/typeorm';
+import { TypeOrmModule, getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
 import { User } from '../user/entities/user.entity';
-import { AtStrategy } from './strategies';
+import { ApiKeyStrategy, AtStrategy, RtStrategy } from './strategies';
+import {
+  ApiKey,
+  LoginAttempt,
+  RefreshToken,
+  Session,
+  TwoFactor,
+  UserToken,
+} from './entities';
+import { ApiKeyService } from './api-key.service';
+import { SessionService } from './session.service';
+import { TwoFactorService } from './two-factor.service';
+import {
+  InMemoryLoginAttemptStore,
+  LOGIN_ATTEMPT_STORE,
+  LoginAttemptStore,
+  LoginThrottleService,
+  PostgresLoginAttemptStore,
+} from './login-attempts';
+import { MailModule } from '../mail/mail.module';
 
 @Module({
   imports: [
     JwtModule.register({ global: true }),
-    TypeOrmModule.forFeature([User]),
+    TypeOrmModule.forFeature([
+      User,
+      RefreshToken,
+      UserToken,
+      LoginAttempt,
+      Session,
+      ApiKey,
+      TwoFactor,
+    ]),
+    MailModule,
   ],
   controllers: [AuthController],
-  providers: [AuthService, AtStrategy],
+  providers: [
+    AuthService,
+    AtStrategy,
+    RtStrategy,
+    ApiKeyStrategy,
+    {
+      provide: LOGIN_ATTEMPT_STORE,
+      useFactory: (
+        config: ConfigService,
+        repository: Repository<LoginAttempt>,
+      ): LoginAttemptStore =>
+        config.get('LOGIN_ATTEMPT_STORE') === 'memory'
+          ? new InMemoryLoginAttemptStore()
+          : new PostgresLoginAttemptStore(repository),
+      inject: [ConfigService, getRepositoryToken(LoginAttempt)],
+    },
+    LoginThrottleService,
+    SessionService,
+    ApiKeyService,
+    TwoFactorService,
+  ],
+  exports: [SessionService, ApiKeyService],
 })
 export class AuthModule {}
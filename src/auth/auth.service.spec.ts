@@ -0,0 +1,368 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { BadRequestException, UnauthorizedException } from '@nestjs/common';
+import { WINSTON_MODULE_PROVIDER } from 'nest-winston';
+import * as argon from 'argon2';
+import { AuthService } from './auth.service';
+import { Role, User } from '../user/entities/user.entity';
+import { RefreshToken, UserToken } from './entities';
+import { MailService } from '../mail/mail.service';
+import { LoginThrottleService } from './login-attempts';
+import { SessionService } from './session.service';
+import { TwoFactorService } from './two-factor.service';
+
+describe('AuthService', () => {
+  let service: AuthService;
+  let refreshTokens: RefreshToken[];
+  let userTokens: UserToken[];
+
+  const user = {
+    id: '5f6b1c2e-8d4a-4b7e-9c3f-2a1d0e9b8c7a',
+    email: 'user@example.com',
+    firstName: 'John',
+    lastName: 'Doe',
+    role: Role.BUYER,
+  } as User;
+
+  const matches = (row: object, where: object) =>
+    Object.entries(where).every(([key, value]) =>
+      // IsNull() is the only operator used against these repositories
+      typeof value === 'object' && value !== null
+        ? row[key] === null || row[key] === undefined
+        : row[key] === value,
+    );
+
+  const refreshTokenRepository = {
+    create: jest.fn((data) => ({ revokedAt: null, ...data })),
+    save: jest.fn(async (row) => {
+      refreshTokens.push(row);
+      return row;
+    }),
+    findOne: jest.fn(
+      async ({ where }) =>
+        refreshTokens.find((row) => matches(row, where)) ?? null,
+    ),
+    update: jest.fn(async (where, changes) => {
+      const rows = refreshTokens.filter((row) => matches(row, where));
+      rows.forEach((row) => Object.assign(row, changes));
+      return { affected: rows.length };
+    }),
+  };
+
+  const userTokenRepository = {
+    create: jest.fn((data) => ({ usedAt: null, ...data })),
+    save: jest.fn(async (row) => {
+      const saved = { id: '0b8e7a4c-3f2d-4e1a-9b6c-5d4e3f2a1b0c', ...row };
+      userTokens.push(saved);
+      return saved;
+    }),
+    findOne: jest.fn(
+      async ({ where }) =>
+        userTokens.find((row) => matches(row, where)) ?? null,
+    ),
+    update: jest.fn(async (where, changes) => {
+      const rows = userTokens.filter((row) => matches(row, where));
+      rows.forEach((row) => Object.assign(row, changes));
+      return { affected: rows.length };
+    }),
+    delete: jest.fn(async (where) => {
+      userTokens = userTokens.filter((row) => !matches(row, where));
+    }),
+  };
+
+  const userRepository = {
+    findBy: jest.fn(async () => [user]),
+    findOne: jest.fn(async () => user),
+    save: jest.fn(async (row) => row),
+  };
+
+  const mailService = { send: jest.fn() };
+
+  const loginThrottle = {
+    assertCanAttempt: jest.fn(),
+    registerFailure: jest.fn(),
+    registerSuccess: jest.fn(),
+    unlockAccount: jest.fn(),
+  };
+
+  const twoFactorService = {
+    isEnabled: jest.fn(async () => false),
+    verify: jest.fn(async () => false),
+  };
+
+  const sessionId = '9d8c7b6a-5f4e-4d3c-8b2a-1f0e9d8c7b6a';
+  const revokeRefreshTokens = (where: object) =>
+    refreshTokens
+      .filter((row) => matches(row, where))
+      .forEach((row) => (row.revokedAt = new Date()));
+  const sessionService = {
+    create: jest.fn(async () => ({ id: sessionId })),
+    extend: jest.fn(),
+    findActive: jest.fn(async (id) => ({ id })),
+    revoke: jest.fn(async (family) => revokeRefreshTokens({ family })),
+    revokeAllForUser: jest.fn(async (userId) =>
+      revokeRefreshTokens({ userId }),
+    ),
+  };
+
+  const config: Record<string, string> = {
+    AT_SECRET: 'at-secret',
+    AT_EXPIRESIN: '15m',
+    RT_SECRET: 'rt-secret',
+    RT_EXPIRESIN: '7d',
+    TWO_FACTOR_CHALLENGE_SECRET: '2fa-secret',
+  };
+
+  const rtPayload = (token: string) =>
+    new JwtService().verify(token, { secret: config.RT_SECRET });
+
+  beforeEach(async () => {
+    refreshTokens = [];
+    userTokens = [];
+    mailService.send.mockReset();
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuthService,
+        JwtService,
+        {
+          provide: getRepositoryToken(User),
+          useValue: userRepository,
+        },
+        {
+          provide: getRepositoryToken(UserToken),
+          useValue: userTokenRepository,
+        },
+        { provide: MailService, useValue: mailService },
+        { provide: SessionService, useValue: sessionService },
+        { provide: LoginThrottleService, useValue: loginThrottle },
+        { provide: TwoFactorService, useValue: twoFactorService },
+        {
+          provide: getRepositoryToken(RefreshToken),
+          useValue: refreshTokenRepository,
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+        {
+          provide: WINSTON_MODULE_PROVIDER,
+          useValue: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<AuthService>(AuthService);
+  });
+
+  it('stores issued refresh tokens hashed', async () => {
+    const tokens = await service.generateTokens(user, sessionId);
+
+    expect(refreshTokens).toHaveLength(1);
+    expect(refreshTokens[0].tokenHash).not.toEqual(tokens.refresh_token);
+    expect(
+      await argon.verify(refreshTokens[0].tokenHash, tokens.refresh_token),
+    ).toBe(true);
+  });
+
+  it('includes the user role in the access token', async () => {
+    const tokens = await service.generateTokens(user, sessionId);
+
+    const payload = new JwtService().verify(tokens.access_token, {
+      secret: config.AT_SECRET,
+    });
+    expect(payload.role).toEqual(Role.BUYER);
+    expect(payload.jti).toEqual(sessionId);
+  });
+
+  it('rotates refresh tokens within the same family', async () => {
+    const first = await service.generateTokens(user, sessionId);
+    const { jti } = rtPayload(first.refresh_token);
+
+    const second = await service.refreshTokens(
+      user.id,
+      jti,
+      first.refresh_token,
+    );
+
+    expect(second.refresh_token).not.toEqual(first.refresh_token);
+    expect(refreshTokens).toHaveLength(2);
+    expect(refreshTokens[0].revokedAt).toBeInstanceOf(Date);
+    expect(refreshTokens[1].revokedAt).toBeNull();
+    expect(refreshTokens[1].family).toEqual(sessionId);
+    expect(refreshTokens[0].family).toEqual(sessionId);
+  });
+
+  it('revokes the session when a rotated token is reused', async () => {
+    const first = await service.generateTokens(user, sessionId);
+    const { jti } = rtPayload(first.refresh_token);
+    await service.refreshTokens(user.id, jti, first.refresh_token);
+
+    await expect(
+      service.refreshTokens(user.id, jti, first.refresh_token),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+    expect(sessionService.revoke).toHaveBeenCalledWith(sessionId);
+    expect(refreshTokens.every((row) => row.revokedAt)).toBe(true);
+  });
+
+  it('refuses to refresh a revoked session', async () => {
+    const tokens = await service.generateTokens(user, sessionId);
+    const { jti } = rtPayload(tokens.refresh_token);
+    sessionService.findActive.mockResolvedValueOnce(null);
+
+    await expect(
+      service.refreshTokens(user.id, jti, tokens.refresh_token),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+
+  it('invalidates the refresh token on logout', async () => {
+    const tokens = await service.generateTokens(user, sessionId);
+    const { jti } = rtPayload(tokens.refresh_token);
+
+    await service.logout(user.id, jti);
+
+    await expect(
+      service.refreshTokens(user.id, jti, tokens.refresh_token),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+
+  describe('email verification', () => {
+    it('marks the email verified with the emailed token', async () => {
+      const unverifiedUser = { ...user, emailVerifiedAt: null } as User;
+      userRepository.findOne.mockResolvedValueOnce(unverifiedUser);
+      await service.resendVerificationEmail(user.id);
+      const [{ text }] = mailService.send.mock.calls[0];
+      const token = text.match(/Verification token: (\S+)/)[1];
+
+      userRepository.findOne.mockResolvedValueOnce(unverifiedUser);
+      await service.verifyEmail({ token });
+
+      const [savedUser] = userRepository.save.mock.calls.at(-1);
+      expect(savedUser.emailVerifiedAt).toBeInstanceOf(Date);
+    });
+  });
+
+  describe('password reset', () => {
+    const requestResetToken = async () => {
+      await service.forgotPassword({ email: user.email });
+      const [{ text }] = mailService.send.mock.calls[0];
+      return text.match(/Reset token: (\S+)/)[1] as string;
+    };
+
+    it('emails a token that is only stored hashed', async () => {
+      const token = await requestResetToken();
+
+      expect(mailService.send).toHaveBeenCalledWith(
+        expect.objectContaining({ to: user.email }),
+      );
+      expect(userTokens).toHaveLength(1);
+      expect(token).not.toContain(userTokens[0].tokenHash);
+    });
+
+    it('resets the password and revokes every session', async () => {
+      await service.generateTokens(user, sessionId);
+      const token = await requestResetToken();
+
+      await service.resetPassword({
+        token,
+        newPassword: 'newpass123',
+        newPasswordConfirm: 'newpass123',
+      });
+
+      const [savedUser] = userRepository.save.mock.calls.at(-1);
+      expect(await argon.verify(savedUser.password, 'newpass123')).toBe(true);
+      expect(sessionService.revokeAllForUser).toHaveBeenCalledWith(user.id);
+      expect(refreshTokens.every((row) => row.revokedAt)).toBe(true);
+    });
+
+    it('rejects a token that was already used', async () => {
+      const token = await requestResetToken();
+      const dto = {
+        token,
+        newPassword: 'newpass123',
+        newPasswordConfirm: 'newpass123',
+      };
+      await service.resetPassword(dto);
+
+      await expect(service.resetPassword(dto)).rejects.toBeInstanceOf(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('two-factor signin', () => {
+    const context = { ip: '203.0.113.7', userAgent: 'jest' };
+    const signin = () =>
+      service.signin({ email: user.email, password: 'pass1234' }, context);
+
+    beforeEach(async () => {
+      user.password = await argon.hash('pass1234');
+      twoFactorService.isEnabled.mockResolvedValue(true);
+    });
+
+    afterEach(() => {
+      twoFactorService.isEnabled.mockResolvedValue(false);
+      twoFactorService.verify.mockResolvedValue(false);
+    });
+
+    it('returns a challenge instead of tokens', async () => {
+      const result = await signin();
+
+      expect(result).toEqual({
+        two_factor_required: true,
+        challenge_token: expect.any(String),
+      });
+      expect(sessionService.create).not.toHaveBeenCalled();
+      expect(loginThrottle.registerSuccess).not.toHaveBeenCalled();
+    });
+
+    it('issues tokens once the challenge is exchanged with a valid code', async () => {
+      const { challenge_token } = (await signin()) as {
+        challenge_token: string;
+      };
+      twoFactorService.verify.mockResolvedValue(true);
+
+      const tokens = await service.signinTwoFactor(
+        { challengeToken: challenge_token, code: '123456' },
+        context,
+      );
+
+      expect(twoFactorService.verify).toHaveBeenCalledWith(user.id, '123456');
+      expect(tokens).toHaveProperty('access_token');
+      expect(loginThrottle.registerSuccess).toHaveBeenCalledWith(user.email);
+    });
+
+    it('counts an invalid code as a failed signin', async () => {
+      const { challenge_token } = (await signin()) as {
+        challenge_token: string;
+      };
+
+      await expect(
+        service.signinTwoFactor(
+          { challengeToken: challenge_token, code: '000000' },
+          context,
+        ),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+      expect(loginThrottle.registerFailure).toHaveBeenCalledWith(
+        user.email,
+        context.ip,
+      );
+      expect(sessionService.create).not.toHaveBeenCalled();
+    });
+
+    it('does not accept other tokens as a challenge', async () => {
+      const { access_token } = await service.generateTokens(user, sessionId);
+      twoFactorService.verify.mockResolvedValue(true);
+
+      await expect(
+        service.signinTwoFactor(
+          { challengeToken: access_token, code: '123456' },
+          context,
+        ),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+    });
+  });
+});
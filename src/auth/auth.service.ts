@@ -1,4 +1,5 @@
 import {
+  BadRequestException,
   ConflictException,
   Inject,
   Injectable,
@@ -7,25 +8,49 @@ import {
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { User } from '../user/entities/user.entity';
-import { Repository } from 'typeorm';
-import { SigninDto, SignupDto } from './dto';
+import { IsNull, Repository } from 'typeorm';
+import { randomBytes, randomUUID } from 'crypto';
+import { SessionContext, SessionService } from './session.service';
+import { RefreshToken, UserToken, UserTokenType } from './entities';
+import {
+  ForgotPasswordDto,
+  ResetPasswordDto,
+  SigninDto,
+  SignupDto,
+  TwoFactorSigninDto,
+  VerifyEmailDto,
+} from './dto';
 import * as argon from 'argon2';
 import { ConfigService } from '@nestjs/config';
 import { JwtService } from '@nestjs/jwt';
 import { Logger } from 'winston';
 import { WINSTON_MODULE_PROVIDER } from 'nest-winston';
+import { MailService } from '../mail/mail.service';
+import { LoginThrottleService } from './login-attempts';
+import { TwoFactorService } from './two-factor.service';
+
+// Marks challenge tokens so no other token type can be exchanged for them
+const TWO_FACTOR_CHALLENGE_PURPOSE = '2fa_challenge';
 
 @Injectable()
 export class AuthService {
   constructor(
     @InjectRepository(User) private userRepository: Repository<User>,
+    @InjectRepository(RefreshToken)
+    private refreshTokenRepository: Repository<RefreshToken>,
+    @InjectRepository(UserToken)
+    private userTokenRepository: Repository<UserToken>,
     private config: ConfigService,
     private jwtService: JwtService,
+    private mailService: MailService,
+    private loginThrottle: LoginThrottleService,
+    private sessionService: SessionService,
+    private twoFactorService: TwoFactorService,
     @Inject(WINSTON_MODULE_PROVIDER) private readonly logger: Logger,
   ) {}
 
-  async signup(dto: SignupDto) {
-    const { email, password, firstName, lastName } = dto;
+  async signup(dto: SignupDto, context: SessionContext) {
+    const { email, password, firstName, lastName, role } = dto;
     const user = await this.userRepository.findBy({ email });
     if (user.length > 0) {
       this.logger.debug('Account already exists');
@@ -40,6 +65,7 @@ export class AuthService {
       email,
       firstName,
       lastName,
+      role,
       password: passwordHash,
     });
     let savedUser: User;
@@ -60,21 +86,22 @@ export class AuthService {
       email,
     });
 
-    const token = await this.generateTokens(
-      savedUser.id,
-      savedUser.email,
-      savedUser.firstName,
-      savedUser.lastName,
-    );
+    await this.sendVerificationEmail(savedUser);
+
+    const token = await this.startSession(savedUser, context);
 
     return token;
   }
 
-  async signin(dto: SigninDto) {
+  async signin(dto: SigninDto, context: SessionContext) {
     const { email, password } = dto;
+    const { ip } = context;
+    await this.loginThrottle.assertCanAttempt(email, ip);
+
     const user = await this.userRepository.findBy({ email });
     if (user.length !== 1) {
-      this.logger.warn('Signin attempt with non-existent email', { email });
+      this.logger.warn('Signin attempt with non-existent email', { email, ip });
+      await this.loginThrottle.registerFailure(email, ip);
       throw new UnauthorizedException('Incorrect Credentials');
     }
 
@@ -83,45 +110,363 @@ export class AuthService {
       this.logger.warn('Signin attempt with incorrect password', {
         email,
         userId: user[0].id,
+        ip,
       });
+      await this.loginThrottle.registerFailure(email, ip);
       throw new UnauthorizedException('Incorrect Credentials');
     }
 
+    if (await this.twoFactorService.isEnabled(user[0].id)) {
+      // Failure counters are only cleared once the second factor passes
+      this.logger.info('Password accepted, two-factor challenge issued', {
+        userId: user[0].id,
+        email,
+      });
+
+      return {
+        two_factor_required: true,
+        challenge_token: this.jwtService.sign(
+          { sub: user[0].id, purpose: TWO_FACTOR_CHALLENGE_PURPOSE },
+          {
+            secret: this.config.get('TWO_FACTOR_CHALLENGE_SECRET'),
+            expiresIn:
+              this.config.get('TWO_FACTOR_CHALLENGE_EXPIRESIN') || '5m',
+          },
+        ),
+      };
+    }
+
+    await this.loginThrottle.registerSuccess(email);
+
     this.logger.info('User successfully signed in', {
       userId: user[0].id,
       email,
     });
 
-    const token = await this.generateTokens(
-      user[0].id,
-      user[0].email,
-      user[0].firstName,
-      user[0].lastName,
-    );
+    const token = await this.startSession(user[0], context);
 
     return token;
   }
 
+  async signinTwoFactor(dto: TwoFactorSigninDto, context: SessionContext) {
+    const { ip } = context;
+
+    let userId: string;
+    try {
+      const payload = this.jwtService.verify(dto.challengeToken, {
+        secret: this.config.get('TWO_FACTOR_CHALLENGE_SECRET'),
+      });
+      if (payload.purpose !== TWO_FACTOR_CHALLENGE_PURPOSE) {
+        throw new Error('Unexpected token purpose');
+      }
+      userId = payload.sub;
+    } catch {
+      this.logger.warn('Invalid or expired two-factor challenge', { ip });
+      throw new UnauthorizedException('Invalid or expired challenge');
+    }
+
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+    if (!user) {
+      this.logger.warn('Two-factor challenge for non-existent user', {
+        userId,
+      });
+      throw new UnauthorizedException('Invalid or expired challenge');
+    }
+
+    await this.loginThrottle.assertCanAttempt(user.email, ip);
+
+    if (!(await this.twoFactorService.verify(user.id, dto.code))) {
+      this.logger.warn('Signin attempt with invalid two-factor code', {
+        userId: user.id,
+        ip,
+      });
+      await this.loginThrottle.registerFailure(user.email, ip);
+      throw new UnauthorizedException('Invalid two-factor code');
+    }
+
+    await this.loginThrottle.registerSuccess(user.email);
+
+    this.logger.info('User successfully signed in with two-factor', {
+      userId: user.id,
+      email: user.email,
+    });
+
+    return await this.startSession(user, context);
+  }
+
+  async refreshTokens(userId: string, tokenId: string, refreshToken: string) {
+    const storedToken = await this.refreshTokenRepository.findOne({
+      where: { id: tokenId, userId },
+    });
+
+    if (!storedToken) {
+      this.logger.warn('Refresh attempt with unknown token', {
+        userId,
+        tokenId,
+      });
+      throw new UnauthorizedException('Access Denied');
+    }
+
+    if (storedToken.revokedAt) {
+      // A rotated or logged out token is being replayed, so the chain
+      // it belongs to can no longer be trusted
+      await this.sessionService.revoke(storedToken.family);
+      this.logger.warn('Refresh token reuse detected, session revoked', {
+        userId,
+        tokenId,
+        family: storedToken.family,
+      });
+      throw new UnauthorizedException('Access Denied');
+    }
+
+    const rtMatches = await argon.verify(storedToken.tokenHash, refreshToken);
+    if (!rtMatches) {
+      this.logger.warn('Refresh attempt with mismatching token', {
+        userId,
+        tokenId,
+      });
+      throw new UnauthorizedException('Access Denied');
+    }
+
+    // Conditional update so two concurrent refreshes cannot both succeed
+    const result = await this.refreshTokenRepository.update(
+      { id: storedToken.id, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+    if (!result.affected) {
+      await this.sessionService.revoke(storedToken.family);
+      this.logger.warn('Concurrent refresh token reuse detected', {
+        userId,
+        tokenId,
+        family: storedToken.family,
+      });
+      throw new UnauthorizedException('Access Denied');
+    }
+
+    const session = await this.sessionService.findActive(
+      storedToken.family,
+      userId,
+    );
+    if (!session) {
+      this.logger.warn('Refresh attempt for revoked session', {
+        userId,
+        sessionId: storedToken.family,
+      });
+      throw new UnauthorizedException('Access Denied');
+    }
+
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+    if (!user) {
+      this.logger.warn('Refresh attempt for non-existent user', { userId });
+      throw new UnauthorizedException('Access Denied');
+    }
+
+    this.logger.info('Tokens refreshed', { userId, sessionId: session.id });
+
+    return await this.generateTokens(user, session.id);
+  }
+
+  async logout(userId: string, tokenId: string) {
+    const storedToken = await this.refreshTokenRepository.findOne({
+      where: { id: tokenId, userId },
+    });
+
+    if (storedToken) {
+      await this.sessionService.revoke(storedToken.family);
+    }
+
+    this.logger.info('User logged out', { userId });
+
+    return { message: 'Logged out successfully' };
+  }
+
+  async forgotPassword(dto: ForgotPasswordDto) {
+    const { email } = dto;
+    const user = await this.userRepository.findOne({ where: { email } });
+
+    // Same response either way so the endpoint cannot be used to probe
+    // which emails are registered
+    const response = {
+      message:
+        'If an account exists for this email, a password reset link has been sent',
+    };
+
+    if (!user) {
+      this.logger.warn('Password reset requested for non-existent email', {
+        email,
+      });
+      return response;
+    }
+
+    const ttlMinutes = parseInt(
+      this.config.get('PASSWORD_RESET_TTL_MINUTES') || '30',
+    );
+    const token = await this.issueUserToken(
+      user.id,
+      UserTokenType.PASSWORD_RESET,
+      ttlMinutes,
+    );
+
+    await this.mailService.send({
+      to: user.email,
+      subject: 'Reset your password',
+      text: [
+        `Hi ${user.firstName},`,
+        '',
+        'Use the link below to choose a new password:',
+        `${this.config.get('FRONTEND_URL')}/reset-password?token=${token}`,
+        '',
+        `Reset token: ${token}`,
+        '',
+        `The token expires in ${ttlMinutes} minutes and can only be used once. If you did not request a password reset you can ignore this email.`,
+      ].join('\n'),
+    });
+
+    this.logger.info('Password reset token issued', { userId: user.id });
+
+    return response;
+  }
+
+  async resetPassword(dto: ResetPasswordDto) {
+    const userToken = await this.consumeUserToken(
+      dto.token,
+      UserTokenType.PASSWORD_RESET,
+    );
+
+    const user = await this.userRepository.findOne({
+      where: { id: userToken.userId },
+    });
+    if (!user) {
+      this.logger.warn('Password reset for non-existent user', {
+        userId: userToken.userId,
+      });
+      throw new BadRequestException('Invalid or expired token');
+    }
+
+    user.password = await this.hashData(dto.newPassword);
+    try {
+      await this.userRepository.save(user);
+    } catch (error) {
+      this.logger.error('Failed to reset password', { userId: user.id, error });
+      throw new InternalServerErrorException('Failed to reset password');
+    }
+
+    // Whoever held the old password may still be signed in
+    await this.sessionService.revokeAllForUser(user.id);
+    await this.loginThrottle.unlockAccount(user.email);
+
+    this.logger.info('Password reset successfully', { userId: user.id });
+
+    return { message: 'Password reset successfully' };
+  }
+
+  async verifyEmail(dto: VerifyEmailDto) {
+    const userToken = await this.consumeUserToken(
+      dto.token,
+      UserTokenType.EMAIL_VERIFICATION,
+    );
+
+    const user = await this.userRepository.findOne({
+      where: { id: userToken.userId },
+    });
+    if (!user) {
+      this.logger.warn('Email verification for non-existent user', {
+        userId: userToken.userId,
+      });
+      throw new BadRequestException('Invalid or expired token');
+    }
+
+    if (!user.emailVerifiedAt) {
+      user.emailVerifiedAt = new Date();
+      try {
+        await this.userRepository.save(user);
+      } catch (error) {
+        this.logger.error('Failed to verify email', { userId: user.id, error });
+        throw new InternalServerErrorException('Failed to verify email');
+      }
+    }
+
+    this.logger.info('Email verified successfully', {
+      userId: user.id,
+      email: user.email,
+    });
+
+    return {
+      message:
+        'Email verified successfully. Refresh your tokens to pick up the change',
+    };
+  }
+
+  async resendVerificationEmail(userId: string) {
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+    if (!user) {
+      this.logger.warn('Verification resend for non-existent user', {
+        userId,
+      });
+      throw new UnauthorizedException('Access Denied');
+    }
+
+    if (user.emailVerifiedAt) {
+      throw new BadRequestException('Email address is already verified');
+    }
+
+    await this.sendVerificationEmail(user);
+
+    return { message: 'Verification email sent' };
+  }
+
   async hashData(data: string): Promise<string> {
     return await argon.hash(data);
   }
 
   async generateTokens(
-    userId: string,
-    email: string,
-    firstName: string,
-    lastName: string,
+    user: Pick<
+      User,
+      'id' | 'email' | 'firstName' | 'lastName' | 'role' | 'emailVerifiedAt'
+    >,
+    sessionId: string,
   ) {
+    const { id: userId, email, firstName, lastName, role } = user;
+    const emailVerified = !!user.emailVerifiedAt;
     try {
+      const tokenId = randomUUID();
       const at = this.jwtService.sign(
-        { sub: userId, email, firstName, lastName },
+        {
+          sub: userId,
+          jti: sessionId,
+          email,
+          firstName,
+          lastName,
+          role,
+          emailVerified,
+        },
         {
           secret: this.config.get('AT_SECRET'),
           expiresIn: this.config.get('AT_EXPIRESIN'),
         },
       );
+      const rt = this.jwtService.sign(
+        { sub: userId, jti: tokenId },
+        {
+          secret: this.config.get('RT_SECRET'),
+          expiresIn: this.config.get('RT_EXPIRESIN'),
+        },
+      );
 
-      return { access_token: at };
+      const { exp } = this.jwtService.decode(rt);
+      const expiresAt = new Date(exp * 1000);
+      await this.refreshTokenRepository.save(
+        this.refreshTokenRepository.create({
+          id: tokenId,
+          userId,
+          family: sessionId,
+          tokenHash: await this.hashData(rt),
+          expiresAt,
+        }),
+      );
+      await this.sessionService.extend(sessionId, expiresAt);
+
+      return { access_token: at, refresh_token: rt };
     } catch (err) {
       this.logger.error('Failed to generate tokens', {
         error: err,
@@ -131,4 +476,92 @@ export class AuthService {
       throw new InternalServerErrorException('Failed to generate tokens');
     }
   }
+
+  private async startSession(user: User, context: SessionContext) {
+    const session = await this.sessionService.create(user.id, context);
+    return await this.generateTokens(user, session.id);
+  }
+
+  private async sendVerificationEmail(user: User) {
+    const ttlMinutes = parseInt(
+      this.config.get('EMAIL_VERIFICATION_TTL_MINUTES') || '1440',
+    );
+    const token = await this.issueUserToken(
+      user.id,
+      UserTokenType.EMAIL_VERIFICATION,
+      ttlMinutes,
+    );
+
+    await this.mailService.send({
+      to: user.email,
+      subject: 'Verify your email address',
+      text: [
+        `Hi ${user.firstName},`,
+        '',
+        'Confirm your email address using the link below:',
+        `${this.config.get('FRONTEND_URL')}/verify-email?token=${token}`,
+        '',
+        `Verification token: ${token}`,
+        '',
+        `The token expires in ${ttlMinutes} minutes.`,
+      ].join('\n'),
+    });
+
+    this.logger.info('Email verification token issued', { userId: user.id });
+  }
+
+  private async issueUserToken(
+    userId: string,
+    type: UserTokenType,
+    ttlMinutes: number,
+  ): Promise<string> {
+    // Only the most recently issued token of a type stays valid
+    await this.userTokenRepository.delete({ userId, type, usedAt: IsNull() });
+
+    const secret = randomBytes(32).toString('hex');
+    const userToken = await this.userTokenRepository.save(
+      this.userTokenRepository.create({
+        userId,
+        type,
+        tokenHash: await this.hashData(secret),
+        expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000),
+      }),
+    );
+
+    return `${userToken.id}.${secret}`;
+  }
+
+  private async consumeUserToken(
+    token: string,
+    type: UserTokenType,
+  ): Promise<UserToken> {
+    const [id, secret] = token.split('.');
+    const uuidPattern =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+    const userToken =
+      secret && uuidPattern.test(id)
+        ? await this.userTokenRepository.findOne({ where: { id, type } })
+        : null;
+
+    if (
+      !userToken ||
+      userToken.usedAt ||
+      userToken.expiresAt.getTime() < Date.now() ||
+      !(await argon.verify(userToken.tokenHash, secret))
+    ) {
+      this.logger.warn('Invalid or expired user token presented', { type });
+      throw new BadRequestException('Invalid or expired token');
+    }
+
+    const result = await this.userTokenRepository.update(
+      { id: userToken.id, usedAt: IsNull() },
+      { usedAt: new Date() },
+    );
+    if (!result.affected) {
+      throw new BadRequestException('Invalid or expired token');
+    }
+
+    return userToken;
+  }
 }
@@ -0,0 +1,35 @@
+import {
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsEnum,
+  IsNotEmpty,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { ApiKeyScope } from '../entities';
+
+export class CreateApiKeyDto {
+  @ApiProperty({
+    description: 'Human readable name of the key',
+    example: 'Warehouse sync',
+    maxLength: 100,
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    description: 'Scopes granted to the key',
+    enum: ApiKeyScope,
+    isArray: true,
+    example: [ApiKeyScope.PRODUCTS_WRITE],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsEnum(ApiKeyScope, { each: true })
+  scopes: ApiKeyScope[];
+}
@@ -1,2 +1,8 @@
 export * from './signup.dto';
 export * from './signin.dto';
+export * from './forgot-password.dto';
+export * from './reset-password.dto';
+export * from './verify-email.dto';
+export * from './create-api-key.dto';
+export * from './two-factor-code.dto';
+export * from './two-factor-signin.dto';
@@ -0,0 +1,40 @@
+import { IsNotEmpty, IsString, MaxLength, MinLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Match } from 'src/common/validators';
+
+export class ResetPasswordDto {
+  @ApiProperty({
+    description: 'Reset token received by email',
+    example: '123e4567-e89b-12d3-a456-426614174000.4f0c8a...',
+  })
+  @IsNotEmpty()
+  @IsString()
+  token: string;
+
+  @ApiProperty({
+    description: 'New password',
+    example: 'newpassword123',
+    minLength: 6,
+    maxLength: 12,
+  })
+  @IsNotEmpty()
+  @MinLength(6)
+  @MaxLength(12)
+  @IsString()
+  newPassword: string;
+
+  @ApiProperty({
+    description: 'New password confirmation (must match new password)',
+    example: 'newpassword123',
+    minLength: 6,
+    maxLength: 12,
+  })
+  @IsNotEmpty()
+  @MinLength(6)
+  @MaxLength(12)
+  @IsString()
+  @Match('newPassword', {
+    message: 'Password confirmation does not match new password',
+  })
+  newPasswordConfirm: string;
+}
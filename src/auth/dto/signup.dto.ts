@@ -1,6 +1,8 @@
 import {
   IsEmail,
+  IsIn,
   IsNotEmpty,
+  IsOptional,
   IsString,
   Matches,
   MaxLength,
@@ -8,6 +10,7 @@ import {
 } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 import { Match } from 'src/common/validators';
+import { Role } from 'src/user/entities/user.entity';
 
 export class SignupDto {
   @ApiProperty({
@@ -68,4 +71,17 @@ export class SignupDto {
       'lastName can only contain letters, spaces, hyphens, and apostrophes',
   })
   lastName: string;
+
+  @ApiProperty({
+    description: 'Account role. Admin accounts cannot be self-registered',
+    enum: [Role.BUYER, Role.SELLER],
+    example: Role.SELLER,
+    required: false,
+    default: Role.BUYER,
+  })
+  @IsOptional()
+  @IsIn([Role.BUYER, Role.SELLER], {
+    message: 'role must be either buyer or seller',
+  })
+  role?: Role;
 }
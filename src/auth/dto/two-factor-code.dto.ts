@@ -0,0 +1,12 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TwoFactorCodeDto {
+  @ApiProperty({
+    description: 'Current code from the authenticator app, or a recovery code',
+    example: '123456',
+  })
+  @IsNotEmpty()
+  @IsString()
+  code: string;
+}
@@ -0,0 +1,20 @@
+import { IsJWT, IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TwoFactorSigninDto {
+  @ApiProperty({
+    description: 'Challenge token returned by signin',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+  })
+  @IsNotEmpty()
+  @IsJWT()
+  challengeToken: string;
+
+  @ApiProperty({
+    description: 'Current code from the authenticator app, or a recovery code',
+    example: '123456',
+  })
+  @IsNotEmpty()
+  @IsString()
+  code: string;
+}
@@ -0,0 +1,12 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class VerifyEmailDto {
+  @ApiProperty({
+    description: 'Verification token received by email',
+    example: '123e4567-e89b-12d3-a456-426614174000.4f0c8a...',
+  })
+  @IsNotEmpty()
+  @IsString()
+  token: string;
+}
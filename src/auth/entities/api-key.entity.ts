@@ -0,0 +1,82 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { ApiProperty } from '@nestjs/swagger';
+import { User } from '../../user/entities/user.entity';
+
+export enum ApiKeyScope {
+  PRODUCTS_READ = 'products:read',
+  PRODUCTS_WRITE = 'products:write',
+  ORDERS_READ = 'orders:read',
+}
+
+@Entity()
+export class ApiKey {
+  @ApiProperty({
+    description: 'API key unique identifier',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @ApiProperty({
+    description: 'Human readable name of the key',
+    example: 'Warehouse sync',
+  })
+  @Column()
+  name: string;
+
+  // Public part of the key, used to find the row before checking the hash
+  @ApiProperty({
+    description: 'Non-secret prefix identifying the key',
+    example: '3f9a1c0b7e2d',
+  })
+  @Column({ unique: true })
+  prefix: string;
+
+  @Column()
+  keyHash: string;
+
+  @ApiProperty({
+    description: 'Scopes granted to the key',
+    enum: ApiKeyScope,
+    isArray: true,
+    example: [ApiKeyScope.PRODUCTS_WRITE],
+  })
+  @Column({
+    type: 'enum',
+    enum: ApiKeyScope,
+    array: true,
+  })
+  scopes: ApiKeyScope[];
+
+  @ApiProperty({
+    description: 'Last time the key authenticated a request',
+    example: '2024-01-01T00:00:00.000Z',
+    nullable: true,
+  })
+  @Column('timestamp', { nullable: true })
+  lastUsedAt: Date;
+
+  @Column('timestamp', { nullable: true })
+  revokedAt: Date;
+
+  @ApiProperty({
+    description: 'API key creation date',
+    example: '2024-01-01T00:00:00.000Z',
+  })
+  @CreateDateColumn()
+  createdAt: Date;
+}
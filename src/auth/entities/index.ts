@@ -0,0 +1,6 @@
+export * from './refresh-token.entity';
+export * from './user-token.entity';
+export * from './login-attempt.entity';
+export * from './session.entity';
+export * from './api-key.entity';
+export * from './two-factor.entity';
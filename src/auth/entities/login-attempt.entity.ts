@@ -0,0 +1,17 @@
+import { Entity, PrimaryColumn, Column } from 'typeorm';
+
+// Failed signin counter for one throttling key (an account or an IP)
+@Entity()
+export class LoginAttempt {
+  @PrimaryColumn()
+  key: string;
+
+  @Column('int', { default: 0 })
+  failures: number;
+
+  @Column('timestamp')
+  lastFailureAt: Date;
+
+  @Column('timestamp', { nullable: true })
+  blockedUntil: Date;
+}
@@ -0,0 +1,42 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../user/entities/user.entity';
+
+@Entity()
+export class RefreshToken {
+  // Doubles as the `jti` claim of the issued refresh token
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column()
+  tokenHash: string;
+
+  // Every token obtained by rotating the same signin shares a family,
+  // so reuse of a rotated token can revoke the whole chain at once
+  @Index()
+  @Column('uuid')
+  family: string;
+
+  @Column('timestamp')
+  expiresAt: Date;
+
+  @Column('timestamp', { nullable: true })
+  revokedAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
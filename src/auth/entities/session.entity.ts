@@ -0,0 +1,66 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { ApiProperty } from '@nestjs/swagger';
+import { User } from '../../user/entities/user.entity';
+
+// One signin on one device. Its id is the `jti` of every access token and
+// the family of every refresh token issued for it.
+@Entity()
+export class Session {
+  @ApiProperty({
+    description: 'Session unique identifier',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @ApiProperty({
+    description: 'User agent of the device that signed in',
+    example: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X)',
+    nullable: true,
+  })
+  @Column({ nullable: true })
+  userAgent: string;
+
+  @ApiProperty({
+    description: 'IP address the session was last seen from',
+    example: '203.0.113.7',
+    nullable: true,
+  })
+  @Column({ nullable: true })
+  ip: string;
+
+  @ApiProperty({
+    description: 'Session creation date',
+    example: '2024-01-01T00:00:00.000Z',
+  })
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'Last time the session was used',
+    example: '2024-01-01T00:00:00.000Z',
+  })
+  @Column('timestamp', { default: () => 'now()' })
+  lastSeenAt: Date;
+
+  // Pushed forward on every refresh, matches the newest refresh token
+  @Column('timestamp')
+  expiresAt: Date;
+
+  @Column('timestamp', { nullable: true })
+  revokedAt: Date;
+}
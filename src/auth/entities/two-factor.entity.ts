@@ -0,0 +1,39 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { User } from '../../user/entities/user.entity';
+
+// TOTP enrollment of a user. The row exists as soon as setup starts but
+// only guards signin once enabledAt is set by a confirmed code.
+@Entity()
+export class TwoFactor {
+  @PrimaryColumn('uuid')
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column()
+  secret: string;
+
+  @Column('timestamp', { nullable: true })
+  enabledAt: Date;
+
+  // Time step of the last accepted code, so a code cannot be replayed
+  // within its validity window
+  @Column('integer', { nullable: true })
+  lastUsedStep: number;
+
+  // Argon hashes of the unused recovery codes
+  @Column('text', { array: true, default: [] })
+  recoveryCodes: string[];
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
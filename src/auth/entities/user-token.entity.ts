@@ -0,0 +1,47 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { User } from '../../user/entities/user.entity';
+
+export enum UserTokenType {
+  PASSWORD_RESET = 'password_reset',
+  EMAIL_VERIFICATION = 'email_verification',
+}
+
+// Single-use token sent to the user out of band. Only the argon hash of
+// the secret part is stored; the id is handed out alongside it for lookup.
+@Entity()
+export class UserToken {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column({
+    type: 'enum',
+    enum: UserTokenType,
+  })
+  type: UserTokenType;
+
+  @Column()
+  tokenHash: string;
+
+  @Column('timestamp')
+  expiresAt: Date;
+
+  @Column('timestamp', { nullable: true })
+  usedAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1 @@
+export * from './login-blocked.exception';
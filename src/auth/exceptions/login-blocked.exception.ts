@@ -0,0 +1,40 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+export enum LoginBlockedCode {
+  ACCOUNT_LOCKED = 'ACCOUNT_LOCKED',
+  IP_LOCKED = 'IP_LOCKED',
+  TOO_MANY_ATTEMPTS = 'TOO_MANY_ATTEMPTS',
+}
+
+// HttpStatus does not define 423 Locked
+export const HTTP_STATUS_LOCKED = 423;
+
+const messages: Record<LoginBlockedCode, string> = {
+  [LoginBlockedCode.ACCOUNT_LOCKED]:
+    'Account temporarily locked after too many failed signin attempts. Try again later or reset your password',
+  [LoginBlockedCode.IP_LOCKED]:
+    'Too many failed signin attempts from this address. Try again later',
+  [LoginBlockedCode.TOO_MANY_ATTEMPTS]:
+    'Too many failed signin attempts. Please wait before trying again',
+};
+
+// Distinct from the 401 "Incorrect Credentials" so clients can tell a
+// wrong password apart from a temporary block
+export class LoginBlockedException extends HttpException {
+  constructor(code: LoginBlockedCode, retryAfterSeconds: number) {
+    const status =
+      code === LoginBlockedCode.TOO_MANY_ATTEMPTS
+        ? HttpStatus.TOO_MANY_REQUESTS
+        : HTTP_STATUS_LOCKED;
+
+    super(
+      {
+        statusCode: status,
+        code,
+        message: messages[code],
+        retryAfter: retryAfterSeconds,
+      },
+      status,
+    );
+  }
+}
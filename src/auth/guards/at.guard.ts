@@ -1,9 +1,23 @@
-import { Injectable, ExecutionContext } from '@nestjs/common';
+import {
+  Injectable,
+  ExecutionContext,
+  ForbiddenException,
+} from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { AuthGuard } from '@nestjs/passport';
-import { NO_AUTH_KEY } from 'src/common/decorators';
+import {
+  API_KEY_SCOPES_KEY,
+  NO_AUTH_KEY,
+  ROLES_KEY,
+  VERIFIED_EMAIL_KEY,
+} from 'src/common/decorators';
+import { userReq } from 'src/common/types';
+import { Role } from 'src/user/entities/user.entity';
+import { ApiKeyScope } from '../entities';
+
+// Accepts either a bearer access token or an X-API-KEY header
 @Injectable()
-export class AtGuard extends AuthGuard('jwt') {
+export class AtGuard extends AuthGuard(['jwt', 'api-key']) {
   constructor(private reflector: Reflector) {
     super();
   }
@@ -18,6 +32,59 @@ export class AtGuard extends AuthGuard('jwt') {
       return true;
     }
 
-    return (await super.canActivate(context)) as boolean;
+    const authenticated = (await super.canActivate(context)) as boolean;
+    if (!authenticated) {
+      return false;
+    }
+
+    const user: userReq = context.switchToHttp().getRequest().user;
+
+    if (user.apiKeyId) {
+      // API keys are only accepted where a handler explicitly opts in
+      const scopes = this.reflector.getAllAndOverride<ApiKeyScope[]>(
+        API_KEY_SCOPES_KEY,
+        [context.getHandler(), context.getClass()],
+      );
+
+      if (!scopes || scopes.length === 0) {
+        throw new ForbiddenException(
+          'API keys cannot be used to access this endpoint',
+        );
+      }
+
+      if (!scopes.every((scope) => user.scopes.includes(scope))) {
+        throw new ForbiddenException(
+          `API key is missing a required scope: ${scopes.join(', ')}`,
+        );
+      }
+    }
+
+    const requireVerifiedEmail = this.reflector.getAllAndOverride<boolean>(
+      VERIFIED_EMAIL_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (requireVerifiedEmail && !user.emailVerified) {
+      throw new ForbiddenException(
+        'Please verify your email address to perform this action',
+      );
+    }
+
+    const roles = this.reflector.getAllAndOverride<Role[]>(ROLES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (!roles || roles.length === 0) {
+      return true;
+    }
+
+    if (!roles.includes(user.role)) {
+      throw new ForbiddenException(
+        'You do not have permission to perform this action',
+      );
+    }
+
+    return true;
   }
 }
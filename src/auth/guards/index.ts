@@ -1 +1,2 @@
 export * from './at.guard';
+export * from './rt.guard';
@@ -0,0 +1,40 @@
+import {
+  LoginAttemptRecord,
+  LoginAttemptStore,
+} from './login-attempt-store.interface';
+
+// Process-local store, suitable for tests and single-instance deployments
+export class InMemoryLoginAttemptStore implements LoginAttemptStore {
+  private readonly records = new Map<string, LoginAttemptRecord>();
+
+  async get(key: string): Promise<LoginAttemptRecord | null> {
+    const record = this.records.get(key);
+    return record ? { ...record } : null;
+  }
+
+  async addFailure(key: string, at: Date, windowMs: number): Promise<number> {
+    const record = this.records.get(key);
+    const withinWindow =
+      record && at.getTime() - record.lastFailureAt.getTime() < windowMs;
+
+    const failures = withinWindow ? record.failures + 1 : 1;
+    this.records.set(key, {
+      key,
+      failures,
+      lastFailureAt: at,
+      blockedUntil: record?.blockedUntil ?? null,
+    });
+    return failures;
+  }
+
+  async block(key: string, until: Date): Promise<void> {
+    const record = this.records.get(key);
+    if (record && !(record.blockedUntil > until)) {
+      record.blockedUntil = until;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+}
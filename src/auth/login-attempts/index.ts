@@ -0,0 +1,4 @@
+export * from './login-attempt-store.interface';
+export * from './in-memory-login-attempt.store';
+export * from './postgres-login-attempt.store';
+export * from './login-throttle.service';
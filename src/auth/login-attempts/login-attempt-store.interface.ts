@@ -0,0 +1,18 @@
+export const LOGIN_ATTEMPT_STORE = 'LOGIN_ATTEMPT_STORE';
+
+export type LoginAttemptRecord = {
+  key: string;
+  failures: number;
+  lastFailureAt: Date;
+  blockedUntil: Date | null;
+};
+
+export interface LoginAttemptStore {
+  get(key: string): Promise<LoginAttemptRecord | null>;
+  // Counts one more failure in a single step, starting over when the last
+  // one is older than the window, and returns the new count
+  addFailure(key: string, at: Date, windowMs: number): Promise<number>;
+  // Blocks the key until the given time, unless it already is for longer
+  block(key: string, until: Date): Promise<void>;
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,148 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { HttpStatus } from '@nestjs/common';
+import { WINSTON_MODULE_PROVIDER } from 'nest-winston';
+import { LoginThrottleService } from './login-throttle.service';
+import { InMemoryLoginAttemptStore } from './in-memory-login-attempt.store';
+import { LOGIN_ATTEMPT_STORE } from './login-attempt-store.interface';
+import {
+  HTTP_STATUS_LOCKED,
+  LoginBlockedCode,
+  LoginBlockedException,
+} from '../exceptions';
+
+describe('LoginThrottleService', () => {
+  let service: LoginThrottleService;
+  const email = 'user@example.com';
+  const ip = '10.0.0.1';
+
+  const config: Record<string, string> = {
+    LOGIN_MAX_ACCOUNT_FAILURES: '5',
+    LOGIN_MAX_IP_FAILURES: '20',
+    LOGIN_LOCKOUT_MINUTES: '15',
+    LOGIN_FAILURE_WINDOW_MINUTES: '15',
+  };
+
+  const failTimes = async (times: number, from = ip) => {
+    for (let i = 0; i < times; i++) {
+      await service.registerFailure(email, from);
+    }
+  };
+
+  const blockOf = async () => {
+    try {
+      await service.assertCanAttempt(email, ip);
+      return null;
+    } catch (error) {
+      return error as LoginBlockedException;
+    }
+  };
+
+  beforeEach(async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2024-01-01T00:00:00Z'));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LoginThrottleService,
+        {
+          provide: LOGIN_ATTEMPT_STORE,
+          useValue: new InMemoryLoginAttemptStore(),
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+        {
+          provide: WINSTON_MODULE_PROVIDER,
+          useValue: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<LoginThrottleService>(LoginThrottleService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('allows the first failures without delay', async () => {
+    await failTimes(2);
+
+    expect(await blockOf()).toBeNull();
+  });
+
+  it('applies progressively longer delays', async () => {
+    await failTimes(3);
+    const first = await blockOf();
+    expect(first.getStatus()).toEqual(HttpStatus.TOO_MANY_REQUESTS);
+    expect(first.getResponse()).toMatchObject({
+      code: LoginBlockedCode.TOO_MANY_ATTEMPTS,
+      retryAfter: 1,
+    });
+
+    await failTimes(1);
+    expect((await blockOf()).getResponse()).toMatchObject({ retryAfter: 2 });
+
+    jest.advanceTimersByTime(2000);
+    expect(await blockOf()).toBeNull();
+  });
+
+  it('locks the account after the maximum number of failures', async () => {
+    await failTimes(5);
+
+    const block = await blockOf();
+    expect(block.getStatus()).toEqual(HTTP_STATUS_LOCKED);
+    expect(block.getResponse()).toMatchObject({
+      code: LoginBlockedCode.ACCOUNT_LOCKED,
+      retryAfter: 15 * 60,
+    });
+  });
+
+  it('counts failures that arrive at the same time', async () => {
+    await Promise.all(
+      Array.from({ length: 5 }, () => service.registerFailure(email, ip)),
+    );
+
+    expect((await blockOf()).getResponse()).toMatchObject({
+      code: LoginBlockedCode.ACCOUNT_LOCKED,
+    });
+  });
+
+  it('locks the account regardless of the client address', async () => {
+    for (let i = 0; i < 5; i++) {
+      await failTimes(1, `10.0.0.${i + 10}`);
+    }
+
+    expect((await blockOf()).getResponse()).toMatchObject({
+      code: LoginBlockedCode.ACCOUNT_LOCKED,
+    });
+  });
+
+  it('locks an address that fails across many accounts', async () => {
+    for (let i = 0; i < 20; i++) {
+      await service.registerFailure(`user${i}@example.com`, ip);
+    }
+
+    expect((await blockOf()).getResponse()).toMatchObject({
+      code: LoginBlockedCode.IP_LOCKED,
+    });
+  });
+
+  it('unlocks the account explicitly', async () => {
+    await failTimes(5, '10.0.0.2');
+
+    await service.unlockAccount(email);
+
+    expect(await blockOf()).toBeNull();
+  });
+
+  it('forgets failures outside the window', async () => {
+    await failTimes(4);
+    jest.advanceTimersByTime(16 * 60 * 1000);
+
+    await failTimes(1);
+
+    expect(await blockOf()).toBeNull();
+  });
+});
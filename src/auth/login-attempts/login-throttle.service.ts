@@ -0,0 +1,120 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Logger } from 'winston';
+import { WINSTON_MODULE_PROVIDER } from 'nest-winston';
+import {
+  LOGIN_ATTEMPT_STORE,
+  LoginAttemptStore,
+} from './login-attempt-store.interface';
+import { LoginBlockedCode, LoginBlockedException } from '../exceptions';
+
+type ThrottleScope = {
+  key: string;
+  // Failures allowed before any delay is applied
+  freeFailures: number;
+  // Failures after which the key is locked for the lockout period
+  maxFailures: number;
+  lockedCode: LoginBlockedCode;
+};
+
+const MAX_DELAY_SECONDS = 60;
+
+@Injectable()
+export class LoginThrottleService {
+  constructor(
+    @Inject(LOGIN_ATTEMPT_STORE) private readonly store: LoginAttemptStore,
+    private config: ConfigService,
+    @Inject(WINSTON_MODULE_PROVIDER) private readonly logger: Logger,
+  ) {}
+
+  async assertCanAttempt(email: string, ip: string): Promise<void> {
+    for (const scope of this.scopes(email, ip)) {
+      const record = await this.store.get(scope.key);
+      if (!record?.blockedUntil) continue;
+
+      const remainingMs = record.blockedUntil.getTime() - Date.now();
+      if (remainingMs <= 0) continue;
+
+      const code =
+        record.failures >= scope.maxFailures
+          ? scope.lockedCode
+          : LoginBlockedCode.TOO_MANY_ATTEMPTS;
+
+      this.logger.warn('Blocked signin attempt', {
+        key: scope.key,
+        code,
+        failures: record.failures,
+      });
+      throw new LoginBlockedException(code, Math.ceil(remainingMs / 1000));
+    }
+  }
+
+  async registerFailure(email: string, ip: string): Promise<void> {
+    const now = new Date();
+    const windowMs = this.minutes('LOGIN_FAILURE_WINDOW_MINUTES', 15);
+
+    for (const scope of this.scopes(email, ip)) {
+      // The count comes back from the store, so the delay and lockout
+      // follow every failure even when several arrive at once
+      const failures = await this.store.addFailure(scope.key, now, windowMs);
+
+      if (failures >= scope.maxFailures) {
+        const blockedUntil = new Date(
+          now.getTime() + this.minutes('LOGIN_LOCKOUT_MINUTES', 15),
+        );
+        await this.store.block(scope.key, blockedUntil);
+        this.logger.warn('Signin lockout triggered', {
+          key: scope.key,
+          failures,
+          blockedUntil,
+        });
+      } else if (failures > scope.freeFailures) {
+        // 1s, 2s, 4s, ... capped, doubling with every failure past the free ones
+        const delaySeconds = Math.min(
+          2 ** (failures - scope.freeFailures - 1),
+          MAX_DELAY_SECONDS,
+        );
+        await this.store.block(
+          scope.key,
+          new Date(now.getTime() + delaySeconds * 1000),
+        );
+      }
+    }
+  }
+
+  async registerSuccess(email: string): Promise<void> {
+    await this.store.delete(this.accountKey(email));
+  }
+
+  async unlockAccount(email: string): Promise<void> {
+    await this.store.delete(this.accountKey(email));
+    this.logger.info('Signin lockout cleared', { email });
+  }
+
+  private scopes(email: string, ip: string): ThrottleScope[] {
+    return [
+      {
+        key: this.accountKey(email),
+        freeFailures: 2,
+        maxFailures: parseInt(
+          this.config.get('LOGIN_MAX_ACCOUNT_FAILURES') || '5',
+        ),
+        lockedCode: LoginBlockedCode.ACCOUNT_LOCKED,
+      },
+      {
+        key: `ip:${ip}`,
+        freeFailures: 5,
+        maxFailures: parseInt(this.config.get('LOGIN_MAX_IP_FAILURES') || '20'),
+        lockedCode: LoginBlockedCode.IP_LOCKED,
+      },
+    ];
+  }
+
+  private accountKey(email: string): string {
+    return `account:${email.trim().toLowerCase()}`;
+  }
+
+  private minutes(configKey: string, fallback: number): number {
+    return parseInt(this.config.get(configKey) || `${fallback}`) * 60 * 1000;
+  }
+}
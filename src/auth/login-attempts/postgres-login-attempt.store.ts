@@ -0,0 +1,46 @@
+import { Repository } from 'typeorm';
+import { LoginAttempt } from '../entities';
+import {
+  LoginAttemptRecord,
+  LoginAttemptStore,
+} from './login-attempt-store.interface';
+
+export class PostgresLoginAttemptStore implements LoginAttemptStore {
+  constructor(private readonly repository: Repository<LoginAttempt>) {}
+
+  async get(key: string): Promise<LoginAttemptRecord | null> {
+    return await this.repository.findOne({ where: { key } });
+  }
+
+  // Concurrent failures each get their own count, instead of all reading
+  // the same one and writing it back plus one
+  async addFailure(key: string, at: Date, windowMs: number): Promise<number> {
+    const [{ failures }] = await this.repository.query(
+      `INSERT INTO "login_attempt" ("key", "failures", "lastFailureAt")
+       VALUES ($1, 1, $2)
+       ON CONFLICT ("key") DO UPDATE SET
+         "failures" = CASE
+           WHEN "login_attempt"."lastFailureAt" > $3
+           THEN "login_attempt"."failures" + 1
+           ELSE 1
+         END,
+         "lastFailureAt" = EXCLUDED."lastFailureAt"
+       RETURNING "failures"`,
+      [key, at, new Date(at.getTime() - windowMs)],
+    );
+    return failures;
+  }
+
+  async block(key: string, until: Date): Promise<void> {
+    // GREATEST skips a null, so an unblocked key takes the new time
+    await this.repository.query(
+      `UPDATE "login_attempt" SET "blockedUntil" = GREATEST("blockedUntil", $2)
+       WHERE "key" = $1`,
+      [key, until],
+    );
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.repository.delete({ key });
+  }
+}
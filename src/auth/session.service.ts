@@ -0,0 +1,145 @@
+import { Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, MoreThan, Not, Repository } from 'typeorm';
+import { Logger } from 'winston';
+import { WINSTON_MODULE_PROVIDER } from 'nest-winston';
+import { RefreshToken, Session } from './entities';
+
+export type SessionContext = {
+  ip?: string;
+  userAgent?: string;
+};
+
+// lastSeenAt is only written when older than this, to avoid a write per request
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+@Injectable()
+export class SessionService {
+  constructor(
+    @InjectRepository(Session)
+    private sessionRepository: Repository<Session>,
+    @InjectRepository(RefreshToken)
+    private refreshTokenRepository: Repository<RefreshToken>,
+    @Inject(WINSTON_MODULE_PROVIDER) private readonly logger: Logger,
+  ) {}
+
+  async create(userId: string, context: SessionContext): Promise<Session> {
+    const now = new Date();
+    const session = await this.sessionRepository.save(
+      this.sessionRepository.create({
+        userId,
+        ip: context.ip,
+        userAgent: context.userAgent?.slice(0, 255),
+        lastSeenAt: now,
+        // Extended as soon as the first refresh token is issued
+        expiresAt: now,
+      }),
+    );
+
+    this.logger.info('Session created', {
+      userId,
+      sessionId: session.id,
+      ip: context.ip,
+    });
+
+    return session;
+  }
+
+  async findActive(sessionId: string, userId: string): Promise<Session> {
+    return await this.sessionRepository.findOne({
+      where: {
+        id: sessionId,
+        userId,
+        revokedAt: IsNull(),
+        expiresAt: MoreThan(new Date()),
+      },
+    });
+  }
+
+  async extend(sessionId: string, expiresAt: Date): Promise<void> {
+    await this.sessionRepository.update(
+      { id: sessionId },
+      { expiresAt, lastSeenAt: new Date() },
+    );
+  }
+
+  async touch(session: Session, ip?: string): Promise<void> {
+    const now = new Date();
+    if (
+      (!ip || ip === session.ip) &&
+      now.getTime() - session.lastSeenAt.getTime() < TOUCH_INTERVAL_MS
+    ) {
+      return;
+    }
+
+    await this.sessionRepository.update(
+      { id: session.id },
+      { lastSeenAt: now, ip: ip || session.ip },
+    );
+  }
+
+  async listForUser(userId: string): Promise<Session[]> {
+    return await this.sessionRepository.find({
+      where: {
+        userId,
+        revokedAt: IsNull(),
+        expiresAt: MoreThan(new Date()),
+      },
+      order: { lastSeenAt: 'DESC' },
+    });
+  }
+
+  async revokeForUser(userId: string, sessionId: string): Promise<void> {
+    const session = await this.sessionRepository.findOne({
+      where: { id: sessionId, userId, revokedAt: IsNull() },
+    });
+
+    if (!session) {
+      this.logger.warn('Session not found for revocation', {
+        userId,
+        sessionId,
+      });
+      throw new NotFoundException('Session not found');
+    }
+
+    await this.revoke(session.id);
+  }
+
+  // Revokes the session and every refresh token issued for it
+  async revoke(sessionId: string): Promise<void> {
+    const now = new Date();
+    await this.sessionRepository.update(
+      { id: sessionId, revokedAt: IsNull() },
+      { revokedAt: now },
+    );
+    await this.refreshTokenRepository.update(
+      { family: sessionId, revokedAt: IsNull() },
+      { revokedAt: now },
+    );
+
+    this.logger.info('Session revoked', { sessionId });
+  }
+
+  async revokeAllForUser(
+    userId: string,
+    exceptSessionId?: string,
+  ): Promise<void> {
+    const sessions = await this.sessionRepository.find({
+      where: {
+        userId,
+        revokedAt: IsNull(),
+        ...(exceptSessionId && { id: Not(exceptSessionId) }),
+      },
+    });
+
+    for (const session of sessions) {
+      await this.revoke(session.id);
+    }
+
+    this.logger.info('User sessions revoked', {
+      userId,
+      count: sessions.length,
+      keptSessionId: exceptSessionId,
+    });
+  }
+}
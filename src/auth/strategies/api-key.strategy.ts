@@ -0,0 +1,36 @@
+import { HeaderAPIKeyStrategy } from 'passport-headerapikey';
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { userReq } from 'src/common/types';
+import { ApiKeyService } from '../api-key.service';
+
+@Injectable()
+export class ApiKeyStrategy extends PassportStrategy(
+  HeaderAPIKeyStrategy,
+  'api-key',
+) {
+  constructor(private apiKeyService: ApiKeyService) {
+    super({ header: 'X-API-KEY', prefix: '' }, false);
+  }
+
+  async validate(key: string) {
+    const apiKey = await this.apiKeyService.authenticate(key);
+    if (!apiKey) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+
+    const user: userReq = {
+      userId: apiKey.user.id,
+      email: apiKey.user.email,
+      firstName: apiKey.user.firstName,
+      lastName: apiKey.user.lastName,
+      role: apiKey.user.role,
+      emailVerified: !!apiKey.user.emailVerifiedAt,
+      sessionId: null,
+      apiKeyId: apiKey.id,
+      scopes: apiKey.scopes,
+    };
+
+    return user;
+  }
+}
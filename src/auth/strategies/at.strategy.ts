@@ -1,25 +1,44 @@
 import { ExtractJwt, Strategy } from 'passport-jwt';
-import { Injectable } from '@nestjs/common';
+import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { PassportStrategy } from '@nestjs/passport';
+import { Request } from 'express';
 import { userReq } from 'src/common/types';
+import { SessionService } from '../session.service';
 
 @Injectable()
 export class AtStrategy extends PassportStrategy(Strategy, 'jwt') {
-  constructor(config: ConfigService) {
+  constructor(
+    config: ConfigService,
+    private sessionService: SessionService,
+  ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       ignoreExpiration: false,
       secretOrKey: config.get('AT_SECRET'),
+      passReqToCallback: true,
     });
   }
 
-  async validate(payload: any) {
+  async validate(req: Request, payload: any) {
+    // Access tokens stay cryptographically valid until they expire, so the
+    // session they belong to is what makes revocation immediate
+    const session = payload.jti
+      ? await this.sessionService.findActive(payload.jti, payload.sub)
+      : null;
+    if (!session) {
+      throw new UnauthorizedException('Session has been revoked');
+    }
+    await this.sessionService.touch(session, req.ip);
+
     const user: userReq = {
       userId: payload.sub,
       email: payload.email,
       firstName: payload.firstName,
       lastName: payload.lastName,
+      role: payload.role,
+      emailVerified: payload.emailVerified === true,
+      sessionId: session.id,
     };
 
     return user;
@@ -0,0 +1,116 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { WINSTON_MODULE_PROVIDER } from 'nest-winston';
+import { authenticator } from 'otplib';
+import { TwoFactorService } from './two-factor.service';
+import { TwoFactor } from './entities';
+
+describe('TwoFactorService', () => {
+  let service: TwoFactorService;
+  let rows: TwoFactor[];
+
+  const user = {
+    id: '5f6b1c2e-8d4a-4b7e-9c3f-2a1d0e9b8c7a',
+    email: 'seller@example.com',
+  };
+
+  const twoFactorRepository = {
+    create: jest.fn((data) => data),
+    save: jest.fn(async (row) => {
+      rows = rows.filter((other) => other.userId !== row.userId);
+      rows.push(row);
+      return row;
+    }),
+    findOne: jest.fn(
+      async ({ where }) =>
+        rows.find((row) => row.userId === where.userId) ?? null,
+    ),
+    update: jest.fn(async ({ userId }, changes) => {
+      rows
+        .filter((row) => row.userId === userId)
+        .forEach((row) => Object.assign(row, changes));
+    }),
+    delete: jest.fn(async ({ userId }) => {
+      rows = rows.filter((row) => row.userId !== userId);
+    }),
+  };
+
+  const enroll = async () => {
+    const { secret } = await service.setup(user);
+    const { recoveryCodes } = await service.enable(
+      user.id,
+      authenticator.generate(secret),
+    );
+    // Codes are single use, so later checks start from a fresh step
+    rows[0].lastUsedStep = null;
+    return { secret, recoveryCodes };
+  };
+
+  beforeEach(async () => {
+    rows = [];
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TwoFactorService,
+        {
+          provide: getRepositoryToken(TwoFactor),
+          useValue: twoFactorRepository,
+        },
+        { provide: ConfigService, useValue: { get: () => undefined } },
+        {
+          provide: WINSTON_MODULE_PROVIDER,
+          useValue: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<TwoFactorService>(TwoFactorService);
+  });
+
+  it('only enables two-factor after a valid confirmation code', async () => {
+    const { secret, otpauthUrl } = await service.setup(user);
+
+    expect(otpauthUrl).toContain(`secret=${secret}`);
+    expect(await service.isEnabled(user.id)).toBe(false);
+    await expect(service.enable(user.id, '000000')).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+
+    const { recoveryCodes } = await service.enable(
+      user.id,
+      authenticator.generate(secret),
+    );
+
+    expect(await service.isEnabled(user.id)).toBe(true);
+    expect(recoveryCodes).toHaveLength(10);
+    expect(rows[0].recoveryCodes).not.toContain(recoveryCodes[0]);
+    await expect(service.setup(user)).rejects.toBeInstanceOf(ConflictException);
+  });
+
+  it('rejects a code that was already used', async () => {
+    const { secret } = await enroll();
+    const code = authenticator.generate(secret);
+
+    expect(await service.verify(user.id, code)).toBe(true);
+    expect(await service.verify(user.id, code)).toBe(false);
+  });
+
+  // Every remaining hash is checked on a miss, which is slow with argon
+  it('accepts each recovery code once', async () => {
+    const { recoveryCodes } = await enroll();
+
+    expect(await service.verify(user.id, recoveryCodes[3])).toBe(true);
+    expect(await service.verify(user.id, recoveryCodes[3])).toBe(false);
+    expect(rows[0].recoveryCodes).toHaveLength(9);
+  }, 30000);
+
+  it('removes the enrollment when disabled with a valid code', async () => {
+    const { secret } = await enroll();
+
+    await service.disable(user.id, authenticator.generate(secret));
+
+    expect(await service.isEnabled(user.id)).toBe(false);
+  });
+});
@@ -0,0 +1,247 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  InternalServerErrorException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { randomBytes } from 'crypto';
+import * as argon from 'argon2';
+import { authenticator } from 'otplib';
+import { Logger } from 'winston';
+import { WINSTON_MODULE_PROVIDER } from 'nest-winston';
+import { TwoFactor } from './entities';
+import { User } from '../user/entities/user.entity';
+
+const RECOVERY_CODE_COUNT = 10;
+const TOTP_STEP_SECONDS = 30;
+
+@Injectable()
+export class TwoFactorService {
+  // Accept the previous and next code as well to tolerate clock drift
+  private readonly totp = authenticator.clone({
+    step: TOTP_STEP_SECONDS,
+    window: 1,
+  });
+
+  constructor(
+    @InjectRepository(TwoFactor)
+    private twoFactorRepository: Repository<TwoFactor>,
+    private config: ConfigService,
+    @Inject(WINSTON_MODULE_PROVIDER) private readonly logger: Logger,
+  ) {}
+
+  async isEnabled(userId: string): Promise<boolean> {
+    const twoFactor = await this.twoFactorRepository.findOne({
+      where: { userId },
+    });
+    return !!twoFactor?.enabledAt;
+  }
+
+  async setup(user: Pick<User, 'id' | 'email'>) {
+    const existing = await this.twoFactorRepository.findOne({
+      where: { userId: user.id },
+    });
+    if (existing?.enabledAt) {
+      throw new ConflictException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+
+    // Restarting setup replaces a secret that was never confirmed
+    const secret = this.totp.generateSecret();
+    try {
+      await this.twoFactorRepository.save(
+        this.twoFactorRepository.create({
+          userId: user.id,
+          secret,
+          enabledAt: null,
+          lastUsedStep: null,
+          recoveryCodes: [],
+        }),
+      );
+    } catch (error) {
+      this.logger.error('Failed to start two-factor setup', {
+        userId: user.id,
+        error,
+      });
+      throw new InternalServerErrorException(
+        'Failed to start two-factor setup',
+      );
+    }
+
+    this.logger.info('Two-factor setup started', { userId: user.id });
+
+    return {
+      secret,
+      otpauthUrl: this.totp.keyuri(
+        user.email,
+        this.config.get('TWO_FACTOR_ISSUER') || 'Product Management',
+        secret,
+      ),
+    };
+  }
+
+  async enable(userId: string, code: string) {
+    const twoFactor = await this.twoFactorRepository.findOne({
+      where: { userId },
+    });
+    if (!twoFactor || twoFactor.enabledAt) {
+      throw new BadRequestException(
+        twoFactor
+          ? 'Two-factor authentication is already enabled'
+          : 'Two-factor setup has not been started',
+      );
+    }
+
+    if (!(await this.verifyTotp(twoFactor, code))) {
+      this.logger.warn('Invalid code while enabling two-factor', { userId });
+      throw new BadRequestException('Invalid two-factor code');
+    }
+
+    twoFactor.enabledAt = new Date();
+    const recoveryCodes = await this.issueRecoveryCodes(twoFactor);
+
+    this.logger.info('Two-factor authentication enabled', { userId });
+
+    return { recoveryCodes };
+  }
+
+  async disable(userId: string, code: string) {
+    await this.assertValidCode(userId, code);
+    await this.twoFactorRepository.delete({ userId });
+
+    this.logger.info('Two-factor authentication disabled', { userId });
+
+    return { message: 'Two-factor authentication disabled' };
+  }
+
+  async regenerateRecoveryCodes(userId: string, code: string) {
+    const twoFactor = await this.assertValidCode(userId, code);
+    const recoveryCodes = await this.issueRecoveryCodes(twoFactor);
+
+    this.logger.info('Recovery codes regenerated', { userId });
+
+    return { recoveryCodes };
+  }
+
+  // Checks a TOTP code or, failing that, consumes a recovery code
+  async verify(userId: string, code: string): Promise<boolean> {
+    const twoFactor = await this.twoFactorRepository.findOne({
+      where: { userId },
+    });
+    if (!twoFactor?.enabledAt) {
+      return false;
+    }
+
+    return (
+      (await this.verifyTotp(twoFactor, code)) ||
+      (await this.consumeRecoveryCode(twoFactor, code))
+    );
+  }
+
+  private async assertValidCode(
+    userId: string,
+    code: string,
+  ): Promise<TwoFactor> {
+    const twoFactor = await this.twoFactorRepository.findOne({
+      where: { userId },
+    });
+    if (!twoFactor?.enabledAt) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+
+    if (
+      !(await this.verifyTotp(twoFactor, code)) &&
+      !(await this.consumeRecoveryCode(twoFactor, code))
+    ) {
+      this.logger.warn('Invalid two-factor code', { userId });
+      throw new BadRequestException('Invalid two-factor code');
+    }
+
+    return twoFactor;
+  }
+
+  private async verifyTotp(
+    twoFactor: TwoFactor,
+    code: string,
+  ): Promise<boolean> {
+    if (!/^\d{6}$/.test(code)) {
+      return false;
+    }
+
+    const delta = this.totp.checkDelta(code, twoFactor.secret);
+    if (delta === null) {
+      return false;
+    }
+
+    const step = Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS) + delta;
+    if (twoFactor.lastUsedStep !== null && step <= twoFactor.lastUsedStep) {
+      this.logger.warn('Replayed two-factor code rejected', {
+        userId: twoFactor.userId,
+      });
+      return false;
+    }
+
+    twoFactor.lastUsedStep = step;
+    await this.twoFactorRepository.update(
+      { userId: twoFactor.userId },
+      { lastUsedStep: step },
+    );
+
+    return true;
+  }
+
+  private async consumeRecoveryCode(
+    twoFactor: TwoFactor,
+    code: string,
+  ): Promise<boolean> {
+    const normalized = code.trim().toLowerCase();
+
+    for (const hash of twoFactor.recoveryCodes) {
+      if (await argon.verify(hash, normalized)) {
+        twoFactor.recoveryCodes = twoFactor.recoveryCodes.filter(
+          (other) => other !== hash,
+        );
+        await this.twoFactorRepository.update(
+          { userId: twoFactor.userId },
+          { recoveryCodes: twoFactor.recoveryCodes },
+        );
+
+        this.logger.warn('Recovery code used', {
+          userId: twoFactor.userId,
+          remaining: twoFactor.recoveryCodes.length,
+        });
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  // Replaces all recovery codes and returns the new ones in plain text
+  private async issueRecoveryCodes(twoFactor: TwoFactor): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const hex = randomBytes(5).toString('hex');
+      return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+    });
+
+    twoFactor.recoveryCodes = await Promise.all(
+      codes.map((code) => argon.hash(code)),
+    );
+    try {
+      await this.twoFactorRepository.save(twoFactor);
+    } catch (error) {
+      this.logger.error('Failed to save recovery codes', {
+        userId: twoFactor.userId,
+        error,
+      });
+      throw new InternalServerErrorException('Failed to save recovery codes');
+    }
+
+    return codes;
+  }
+}
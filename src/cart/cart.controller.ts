@@ -0,0 +1,210 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBody,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { CartService, CartView } from './cart.service';
+import { AddCartItemDto, UpdateCartItemDto } from './dto';
+import { GetCurrentUser } from '../common/decorators';
+import { userReq } from '../common/types';
+
+const CART_SCHEMA = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', format: 'uuid' },
+    items: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          productId: { type: 'string', format: 'uuid' },
+          variantId: { type: 'string', format: 'uuid', nullable: true },
+          title: { type: 'string', example: 'Wireless Headphones' },
+          sku: { type: 'string', nullable: true, example: 'WH-BLACK' },
+          quantity: { type: 'number', example: 2 },
+          unitPrice: { type: 'number', example: 99.99 },
+          previousPrice: {
+            type: 'number',
+            nullable: true,
+            description: 'Price the buyer last saw, set when it has changed',
+            example: 89.99,
+          },
+          totalPrice: { type: 'number', example: 199.98 },
+          available: { type: 'number', example: 12 },
+          problem: {
+            type: 'string',
+            nullable: true,
+            description: 'Why the line cannot be ordered right now',
+            example: 'Only 1 left in stock',
+          },
+        },
+      },
+    },
+    totalPrice: { type: 'number', example: 199.98 },
+    canCheckout: { type: 'boolean', example: true },
+  },
+};
+
+@ApiTags('cart')
+@ApiBearerAuth('JWT-auth')
+@Controller('cart')
+export class CartController {
+  constructor(private cartService: CartService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Get the current user cart',
+    description:
+      'Every line is checked against the current price, status and stock. Changed prices are reported once in `previousPrice` and then kept.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Cart retrieved successfully',
+    schema: CART_SCHEMA,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  async getCart(@GetCurrentUser() user: userReq): Promise<CartView> {
+    return await this.cartService.getCart(user.userId);
+  }
+
+  @Post('/items')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Add an item to the cart',
+    description:
+      'Adding a product or variant that is already in the cart increases its quantity.',
+  })
+  @ApiBody({ type: AddCartItemDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Item added, returns the updated cart',
+    schema: CART_SCHEMA,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Bad request - validation error, product not active or insufficient stock',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Product or variant not found',
+  })
+  async addItem(
+    @GetCurrentUser() user: userReq,
+    @Body() dto: AddCartItemDto,
+  ): Promise<CartView> {
+    return await this.cartService.addItem(user.userId, dto);
+  }
+
+  @Patch('/items/:itemId')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Change the quantity of a cart item' })
+  @ApiParam({
+    name: 'itemId',
+    description: 'Cart item ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiBody({ type: UpdateCartItemDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Item updated, returns the updated cart',
+    schema: CART_SCHEMA,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Bad request - validation error, product not available or insufficient stock',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Cart item not found',
+  })
+  async updateItem(
+    @GetCurrentUser() user: userReq,
+    @Param('itemId') itemId: string,
+    @Body() dto: UpdateCartItemDto,
+  ): Promise<CartView> {
+    return await this.cartService.updateItem(user.userId, itemId, dto);
+  }
+
+  @Delete('/items/:itemId')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Remove an item from the cart' })
+  @ApiParam({
+    name: 'itemId',
+    description: 'Cart item ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Item removed, returns the updated cart',
+    schema: CART_SCHEMA,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Cart item not found',
+  })
+  async removeItem(
+    @GetCurrentUser() user: userReq,
+    @Param('itemId') itemId: string,
+  ): Promise<CartView> {
+    return await this.cartService.removeItem(user.userId, itemId);
+  }
+
+  @Delete()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Remove every item from the cart' })
+  @ApiResponse({
+    status: 200,
+    description: 'Cart emptied',
+    schema: {
+      type: 'object',
+      properties: {
+        message: {
+          type: 'string',
+          example: 'Cart cleared successfully',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  async clearCart(
+    @GetCurrentUser() user: userReq,
+  ): Promise<{ message: string }> {
+    await this.cartService.clearCart(user.userId);
+    return { message: 'Cart cleared successfully' };
+  }
+}
@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { CartController } from './cart.controller';
+import { CartService } from './cart.service';
+import { Cart } from './entities/cart.entity';
+import { CartItem } from './entities/cart-item.entity';
+import { Product } from '../product/entities/product.entity';
+import { ProductModule } from '../product/product.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Cart, CartItem, Product]), ProductModule],
+  controllers: [CartController],
+  providers: [CartService],
+  exports: [CartService],
+})
+export class CartModule {}
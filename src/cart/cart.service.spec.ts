@@ -0,0 +1,171 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { FindOperator } from 'typeorm';
+import { WINSTON_MODULE_PROVIDER } from 'nest-winston';
+import { CartService } from './cart.service';
+import { Cart } from './entities/cart.entity';
+import { CartItem } from './entities/cart-item.entity';
+import { Product, ProductStatus } from '../product/entities/product.entity';
+import { StockReservationService } from '../product/stock-reservation.service';
+
+describe('CartService', () => {
+  let service: CartService;
+  let products: Product[];
+  let items: CartItem[];
+
+  const buyerId = '0b8e7a4c-3f2d-4e1a-9b6c-5d4e3f2a1b0c';
+  const cart = { id: 'cart-1', userId: buyerId } as Cart;
+
+  const product = (id: string, price: number, stock: number) =>
+    ({
+      id,
+      title: id,
+      price,
+      stock,
+      status: ProductStatus.ACTIVE,
+      variants: [],
+    }) as Product;
+
+  const cartRepository = {
+    findOne: jest.fn(async () => ({
+      ...cart,
+      items: items.map((item) => ({
+        ...item,
+        product: products.find(({ id }) => id === item.productId),
+        variant: null,
+      })),
+    })),
+  };
+
+  const cartItemRepository = {
+    create: jest.fn((data) => data),
+    save: jest.fn(async (saved: CartItem | CartItem[]) => {
+      for (const item of [saved].flat()) {
+        item.id ??= `item-${items.length + 1}`;
+        items = [
+          ...items.filter(({ id }) => id !== item.id),
+          { ...item, product: undefined },
+        ];
+      }
+      return saved;
+    }),
+    delete: jest.fn(async ({ id }) => {
+      const ids = id instanceof FindOperator ? id.value : [id];
+      items = items.filter((item) => !ids.includes(item.id));
+    }),
+  };
+
+  const productRepository = {
+    findOne: jest.fn(
+      async ({ where }) => products.find(({ id }) => id === where.id) ?? null,
+    ),
+  };
+
+  beforeEach(async () => {
+    products = [product('beans', 12, 5), product('mug', 8, 2)];
+    items = [];
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CartService,
+        { provide: getRepositoryToken(Cart), useValue: cartRepository },
+        {
+          provide: getRepositoryToken(CartItem),
+          useValue: cartItemRepository,
+        },
+        { provide: getRepositoryToken(Product), useValue: productRepository },
+        {
+          provide: StockReservationService,
+          useValue: {
+            getReserved: jest.fn(async () => ({
+              total: 0,
+              byVariant: new Map(),
+            })),
+          },
+        },
+        {
+          provide: WINSTON_MODULE_PROVIDER,
+          useValue: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<CartService>(CartService);
+  });
+
+  it('merges repeated adds into one line within the available stock', async () => {
+    await service.addItem(buyerId, { productId: 'beans', quantity: 2 });
+    const view = await service.addItem(buyerId, {
+      productId: 'beans',
+      quantity: 3,
+    });
+
+    expect(view.items).toEqual([
+      expect.objectContaining({ productId: 'beans', quantity: 5 }),
+    ]);
+    expect(view.totalPrice).toBe(60);
+    await expect(
+      service.addItem(buyerId, { productId: 'beans', quantity: 1 }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('reports a price change once and keeps the new price', async () => {
+    await service.addItem(buyerId, { productId: 'beans', quantity: 1 });
+    products[0].price = 15;
+
+    const changed = await service.getCart(buyerId);
+    const seen = await service.getCart(buyerId);
+
+    expect(changed.items[0]).toMatchObject({
+      unitPrice: 15,
+      previousPrice: 12,
+    });
+    expect(changed.canCheckout).toBe(false);
+    expect(seen.items[0].previousPrice).toBeNull();
+    expect(seen.canCheckout).toBe(true);
+  });
+
+  describe('checkout', () => {
+    it('refuses an empty cart and lines that cannot be bought', async () => {
+      await expect(service.getCheckoutItems(buyerId)).rejects.toBeInstanceOf(
+        BadRequestException,
+      );
+
+      await service.addItem(buyerId, { productId: 'mug', quantity: 2 });
+      products[1].status = ProductStatus.OUT_OF_STOCK;
+
+      await expect(service.getCheckoutItems(buyerId)).rejects.toBeInstanceOf(
+        BadRequestException,
+      );
+    });
+
+    it('asks for a review after a price change, then lets it through', async () => {
+      await service.addItem(buyerId, { productId: 'mug', quantity: 1 });
+      products[1].price = 9;
+
+      await expect(service.getCheckoutItems(buyerId)).rejects.toBeInstanceOf(
+        ConflictException,
+      );
+      expect(await service.getCheckoutItems(buyerId)).toEqual([
+        expect.objectContaining({ productId: 'mug', quantity: 1 }),
+      ]);
+    });
+
+    it('keeps lines added while the order was placed', async () => {
+      await service.addItem(buyerId, { productId: 'beans', quantity: 1 });
+      const ordered = await service.getCheckoutItems(buyerId);
+      await service.addItem(buyerId, { productId: 'mug', quantity: 1 });
+
+      await service.removeItems(
+        buyerId,
+        ordered.map(({ id }) => id),
+      );
+
+      expect(items).toEqual([
+        expect.objectContaining({ productId: 'mug', quantity: 1 }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,360 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { Logger } from 'winston';
+import { WINSTON_MODULE_PROVIDER } from 'nest-winston';
+import { Cart } from './entities/cart.entity';
+import { CartItem } from './entities/cart-item.entity';
+import { AddCartItemDto, UpdateCartItemDto } from './dto';
+import { Product, ProductStatus } from '../product/entities/product.entity';
+import { ProductVariant } from '../product/entities/product-variant.entity';
+import {
+  ReservedStock,
+  StockReservationService,
+} from '../product/stock-reservation.service';
+
+// A cart line checked against the current catalog. `previousPrice` is the
+// price the buyer last saw, set only when it has changed since.
+export type CartLine = {
+  id: string;
+  productId: string;
+  variantId: string | null;
+  title: string;
+  sku: string | null;
+  quantity: number;
+  unitPrice: number;
+  previousPrice: number | null;
+  totalPrice: number;
+  available: number;
+  problem: string | null;
+};
+
+export type CartView = {
+  id: string;
+  items: CartLine[];
+  totalPrice: number;
+  canCheckout: boolean;
+};
+
+@Injectable()
+export class CartService {
+  constructor(
+    @InjectRepository(Cart)
+    private cartRepository: Repository<Cart>,
+    @InjectRepository(CartItem)
+    private cartItemRepository: Repository<CartItem>,
+    @InjectRepository(Product)
+    private productRepository: Repository<Product>,
+    private stockReservations: StockReservationService,
+    @Inject(WINSTON_MODULE_PROVIDER) private readonly logger: Logger,
+  ) {}
+
+  async getCart(userId: string): Promise<CartView> {
+    const cart = await this.findOrCreateCart(userId);
+    return await this.review(cart);
+  }
+
+  async addItem(userId: string, dto: AddCartItemDto): Promise<CartView> {
+    const cart = await this.findOrCreateCart(userId);
+    const product = await this.productRepository.findOne({
+      where: { id: dto.productId },
+      relations: ['variants'],
+    });
+
+    if (!product || product.status === ProductStatus.DELETED) {
+      this.logger.warn('Product not found for cart', {
+        productId: dto.productId,
+        userId,
+      });
+      throw new NotFoundException('Product not found');
+    }
+
+    if (product.status !== ProductStatus.ACTIVE) {
+      throw new BadRequestException(
+        `Product is not available for purchase (status: ${product.status})`,
+      );
+    }
+
+    let variant: ProductVariant | null = null;
+    if (product.variants.length > 0) {
+      if (!dto.variantId) {
+        throw new BadRequestException(
+          'variantId is required for products with variants',
+        );
+      }
+      variant = product.variants.find(({ id }) => id === dto.variantId);
+      if (!variant) {
+        throw new NotFoundException('Variant not found');
+      }
+    } else if (dto.variantId) {
+      throw new BadRequestException('Product has no variants');
+    }
+
+    // Adding the same product or variant again grows the existing line
+    const existing = cart.items.find(
+      (item) =>
+        item.productId === product.id &&
+        item.variantId === (variant?.id ?? null),
+    );
+    const quantity = (existing?.quantity ?? 0) + dto.quantity;
+    await this.assertInStock(product, variant, quantity);
+
+    const item =
+      existing ??
+      this.cartItemRepository.create({
+        cartId: cart.id,
+        productId: product.id,
+        variantId: variant?.id ?? null,
+      });
+    item.quantity = quantity;
+    item.unitPrice = this.priceOf(product, variant);
+    await this.cartItemRepository.save(item);
+
+    this.logger.info('Item added to cart', {
+      userId,
+      productId: product.id,
+      variantId: variant?.id,
+      quantity,
+    });
+
+    return await this.getCart(userId);
+  }
+
+  async updateItem(
+    userId: string,
+    itemId: string,
+    dto: UpdateCartItemDto,
+  ): Promise<CartView> {
+    const cart = await this.findOrCreateCart(userId);
+    const item = this.findItem(cart, itemId);
+
+    const problem = this.problemOf(item);
+    if (problem) {
+      throw new BadRequestException(problem);
+    }
+    await this.assertInStock(item.product, item.variant, dto.quantity);
+
+    item.quantity = dto.quantity;
+    item.unitPrice = this.priceOf(item.product, item.variant);
+    await this.cartItemRepository.save(item);
+
+    this.logger.info('Cart item updated', {
+      userId,
+      itemId,
+      quantity: dto.quantity,
+    });
+
+    return await this.getCart(userId);
+  }
+
+  async removeItem(userId: string, itemId: string): Promise<CartView> {
+    const cart = await this.findOrCreateCart(userId);
+    const item = this.findItem(cart, itemId);
+
+    await this.cartItemRepository.delete({ id: item.id });
+
+    this.logger.info('Cart item removed', { userId, itemId });
+
+    return await this.getCart(userId);
+  }
+
+  async clearCart(userId: string): Promise<void> {
+    const cart = await this.cartRepository.findOne({ where: { userId } });
+    if (cart) {
+      await this.cartItemRepository.delete({ cartId: cart.id });
+    }
+  }
+
+  // Drops the given lines only, so anything added to the cart while they
+  // were being ordered stays in it
+  async removeItems(userId: string, itemIds: string[]): Promise<void> {
+    const cart = await this.cartRepository.findOne({ where: { userId } });
+    if (cart && itemIds.length > 0) {
+      await this.cartItemRepository.delete({
+        cartId: cart.id,
+        id: In(itemIds),
+      });
+    }
+  }
+
+  // The lines to order, refused while any of them cannot be bought or its
+  // price moved since the buyer last looked at the cart. Reviewing the cart
+  // acknowledges new prices, so checking out again goes through.
+  async getCheckoutItems(userId: string): Promise<CartItem[]> {
+    const cart = await this.findOrCreateCart(userId);
+    if (cart.items.length === 0) {
+      throw new BadRequestException('Cart is empty');
+    }
+
+    const view = await this.review(cart);
+
+    const blocked = view.items.filter(({ problem }) => problem);
+    if (blocked.length > 0) {
+      throw new BadRequestException(
+        `Some cart items cannot be ordered: ${blocked
+          .map(({ title, problem }) => `${title} (${problem})`)
+          .join(', ')}`,
+      );
+    }
+
+    if (view.items.some(({ previousPrice }) => previousPrice !== null)) {
+      this.logger.info('Checkout stopped by price changes', { userId });
+      throw new ConflictException(
+        'Prices changed since the items were added. Review the cart and check out again',
+      );
+    }
+
+    return cart.items;
+  }
+
+  // Checks every line against the catalog and stores the current prices,
+  // so a change is reported once
+  private async review(cart: Cart): Promise<CartView> {
+    const reserved = new Map<string, ReservedStock>();
+    const items: CartLine[] = [];
+    const repriced: CartItem[] = [];
+
+    for (const item of cart.items) {
+      let available = 0;
+      if (item.product) {
+        if (!reserved.has(item.productId)) {
+          reserved.set(
+            item.productId,
+            await this.stockReservations.getReserved(item.productId),
+          );
+        }
+        available = this.availableOf(
+          item.product,
+          item.variant,
+          reserved.get(item.productId),
+        );
+      }
+
+      const problem =
+        this.problemOf(item) ??
+        (available < item.quantity
+          ? `Only ${Math.max(available, 0)} left in stock`
+          : null);
+
+      const seenPrice = Number(item.unitPrice);
+      const unitPrice = item.product
+        ? this.priceOf(item.product, item.variant)
+        : seenPrice;
+      if (unitPrice !== seenPrice) {
+        item.unitPrice = unitPrice;
+        repriced.push(item);
+      }
+
+      items.push({
+        id: item.id,
+        productId: item.productId,
+        variantId: item.variantId,
+        title: item.product?.title ?? null,
+        sku: item.variant?.sku ?? null,
+        quantity: item.quantity,
+        unitPrice,
+        previousPrice: unitPrice !== seenPrice ? seenPrice : null,
+        totalPrice: unitPrice * item.quantity,
+        available: Math.max(available, 0),
+        problem,
+      });
+    }
+
+    if (repriced.length > 0) {
+      await this.cartItemRepository.save(repriced);
+    }
+
+    return {
+      id: cart.id,
+      items,
+      totalPrice: items.reduce((total, line) => total + line.totalPrice, 0),
+      canCheckout:
+        items.length > 0 &&
+        items.every(
+          ({ problem, previousPrice }) => !problem && previousPrice === null,
+        ),
+    };
+  }
+
+  private problemOf(item: CartItem): string | null {
+    if (!item.product || item.product.status === ProductStatus.DELETED) {
+      return 'Product is no longer available';
+    }
+    if (item.product.status !== ProductStatus.ACTIVE) {
+      return `Product is not available for purchase (status: ${item.product.status})`;
+    }
+    // Soft deleted variants are not loaded with the cart
+    if (item.variantId && !item.variant) {
+      return 'Variant is no longer available';
+    }
+    return null;
+  }
+
+  private async assertInStock(
+    product: Product,
+    variant: ProductVariant | null,
+    quantity: number,
+  ): Promise<void> {
+    const reserved = await this.stockReservations.getReserved(product.id);
+    const available = this.availableOf(product, variant, reserved);
+
+    if (available < quantity) {
+      throw new BadRequestException(
+        `Insufficient stock. Available: ${Math.max(available, 0)}, Requested: ${quantity}`,
+      );
+    }
+  }
+
+  private availableOf(
+    product: Product,
+    variant: ProductVariant | null,
+    reserved: ReservedStock,
+  ): number {
+    return variant
+      ? variant.stock - (reserved.byVariant.get(variant.id) ?? 0)
+      : product.stock - reserved.total;
+  }
+
+  private priceOf(product: Product, variant: ProductVariant | null): number {
+    return Number(variant?.price ?? product.price);
+  }
+
+  private findItem(cart: Cart, itemId: string): CartItem {
+    const item = cart.items.find(({ id }) => id === itemId);
+    if (!item) {
+      throw new NotFoundException('Cart item not found');
+    }
+    return item;
+  }
+
+  private async findOrCreateCart(userId: string): Promise<Cart> {
+    const cart = await this.findCart(userId);
+    if (cart) {
+      return cart;
+    }
+
+    // Two first requests may race here; the unique userId keeps one cart
+    await this.cartRepository
+      .createQueryBuilder()
+      .insert()
+      .values({ userId })
+      .orIgnore()
+      .execute();
+
+    return await this.findCart(userId);
+  }
+
+  private async findCart(userId: string): Promise<Cart | null> {
+    return await this.cartRepository.findOne({
+      where: { userId },
+      relations: ['items', 'items.product', 'items.variant'],
+      order: { items: { createdAt: 'ASC' } },
+    });
+  }
+}
@@ -0,0 +1,30 @@
+import { IsInt, IsOptional, IsUUID, Min } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class AddCartItemDto {
+  @ApiProperty({
+    description: 'Product to add',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsUUID()
+  productId: string;
+
+  @ApiProperty({
+    description: 'Variant to add, required for products with variants',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID()
+  variantId?: string;
+
+  @ApiProperty({
+    description:
+      'Quantity to add, on top of what the cart already holds for this item',
+    example: 1,
+    minimum: 1,
+  })
+  @IsInt()
+  @Min(1)
+  quantity: number;
+}
@@ -0,0 +1,2 @@
+export * from './add-cart-item.dto';
+export * from './update-cart-item.dto';
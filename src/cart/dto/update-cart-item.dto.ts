@@ -0,0 +1,13 @@
+import { IsInt, Min } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UpdateCartItemDto {
+  @ApiProperty({
+    description: 'New quantity of the cart line',
+    example: 3,
+    minimum: 1,
+  })
+  @IsInt()
+  @Min(1)
+  quantity: number;
+}
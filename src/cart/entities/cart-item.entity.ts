@@ -0,0 +1,49 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { Cart } from './cart.entity';
+import { Product } from '../../product/entities/product.entity';
+import { ProductVariant } from '../../product/entities/product-variant.entity';
+
+// unitPrice is the price the buyer last saw, so a change since then can be
+// pointed out before checkout instead of silently charged
+@Entity()
+export class CartItem {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  cartId: string;
+
+  @ManyToOne(() => Cart, (cart) => cart.items, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'cartId' })
+  cart: Cart;
+
+  @Column()
+  productId: string;
+
+  @ManyToOne(() => Product, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'productId' })
+  product: Product;
+
+  @Column({ type: 'uuid', nullable: true })
+  variantId: string | null;
+
+  @ManyToOne(() => ProductVariant, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'variantId' })
+  variant: ProductVariant;
+
+  @Column('int')
+  quantity: number;
+
+  @Column('decimal', { precision: 10, scale: 2 })
+  unitPrice: number;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,188 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBody,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { CategoryService } from './category.service';
+import { NoAuth, Roles } from '../common/decorators';
+import { CreateCategoryDto, UpdateCategoryDto } from './dto';
+import { Category } from './entities/category.entity';
+import { Role } from '../user/entities/user.entity';
+
+@ApiTags('categories')
+@Controller('categories')
+export class CategoryController {
+  constructor(private categoryService: CategoryService) {}
+
+  @NoAuth()
+  @Get()
+  @ApiOperation({
+    summary: 'Get the category tree',
+    description:
+      'Top level categories with their sub-categories nested under `children`, sorted by name.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Category tree retrieved successfully',
+    type: [Category],
+  })
+  async getTree(): Promise<Category[]> {
+    return await this.categoryService.getTree();
+  }
+
+  @NoAuth()
+  @Get('/:categoryId')
+  @ApiOperation({ summary: 'Get a category with its sub-tree' })
+  @ApiParam({
+    name: 'categoryId',
+    description: 'Category ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Category retrieved successfully',
+    type: Category,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Category not found',
+  })
+  async getCategory(
+    @Param('categoryId') categoryId: string,
+  ): Promise<Category> {
+    return await this.categoryService.getCategory(categoryId);
+  }
+
+  @ApiBearerAuth('JWT-auth')
+  @Roles(Role.ADMIN)
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Create a category (admin only)' })
+  @ApiBody({ type: CreateCategoryDto })
+  @ApiResponse({
+    status: 201,
+    description: 'Category created successfully',
+    type: Category,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - validation error',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - admin role required',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Parent category not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - slug already in use',
+  })
+  async createCategory(@Body() dto: CreateCategoryDto): Promise<Category> {
+    return await this.categoryService.createCategory(dto);
+  }
+
+  @ApiBearerAuth('JWT-auth')
+  @Roles(Role.ADMIN)
+  @Patch('/:categoryId')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Update or move a category (admin only)',
+    description: 'Sub-categories move along with their parent.',
+  })
+  @ApiParam({
+    name: 'categoryId',
+    description: 'Category ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiBody({ type: UpdateCategoryDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Category updated successfully',
+    type: Category,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Bad request - validation error or move under its own descendant',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - admin role required',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Category or parent category not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - slug already in use',
+  })
+  async updateCategory(
+    @Param('categoryId') categoryId: string,
+    @Body() dto: UpdateCategoryDto,
+  ): Promise<Category> {
+    return await this.categoryService.updateCategory(categoryId, dto);
+  }
+
+  @ApiBearerAuth('JWT-auth')
+  @Roles(Role.ADMIN)
+  @Delete('/:categoryId')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Delete a category without sub-categories (admin only)',
+    description: 'Products in the category are kept and simply unassigned.',
+  })
+  @ApiParam({
+    name: 'categoryId',
+    description: 'Category ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Category deleted successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        message: {
+          type: 'string',
+          example: 'Category deleted successfully',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - admin role required',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Category not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - category has sub-categories',
+  })
+  async deleteCategory(
+    @Param('categoryId') categoryId: string,
+  ): Promise<{ message: string }> {
+    await this.categoryService.deleteCategory(categoryId);
+    return { message: 'Category deleted successfully' };
+  }
+}
@@ -0,0 +1,115 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { WINSTON_MODULE_PROVIDER } from 'nest-winston';
+import { CategoryService } from './category.service';
+import { Category } from './entities/category.entity';
+
+describe('CategoryService', () => {
+  let service: CategoryService;
+  let categories: Category[];
+
+  const category = (id: string, name: string, parentId: string = null) =>
+    ({ id, name, slug: name.toLowerCase(), parentId }) as Category;
+
+  // Walks parentId links instead of materialized paths
+  const descendantsOf = (root: Category): Category[] => [
+    root,
+    ...categories
+      .filter((row) => row.parentId === root.id)
+      .flatMap((child) => descendantsOf(child)),
+  ];
+
+  const categoryRepository = {
+    create: jest.fn((data) => data),
+    save: jest.fn(async (row) => row),
+    remove: jest.fn(),
+    findOne: jest.fn(
+      async ({ where }) =>
+        categories.find((row) => row.id === where.id) ?? null,
+    ),
+    findBy: jest.fn(async ({ id }) =>
+      categories.filter((row) => id.value.includes(row.id)),
+    ),
+    countBy: jest.fn(
+      async ({ parentId }) =>
+        categories.filter((row) => row.parentId === parentId).length,
+    ),
+    existsBy: jest.fn(async ({ slug }) =>
+      categories.some((row) => row.slug === slug),
+    ),
+    findDescendants: jest.fn(async (root) => descendantsOf(root)),
+  };
+
+  beforeEach(async () => {
+    categories = [
+      category('electronics', 'Electronics'),
+      category('audio', 'Audio', 'electronics'),
+      category('headphones', 'Headphones', 'audio'),
+      category('books', 'Books'),
+    ];
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CategoryService,
+        {
+          provide: getRepositoryToken(Category),
+          useValue: categoryRepository,
+        },
+        {
+          provide: WINSTON_MODULE_PROVIDER,
+          useValue: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<CategoryService>(CategoryService);
+  });
+
+  it('includes every level below a category in its descendant ids', async () => {
+    expect(await service.getDescendantIds('electronics')).toEqual([
+      'electronics',
+      'audio',
+      'headphones',
+    ]);
+  });
+
+  it('derives the slug from the name and rejects duplicates', async () => {
+    const created = await service.createCategory({
+      name: 'Home & Garden',
+      parentId: 'books',
+    });
+
+    expect(created.slug).toBe('home-garden');
+    expect(created.parent.id).toBe('books');
+    await expect(
+      service.createCategory({ name: 'Audio' }),
+    ).rejects.toBeInstanceOf(ConflictException);
+  });
+
+  it('refuses to move a category under its own descendant', async () => {
+    await expect(
+      service.updateCategory('electronics', { parentId: 'headphones' }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+
+    const moved = await service.updateCategory('audio', { parentId: 'books' });
+    expect(moved.parent.id).toBe('books');
+  });
+
+  it('only deletes categories without sub-categories', async () => {
+    await expect(service.deleteCategory('audio')).rejects.toBeInstanceOf(
+      ConflictException,
+    );
+
+    await service.deleteCategory('headphones');
+    expect(categoryRepository.remove).toHaveBeenCalled();
+  });
+
+  it('rejects unknown category ids on product payloads', async () => {
+    await expect(
+      service.findByIds(['audio', 'missing']),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(await service.findByIds(['audio'])).toHaveLength(1);
+  });
+});
@@ -0,0 +1,215 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  InternalServerErrorException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, TreeRepository } from 'typeorm';
+import { Logger } from 'winston';
+import { WINSTON_MODULE_PROVIDER } from 'nest-winston';
+import { Category } from './entities/category.entity';
+import { CreateCategoryDto, UpdateCategoryDto } from './dto';
+
+@Injectable()
+export class CategoryService {
+  constructor(
+    @InjectRepository(Category)
+    private categoryRepository: TreeRepository<Category>,
+    @Inject(WINSTON_MODULE_PROVIDER) private readonly logger: Logger,
+  ) {}
+
+  async getTree(): Promise<Category[]> {
+    const roots = await this.categoryRepository.findTrees();
+    return this.sortTree(roots);
+  }
+
+  async getCategory(categoryId: string): Promise<Category> {
+    const category = await this.findCategory(categoryId);
+    const tree = await this.categoryRepository.findDescendantsTree(category);
+    tree.children = this.sortTree(tree.children);
+    return tree;
+  }
+
+  async createCategory(dto: CreateCategoryDto): Promise<Category> {
+    const slug = dto.slug ?? this.slugify(dto.name);
+    await this.assertSlugAvailable(slug);
+
+    const parent = dto.parentId
+      ? await this.findCategory(dto.parentId, 'Parent category not found')
+      : null;
+
+    let category: Category;
+    try {
+      category = await this.categoryRepository.save(
+        this.categoryRepository.create({
+          name: dto.name,
+          slug,
+          description: dto.description,
+          parent,
+          parentId: parent?.id ?? null,
+        }),
+      );
+    } catch (error) {
+      this.logger.error('Failed to create category', { slug, error });
+      throw new InternalServerErrorException('Failed to create category');
+    }
+
+    this.logger.info('Category created', {
+      categoryId: category.id,
+      slug,
+      parentId: category.parentId,
+    });
+
+    return category;
+  }
+
+  async updateCategory(
+    categoryId: string,
+    dto: UpdateCategoryDto,
+  ): Promise<Category> {
+    const category = await this.findCategory(categoryId);
+
+    if (dto.slug !== undefined && dto.slug !== category.slug) {
+      await this.assertSlugAvailable(dto.slug);
+      category.slug = dto.slug;
+    }
+    if (dto.name !== undefined) category.name = dto.name;
+    if (dto.description !== undefined) category.description = dto.description;
+
+    if (dto.parentId !== undefined && dto.parentId !== category.parentId) {
+      const parent = dto.parentId
+        ? await this.findCategory(dto.parentId, 'Parent category not found')
+        : null;
+
+      if (parent) {
+        // Moving a category under itself or one of its descendants would
+        // detach that branch from the tree
+        const descendants =
+          await this.categoryRepository.findDescendants(category);
+        if (descendants.some((descendant) => descendant.id === parent.id)) {
+          throw new BadRequestException(
+            'A category cannot be moved under itself or its descendants',
+          );
+        }
+      }
+
+      // The tree executor rewrites descendant paths from the relation
+      category.parent = parent;
+      category.parentId = parent?.id ?? null;
+    }
+
+    let updatedCategory: Category;
+    try {
+      updatedCategory = await this.categoryRepository.save(category);
+    } catch (error) {
+      this.logger.error('Failed to update category', { categoryId, error });
+      throw new InternalServerErrorException('Failed to update category');
+    }
+
+    this.logger.info('Category updated', {
+      categoryId,
+      updatedFields: Object.keys(dto),
+    });
+
+    return updatedCategory;
+  }
+
+  async deleteCategory(categoryId: string): Promise<void> {
+    const category = await this.findCategory(categoryId);
+
+    const childCount = await this.categoryRepository.countBy({
+      parentId: categoryId,
+    });
+    if (childCount > 0) {
+      throw new ConflictException(
+        'Category has sub-categories. Move or delete them first',
+      );
+    }
+
+    try {
+      // Product assignments are removed by the join table cascade
+      await this.categoryRepository.remove(category);
+    } catch (error) {
+      this.logger.error('Failed to delete category', { categoryId, error });
+      throw new InternalServerErrorException('Failed to delete category');
+    }
+
+    this.logger.info('Category deleted', { categoryId });
+  }
+
+  // Resolves category ids supplied on product payloads
+  async findByIds(categoryIds: string[]): Promise<Category[]> {
+    if (categoryIds.length === 0) {
+      return [];
+    }
+
+    const categories = await this.categoryRepository.findBy({
+      id: In(categoryIds),
+    });
+    if (categories.length !== new Set(categoryIds).size) {
+      const found = new Set(categories.map((category) => category.id));
+      throw new BadRequestException(
+        `Unknown category: ${categoryIds.find((id) => !found.has(id))}`,
+      );
+    }
+
+    return categories;
+  }
+
+  // The category itself plus everything below it
+  async getDescendantIds(categoryId: string): Promise<string[]> {
+    const category = await this.findCategory(categoryId);
+    const descendants = await this.categoryRepository.findDescendants(category);
+    return descendants.map((descendant) => descendant.id);
+  }
+
+  private async findCategory(
+    categoryId: string,
+    message = 'Category not found',
+  ): Promise<Category> {
+    const category = await this.categoryRepository.findOne({
+      where: { id: categoryId },
+    });
+
+    if (!category) {
+      this.logger.warn('Category not found', { categoryId });
+      throw new NotFoundException(message);
+    }
+
+    return category;
+  }
+
+  private async assertSlugAvailable(slug: string): Promise<void> {
+    if (await this.categoryRepository.existsBy({ slug })) {
+      throw new ConflictException(`A category with slug "${slug}" exists`);
+    }
+  }
+
+  private slugify(name: string): string {
+    const slug = name
+      .normalize('NFKD')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+
+    if (!slug) {
+      throw new BadRequestException(
+        'Could not derive a slug from the name, please provide one',
+      );
+    }
+
+    return slug;
+  }
+
+  private sortTree(categories: Category[]): Category[] {
+    return categories
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((category) => {
+        category.children = this.sortTree(category.children ?? []);
+        return category;
+      });
+  }
+}
@@ -0,0 +1,50 @@
+import {
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreateCategoryDto {
+  @ApiProperty({
+    description: 'Category name',
+    example: 'Headphones',
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    description: 'URL friendly identifier, derived from the name when omitted',
+    example: 'headphones',
+    required: false,
+  })
+  @IsOptional()
+  @Matches(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, {
+    message: 'slug must be lowercase letters and digits separated by dashes',
+  })
+  @MaxLength(100)
+  slug?: string;
+
+  @ApiProperty({
+    description: 'Category description',
+    example: 'Wired and wireless headphones',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({
+    description: 'Parent category ID, omit for a top level category',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID()
+  parentId?: string;
+}
@@ -0,0 +1,2 @@
+export * from './create-category.dto';
+export * from './update-category.dto';
@@ -0,0 +1,53 @@
+import {
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  MaxLength,
+  ValidateIf,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UpdateCategoryDto {
+  @ApiProperty({
+    description: 'Category name',
+    example: 'Headphones',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiProperty({
+    description: 'URL friendly identifier',
+    example: 'headphones',
+    required: false,
+  })
+  @IsOptional()
+  @Matches(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, {
+    message: 'slug must be lowercase letters and digits separated by dashes',
+  })
+  @MaxLength(100)
+  slug?: string;
+
+  @ApiProperty({
+    description: 'Category description',
+    example: 'Wired and wireless headphones',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({
+    description: 'New parent category ID, null moves it to the top level',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    nullable: true,
+    required: false,
+  })
+  @ValidateIf((dto) => dto.parentId !== null)
+  @IsOptional()
+  @IsUUID()
+  parentId?: string | null;
+}
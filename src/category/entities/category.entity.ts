@@ -0,0 +1,79 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Tree,
+  TreeParent,
+  TreeChildren,
+} from 'typeorm';
+import { ApiProperty } from '@nestjs/swagger';
+
+// Materialized path keeps "category and all its descendants" a single
+// prefix query, which is what the product listing filter needs
+@Entity()
+@Tree('materialized-path')
+export class Category {
+  @ApiProperty({
+    description: 'Category unique identifier',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiProperty({
+    description: 'Category name',
+    example: 'Headphones',
+  })
+  @Column()
+  name: string;
+
+  @ApiProperty({
+    description: 'URL friendly unique identifier',
+    example: 'headphones',
+  })
+  @Column({ unique: true })
+  slug: string;
+
+  @ApiProperty({
+    description: 'Category description',
+    example: 'Wired and wireless headphones',
+    nullable: true,
+  })
+  @Column('text', { nullable: true })
+  description: string;
+
+  @ApiProperty({
+    description: 'ID of the parent category, null for top level categories',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    nullable: true,
+  })
+  @Column({ nullable: true })
+  parentId: string;
+
+  @TreeParent()
+  parent: Category;
+
+  @ApiProperty({
+    description: 'Sub-categories (only populated in tree responses)',
+    type: () => [Category],
+    required: false,
+  })
+  @TreeChildren()
+  children: Category[];
+
+  @ApiProperty({
+    description: 'Category creation date',
+    example: '2024-01-01T00:00:00.000Z',
+  })
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'Category last update date',
+    example: '2024-01-01T00:00:00.000Z',
+  })
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
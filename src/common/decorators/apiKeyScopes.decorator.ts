@@ -0,0 +1,5 @@
+import { SetMetadata } from '@nestjs/common';
+import { ApiKeyScope } from 'src/auth/entities';
+export const API_KEY_SCOPES_KEY = 'apiKeyScopes';
+export const ApiKeyScopes = (...scopes: ApiKeyScope[]) =>
+  SetMetadata(API_KEY_SCOPES_KEY, scopes);
@@ -1,2 +1,5 @@
 export * from './currentUser.decorator';
 export * from './noAuth.decorator';
+export * from './roles.decorator';
+export * from './verifiedEmail.decorator';
+export * from './apiKeyScopes.decorator';
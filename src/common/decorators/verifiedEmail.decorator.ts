@@ -0,0 +1,3 @@
+import { SetMetadata } from '@nestjs/common';
+export const VERIFIED_EMAIL_KEY = 'verifiedEmail';
+export const RequireVerifiedEmail = () => SetMetadata(VERIFIED_EMAIL_KEY, true);
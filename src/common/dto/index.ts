@@ -0,0 +1,2 @@
+export * from './pagination-query.dto';
+export * from './paginated.dto';
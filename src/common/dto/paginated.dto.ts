@@ -0,0 +1,43 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class PaginationMeta {
+  @ApiProperty({ example: 1 })
+  page: number;
+
+  @ApiProperty({ example: 20 })
+  limit: number;
+
+  @ApiProperty({ description: 'Items matching the filters', example: 135 })
+  total: number;
+
+  @ApiProperty({ example: 7 })
+  totalPages: number;
+
+  @ApiProperty({ example: true })
+  hasNextPage: boolean;
+}
+
+// Returned by list handlers; the ResponseInterceptor moves meta next to
+// data in the envelope
+export class Paginated<T> {
+  constructor(
+    readonly items: T[],
+    readonly meta: PaginationMeta,
+  ) {}
+
+  static of<T>(
+    items: T[],
+    total: number,
+    page: number,
+    limit: number,
+  ): Paginated<T> {
+    const totalPages = Math.ceil(total / limit);
+    return new Paginated(items, {
+      page,
+      limit,
+      total,
+      totalPages,
+      hasNextPage: page < totalPages,
+    });
+  }
+}
@@ -0,0 +1,35 @@
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export const MAX_PAGE_SIZE = 100;
+
+export class PaginationQueryDto {
+  @ApiProperty({
+    description: 'Page number, starting at 1',
+    example: 1,
+    minimum: 1,
+    default: 1,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiProperty({
+    description: 'Items per page',
+    example: 20,
+    minimum: 1,
+    maximum: MAX_PAGE_SIZE,
+    default: 20,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_PAGE_SIZE)
+  limit?: number = 20;
+}
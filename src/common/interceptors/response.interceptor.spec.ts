@@ -0,0 +1,57 @@
+import { ExecutionContext, StreamableFile } from '@nestjs/common';
+import { lastValueFrom, of } from 'rxjs';
+import { ResponseInterceptor } from './response.interceptor';
+import { Paginated } from '../dto';
+
+describe('ResponseInterceptor', () => {
+  const interceptor = new ResponseInterceptor();
+
+  const respond = (data: unknown) =>
+    lastValueFrom(
+      interceptor.intercept({} as ExecutionContext, {
+        handle: () => of(data),
+      }),
+    );
+
+  it('moves the page meta next to the items', async () => {
+    expect(await respond(Paginated.of(['a', 'b'], 45, 2, 20))).toEqual({
+      status: 'success',
+      message: 'Request successful',
+      data: ['a', 'b'],
+      meta: {
+        page: 2,
+        limit: 20,
+        total: 45,
+        totalPages: 3,
+        hasNextPage: true,
+      },
+    });
+  });
+
+  it('reports no next page on the last page and on empty results', async () => {
+    expect(Paginated.of(['a'], 41, 3, 20).meta).toMatchObject({
+      totalPages: 3,
+      hasNextPage: false,
+    });
+    expect(Paginated.of([], 0, 1, 20).meta).toEqual({
+      page: 1,
+      limit: 20,
+      total: 0,
+      totalPages: 0,
+      hasNextPage: false,
+    });
+    // A page past the end is answered empty, still without a next page
+    expect(Paginated.of([], 41, 9, 20).meta.hasNextPage).toBe(false);
+  });
+
+  it('wraps other payloads and passes files through', async () => {
+    expect(await respond({ message: 'Logged out' })).toEqual({
+      status: 'success',
+      message: 'Logged out',
+      data: { message: 'Logged out' },
+    });
+
+    const file = new StreamableFile(Buffer.from('id\n'));
+    expect(await respond(file)).toBe(file);
+  });
+});
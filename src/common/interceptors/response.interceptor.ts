@@ -3,15 +3,31 @@ import {
   ExecutionContext,
   Injectable,
   NestInterceptor,
+  StreamableFile,
 } from '@nestjs/common';
 import { Observable } from 'rxjs';
 import { map } from 'rxjs/operators';
+import { Paginated } from '../dto';
 
 @Injectable()
 export class ResponseInterceptor implements NestInterceptor {
   intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
     return next.handle().pipe(
       map((data) => {
+        // File downloads are sent as is
+        if (data instanceof StreamableFile) {
+          return data;
+        }
+
+        if (data instanceof Paginated) {
+          return {
+            status: 'success',
+            message: 'Request successful',
+            data: data.items,
+            meta: data.meta,
+          };
+        }
+
         return {
           status: 'success',
           message:
@@ -1 +1,2 @@
 export * from './userReq.type';
+export * from './rtReq.type';
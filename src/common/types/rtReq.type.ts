@@ -0,0 +1,5 @@
+export type rtReq = {
+  userId: string;
+  tokenId: string;
+  refreshToken: string;
+};
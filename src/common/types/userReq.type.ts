@@ -1,7 +1,16 @@
 /* eslint-disable prettier/prettier */
+import { Role } from 'src/user/entities/user.entity';
+import { ApiKeyScope } from 'src/auth/entities';
+
 export type userReq = {
   userId: string;
   email: string;
   firstName: string;
   lastName: string;
+  role: Role;
+  emailVerified: boolean;
+  sessionId: string;
+  // Only set when the request authenticated with an API key
+  apiKeyId?: string;
+  scopes?: ApiKeyScope[];
 };
@@ -0,0 +1,33 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Logger } from 'winston';
+import { WINSTON_MODULE_PROVIDER } from 'nest-winston';
+import { MailService } from './mail.service';
+import {
+  ConsoleMailTransport,
+  FileMailTransport,
+  MAIL_TRANSPORT,
+  MailTransport,
+} from './transports';
+
+@Module({
+  providers: [
+    {
+      provide: MAIL_TRANSPORT,
+      useFactory: (config: ConfigService, logger: Logger): MailTransport => {
+        switch (config.get('MAIL_TRANSPORT')) {
+          case 'file':
+            return new FileMailTransport(
+              config.get('MAIL_OUTBOX_DIR') || 'outbox',
+            );
+          default:
+            return new ConsoleMailTransport(logger);
+        }
+      },
+      inject: [ConfigService, WINSTON_MODULE_PROVIDER],
+    },
+    MailService,
+  ],
+  exports: [MailService],
+})
+export class MailModule {}
@@ -0,0 +1,30 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Logger } from 'winston';
+import { WINSTON_MODULE_PROVIDER } from 'nest-winston';
+import { MAIL_TRANSPORT, MailMessage, MailTransport } from './transports';
+
+@Injectable()
+export class MailService {
+  constructor(
+    @Inject(MAIL_TRANSPORT) private readonly transport: MailTransport,
+    private config: ConfigService,
+    @Inject(WINSTON_MODULE_PROVIDER) private readonly logger: Logger,
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    try {
+      await this.transport.send({
+        from: this.config.get('MAIL_FROM') || 'no-reply@localhost',
+        ...message,
+      });
+    } catch (error) {
+      // Mail delivery is best effort and must not fail the calling request
+      this.logger.error('Failed to send mail', {
+        to: message.to,
+        subject: message.subject,
+        error,
+      });
+    }
+  }
+}
@@ -0,0 +1,11 @@
+import { Logger } from 'winston';
+import { MailMessage, MailTransport } from './mail-transport.interface';
+
+// Offline stand-in that prints outgoing mail to the application log
+export class ConsoleMailTransport implements MailTransport {
+  constructor(private readonly logger: Logger) {}
+
+  async send(message: MailMessage): Promise<void> {
+    this.logger.info('Outgoing mail', message);
+  }
+}
@@ -0,0 +1,19 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { MailMessage, MailTransport } from './mail-transport.interface';
+
+// Offline stand-in that drops every outgoing mail as a JSON file in a
+// local outbox directory so it can be inspected during development
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly outboxDir: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.outboxDir, { recursive: true });
+
+    const fileName = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')}.json`;
+    await fs.writeFile(
+      path.join(this.outboxDir, fileName),
+      JSON.stringify({ ...message, sentAt: new Date() }, null, 2),
+    );
+  }
+}
@@ -0,0 +1,3 @@
+export * from './mail-transport.interface';
+export * from './console.transport';
+export * from './file.transport';
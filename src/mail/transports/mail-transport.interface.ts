@@ -0,0 +1,12 @@
+export const MAIL_TRANSPORT = 'MAIL_TRANSPORT';
+
+export type MailMessage = {
+  from?: string;
+  to: string;
+  subject: string;
+  text: string;
+};
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
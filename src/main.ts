@@ -1,12 +1,22 @@
 import { NestFactory } from '@nestjs/core';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { AppModule } from './app.module';
 import helmet from 'helmet';
 import { ValidationPipe } from '@nestjs/common';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
-  app.use(helmet());
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
+    // Payment webhooks are signed over the exact bytes that were sent
+    rawBody: true,
+  });
+  // Product images are loaded by the frontend from another origin
+  app.use(helmet({ crossOriginResourcePolicy: { policy: 'cross-origin' } }));
+  if ((process.env.STORAGE_DRIVER || 'local') === 'local') {
+    app.useStaticAssets(process.env.STORAGE_LOCAL_DIR || 'uploads', {
+      prefix: '/uploads',
+    });
+  }
   app.useGlobalPipes(
     new ValidationPipe({
       transform: true,
@@ -28,10 +38,20 @@ async function bootstrap() {
       },
       'JWT-auth',
     )
+    .addApiKey(
+      {
+        type: 'apiKey',
+        name: 'X-API-KEY',
+        description: 'Enter a seller API key',
+        in: 'header',
+      },
+      'api-key',
+    )
     .addTag('auth', 'Auth endpoints')
     .addTag('user', 'User endpoints')
     .addTag('products', 'Product endpoints')
     .addTag('orders', 'Order endpoints')
+    .addTag('categories', 'Category endpoints')
     .build();
 
   const document = SwaggerModule.createDocument(app, config);
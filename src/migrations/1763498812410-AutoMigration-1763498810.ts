@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AutoMigration17634988101763498812410
+  implements MigrationInterface
+{
+  name = 'AutoMigration17634988101763498812410';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."user_role_enum" AS ENUM('buyer', 'seller', 'admin')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user" ADD "role" "public"."user_role_enum" NOT NULL DEFAULT 'buyer'`,
+    );
+    // Existing product owners keep the ability to list products
+    await queryRunner.query(
+      `UPDATE "user" SET "role" = 'seller' WHERE "id" IN (SELECT DISTINCT "userId" FROM "product")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "user" DROP COLUMN "role"`);
+    await queryRunner.query(`DROP TYPE "public"."user_role_enum"`);
+  }
+}
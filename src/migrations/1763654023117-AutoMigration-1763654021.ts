@@ -0,0 +1,44 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AutoMigration17636540211763654023117
+  implements MigrationInterface
+{
+  name = 'AutoMigration17636540211763654023117';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "user" ADD "emailVerifiedAt" TIMESTAMP`,
+    );
+    // Accounts from before verification existed keep working
+    await queryRunner.query(
+      `UPDATE "user" SET "emailVerifiedAt" = "createdAt" WHERE "emailVerifiedAt" IS NULL`,
+    );
+    await queryRunner.query(
+      `ALTER TYPE "public"."user_token_type_enum" RENAME TO "user_token_type_enum_old"`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."user_token_type_enum" AS ENUM('password_reset', 'email_verification')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user_token" ALTER COLUMN "type" TYPE "public"."user_token_type_enum" USING "type"::"text"::"public"."user_token_type_enum"`,
+    );
+    await queryRunner.query(`DROP TYPE "public"."user_token_type_enum_old"`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DELETE FROM "user_token" WHERE "type" = 'email_verification'`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."user_token_type_enum_old" AS ENUM('password_reset')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user_token" ALTER COLUMN "type" TYPE "public"."user_token_type_enum_old" USING "type"::"text"::"public"."user_token_type_enum_old"`,
+    );
+    await queryRunner.query(`DROP TYPE "public"."user_token_type_enum"`);
+    await queryRunner.query(
+      `ALTER TYPE "public"."user_token_type_enum_old" RENAME TO "user_token_type_enum"`,
+    );
+    await queryRunner.query(`ALTER TABLE "user" DROP COLUMN "emailVerifiedAt"`);
+  }
+}
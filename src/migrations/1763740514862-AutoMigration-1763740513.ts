@@ -0,0 +1,17 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AutoMigration17637405131763740514862
+  implements MigrationInterface
+{
+  name = 'AutoMigration17637405131763740514862';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "login_attempt" ("key" character varying NOT NULL, "failures" integer NOT NULL DEFAULT '0', "lastFailureAt" TIMESTAMP NOT NULL, "blockedUntil" TIMESTAMP, CONSTRAINT "PK_2b7decd11c28ffdfdde28e05382" PRIMARY KEY ("key"))`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "login_attempt"`);
+  }
+}
@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AutoMigration17639961501763996152843
+  implements MigrationInterface
+{
+  name = 'AutoMigration17639961501763996152843';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "two_factor" ("userId" uuid NOT NULL, "secret" character varying NOT NULL, "enabledAt" TIMESTAMP, "lastUsedStep" integer, "recoveryCodes" text array NOT NULL DEFAULT '{}', "createdAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_d288854a558678a066860bd30e0" PRIMARY KEY ("userId"))`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "two_factor" ADD CONSTRAINT "FK_d288854a558678a066860bd30e0" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "two_factor" DROP CONSTRAINT "FK_d288854a558678a066860bd30e0"`,
+    );
+    await queryRunner.query(`DROP TABLE "two_factor"`);
+  }
+}
@@ -0,0 +1,31 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AutoMigration17641672061764167208351
+  implements MigrationInterface
+{
+  name = 'AutoMigration17641672061764167208351';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "product_variant" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "productId" uuid NOT NULL, "sku" character varying NOT NULL, "options" jsonb NOT NULL, "price" numeric(10,2), "stock" integer NOT NULL DEFAULT '0', "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "deletedAt" TIMESTAMP, CONSTRAINT "UQ_f4dc2c0888b66d547c175f090e2" UNIQUE ("sku"), CONSTRAINT "PK_1ab69c9935c61f7c70791ae0a9f" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(`ALTER TABLE "order" ADD "variantId" uuid`);
+    await queryRunner.query(
+      `ALTER TABLE "product_variant" ADD CONSTRAINT "FK_6e420052844edf3a5506d863ce6" FOREIGN KEY ("productId") REFERENCES "product"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "order" ADD CONSTRAINT "FK_4b309fb702904538d9cb1687c71" FOREIGN KEY ("variantId") REFERENCES "product_variant"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "order" DROP CONSTRAINT "FK_4b309fb702904538d9cb1687c71"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "product_variant" DROP CONSTRAINT "FK_6e420052844edf3a5506d863ce6"`,
+    );
+    await queryRunner.query(`ALTER TABLE "order" DROP COLUMN "variantId"`);
+    await queryRunner.query(`DROP TABLE "product_variant"`);
+  }
+}
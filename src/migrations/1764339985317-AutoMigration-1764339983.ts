@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AutoMigration17643399831764339985317
+  implements MigrationInterface
+{
+  name = 'AutoMigration17643399831764339985317';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "product" ADD "sku" character varying(64)`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_ecdd61e6ffae7d83690a0fdfc1" ON "product" ("userId", "sku") `,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_ecdd61e6ffae7d83690a0fdfc1"`,
+    );
+    await queryRunner.query(`ALTER TABLE "product" DROP COLUMN "sku"`);
+  }
+}
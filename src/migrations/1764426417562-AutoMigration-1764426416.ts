@@ -0,0 +1,59 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AutoMigration17644264161764426417562
+  implements MigrationInterface
+{
+  name = 'AutoMigration17644264161764426417562';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."stock_movement_reason_enum" AS ENUM('manual_adjust', 'sale', 'refund', 'import')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "stock_movement" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "productId" uuid NOT NULL, "variantId" uuid, "delta" integer NOT NULL, "reason" "public"."stock_movement_reason_enum" NOT NULL, "actorId" uuid, "orderId" uuid, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_9fe1232f916686ae8cf00294749" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_8e24b0f26ad85ed56102946c8f" ON "stock_movement" ("productId", "createdAt") `,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "stock_movement" ADD CONSTRAINT "FK_9e1078f3037faf8730f384bb422" FOREIGN KEY ("productId") REFERENCES "product"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "stock_movement" ADD CONSTRAINT "FK_e64f07861f20574a1883d4cd4d3" FOREIGN KEY ("variantId") REFERENCES "product_variant"("id") ON DELETE SET NULL ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "stock_movement" ADD CONSTRAINT "FK_efd138075285b76d75bc83939f6" FOREIGN KEY ("actorId") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "stock_movement" ADD CONSTRAINT "FK_8d741f9211b42debcd9c4c1592d" FOREIGN KEY ("orderId") REFERENCES "order"("id") ON DELETE SET NULL ON UPDATE NO ACTION`,
+    );
+    // Opening balances, so the ledger of existing products adds up to their
+    // current stock
+    await queryRunner.query(
+      `INSERT INTO "stock_movement" ("productId", "variantId", "delta", "reason") SELECT "productId", "id", "stock", 'manual_adjust' FROM "product_variant" WHERE "deletedAt" IS NULL AND "stock" <> 0`,
+    );
+    await queryRunner.query(
+      `INSERT INTO "stock_movement" ("productId", "delta", "reason") SELECT "product"."id", "product"."stock" - COALESCE(SUM("product_variant"."stock"), 0), 'manual_adjust' FROM "product" LEFT JOIN "product_variant" ON "product_variant"."productId" = "product"."id" AND "product_variant"."deletedAt" IS NULL GROUP BY "product"."id" HAVING "product"."stock" - COALESCE(SUM("product_variant"."stock"), 0) <> 0`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "stock_movement" DROP CONSTRAINT "FK_8d741f9211b42debcd9c4c1592d"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "stock_movement" DROP CONSTRAINT "FK_efd138075285b76d75bc83939f6"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "stock_movement" DROP CONSTRAINT "FK_e64f07861f20574a1883d4cd4d3"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "stock_movement" DROP CONSTRAINT "FK_9e1078f3037faf8730f384bb422"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_8e24b0f26ad85ed56102946c8f"`,
+    );
+    await queryRunner.query(`DROP TABLE "stock_movement"`);
+    await queryRunner.query(`DROP TYPE "public"."stock_movement_reason_enum"`);
+  }
+}
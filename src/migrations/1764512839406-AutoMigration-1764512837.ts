@@ -0,0 +1,53 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AutoMigration17645128371764512839406
+  implements MigrationInterface
+{
+  name = 'AutoMigration17645128371764512839406';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."stock_reservation_status_enum" AS ENUM('active', 'consumed', 'released')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "stock_reservation" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "orderId" uuid NOT NULL, "productId" uuid NOT NULL, "variantId" uuid, "quantity" integer NOT NULL, "status" "public"."stock_reservation_status_enum" NOT NULL DEFAULT 'active', "expiresAt" TIMESTAMP NOT NULL, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_a1f7c9841feb7e5744923efa2d2" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_ff116b39bd9ac1fa7735249cc1" ON "stock_reservation" ("orderId") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_0cdd10eabe52601ffa217d0102" ON "stock_reservation" ("productId", "status") `,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "stock_reservation" ADD CONSTRAINT "FK_ff116b39bd9ac1fa7735249cc17" FOREIGN KEY ("orderId") REFERENCES "order"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "stock_reservation" ADD CONSTRAINT "FK_aa95cfc9faaf5b0ecd28c1d1aa7" FOREIGN KEY ("productId") REFERENCES "product"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "stock_reservation" ADD CONSTRAINT "FK_c4e6e6bd0dd2525872c5e2bf747" FOREIGN KEY ("variantId") REFERENCES "product_variant"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "stock_reservation" DROP CONSTRAINT "FK_c4e6e6bd0dd2525872c5e2bf747"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "stock_reservation" DROP CONSTRAINT "FK_aa95cfc9faaf5b0ecd28c1d1aa7"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "stock_reservation" DROP CONSTRAINT "FK_ff116b39bd9ac1fa7735249cc17"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_0cdd10eabe52601ffa217d0102"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_ff116b39bd9ac1fa7735249cc1"`,
+    );
+    await queryRunner.query(`DROP TABLE "stock_reservation"`);
+    await queryRunner.query(
+      `DROP TYPE "public"."stock_reservation_status_enum"`,
+    );
+  }
+}
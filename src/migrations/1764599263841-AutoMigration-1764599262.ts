@@ -0,0 +1,102 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AutoMigration17645992621764599263841
+  implements MigrationInterface
+{
+  name = 'AutoMigration17645992621764599263841';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "order_item" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "orderId" uuid NOT NULL, "productId" uuid NOT NULL, "variantId" uuid, "quantity" integer NOT NULL, "unitPrice" numeric(10,2) NOT NULL, "totalPrice" numeric(10,2) NOT NULL, CONSTRAINT "PK_d01158fe15b1ead5c26fd7f4e90" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "order_item" ADD CONSTRAINT "FK_646bf9ece6f45dbe41c203e06e0" FOREIGN KEY ("orderId") REFERENCES "order"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "order_item" ADD CONSTRAINT "FK_904370c093ceea4369659a3c810" FOREIGN KEY ("productId") REFERENCES "product"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "order_item" ADD CONSTRAINT "FK_d6080269459158fb5f93afa3d4b" FOREIGN KEY ("variantId") REFERENCES "product_variant"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    );
+    // Every existing order becomes a single line order
+    await queryRunner.query(
+      `INSERT INTO "order_item" ("orderId", "productId", "variantId", "quantity", "unitPrice", "totalPrice") SELECT "id", "productId", "variantId", "quantity", ROUND("totalPrice" / "quantity", 2), "totalPrice" FROM "order"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "order" DROP CONSTRAINT "FK_88991860e839c6153a7ec878d39"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "order" DROP CONSTRAINT "FK_4b309fb702904538d9cb1687c71"`,
+    );
+    await queryRunner.query(`ALTER TABLE "order" DROP COLUMN "productId"`);
+    await queryRunner.query(`ALTER TABLE "order" DROP COLUMN "variantId"`);
+    await queryRunner.query(`ALTER TABLE "order" DROP COLUMN "quantity"`);
+
+    await queryRunner.query(
+      `CREATE TABLE "cart" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "userId" uuid NOT NULL, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "REL_756f53ab9466eb52a52619ee01" UNIQUE ("userId"), CONSTRAINT "PK_c524ec48751b9b5bcfbf6e59be7" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "cart_item" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "cartId" uuid NOT NULL, "productId" uuid NOT NULL, "variantId" uuid, "quantity" integer NOT NULL, "unitPrice" numeric(10,2) NOT NULL, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_bd94725aa84f8cf37632bcde997" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "cart" ADD CONSTRAINT "FK_756f53ab9466eb52a52619ee019" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "cart_item" ADD CONSTRAINT "FK_29e590514f9941296f3a2440d39" FOREIGN KEY ("cartId") REFERENCES "cart"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "cart_item" ADD CONSTRAINT "FK_75db0de134fe0f9fe9e4591b7bf" FOREIGN KEY ("productId") REFERENCES "product"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "cart_item" ADD CONSTRAINT "FK_943d70200de5fc5fc39792b9148" FOREIGN KEY ("variantId") REFERENCES "product_variant"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "cart_item" DROP CONSTRAINT "FK_943d70200de5fc5fc39792b9148"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "cart_item" DROP CONSTRAINT "FK_75db0de134fe0f9fe9e4591b7bf"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "cart_item" DROP CONSTRAINT "FK_29e590514f9941296f3a2440d39"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "cart" DROP CONSTRAINT "FK_756f53ab9466eb52a52619ee019"`,
+    );
+    await queryRunner.query(`DROP TABLE "cart_item"`);
+    await queryRunner.query(`DROP TABLE "cart"`);
+
+    await queryRunner.query(`ALTER TABLE "order" ADD "quantity" integer`);
+    await queryRunner.query(`ALTER TABLE "order" ADD "variantId" uuid`);
+    await queryRunner.query(`ALTER TABLE "order" ADD "productId" uuid`);
+    // Orders with several lines can only keep their first one
+    await queryRunner.query(
+      `UPDATE "order" SET "productId" = "first"."productId", "variantId" = "first"."variantId", "quantity" = "first"."quantity" FROM (SELECT DISTINCT ON ("orderId") * FROM "order_item" ORDER BY "orderId", "id") "first" WHERE "first"."orderId" = "order"."id"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "order" ALTER COLUMN "quantity" SET NOT NULL`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "order" ALTER COLUMN "productId" SET NOT NULL`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "order" ADD CONSTRAINT "FK_4b309fb702904538d9cb1687c71" FOREIGN KEY ("variantId") REFERENCES "product_variant"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "order" ADD CONSTRAINT "FK_88991860e839c6153a7ec878d39" FOREIGN KEY ("productId") REFERENCES "product"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    );
+
+    await queryRunner.query(
+      `ALTER TABLE "order_item" DROP CONSTRAINT "FK_d6080269459158fb5f93afa3d4b"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "order_item" DROP CONSTRAINT "FK_904370c093ceea4369659a3c810"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "order_item" DROP CONSTRAINT "FK_646bf9ece6f45dbe41c203e06e0"`,
+    );
+    await queryRunner.query(`DROP TABLE "order_item"`);
+  }
+}
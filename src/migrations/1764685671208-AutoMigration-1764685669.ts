@@ -0,0 +1,48 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AutoMigration17646856691764685671208
+  implements MigrationInterface
+{
+  name = 'AutoMigration17646856691764685671208';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TYPE "public"."order_status_enum" RENAME TO "order_status_enum_old"`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."order_status_enum" AS ENUM('pending', 'paid', 'processing', 'shipped', 'delivered', 'cancelled', 'refunded', 'failed')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "order" ALTER COLUMN "status" DROP DEFAULT`,
+    );
+    // Successful orders are the paid ones of the new lifecycle
+    await queryRunner.query(
+      `ALTER TABLE "order" ALTER COLUMN "status" TYPE "public"."order_status_enum" USING (CASE "status"::"text" WHEN 'successful' THEN 'paid' ELSE "status"::"text" END)::"public"."order_status_enum"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "order" ALTER COLUMN "status" SET DEFAULT 'pending'`,
+    );
+    await queryRunner.query(`DROP TYPE "public"."order_status_enum_old"`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."order_status_enum_old" AS ENUM('pending', 'successful', 'failed')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "order" ALTER COLUMN "status" DROP DEFAULT`,
+    );
+    // Orders past payment collapse to successful, cancelled and refunded
+    // ones to failed
+    await queryRunner.query(
+      `ALTER TABLE "order" ALTER COLUMN "status" TYPE "public"."order_status_enum_old" USING (CASE WHEN "status" IN ('paid', 'processing', 'shipped', 'delivered') THEN 'successful' WHEN "status" IN ('cancelled', 'refunded') THEN 'failed' ELSE "status"::"text" END)::"public"."order_status_enum_old"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "order" ALTER COLUMN "status" SET DEFAULT 'pending'`,
+    );
+    await queryRunner.query(`DROP TYPE "public"."order_status_enum"`);
+    await queryRunner.query(
+      `ALTER TYPE "public"."order_status_enum_old" RENAME TO "order_status_enum"`,
+    );
+  }
+}
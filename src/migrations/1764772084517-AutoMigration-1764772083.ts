@@ -0,0 +1,61 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AutoMigration17647720831764772084517
+  implements MigrationInterface
+{
+  name = 'AutoMigration17647720831764772084517';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."order_status_event_fromstatus_enum" AS ENUM('pending', 'paid', 'processing', 'shipped', 'delivered', 'cancelled', 'refunded', 'failed')`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."order_status_event_tostatus_enum" AS ENUM('pending', 'paid', 'processing', 'shipped', 'delivered', 'cancelled', 'refunded', 'failed')`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."order_status_event_actor_enum" AS ENUM('buyer', 'seller', 'admin', 'system')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "order_status_event" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "orderId" uuid NOT NULL, "fromStatus" "public"."order_status_event_fromstatus_enum", "toStatus" "public"."order_status_event_tostatus_enum" NOT NULL, "actor" "public"."order_status_event_actor_enum" NOT NULL, "actorId" uuid, "note" text, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_c25d6d677cbdfa305e6c237196a" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_0aa0dee5c6df8ab778d9b8a6da" ON "order_status_event" ("orderId", "createdAt") `,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "order_status_event" ADD CONSTRAINT "FK_93714625a1becc756c338ea39e1" FOREIGN KEY ("orderId") REFERENCES "order"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "order_status_event" ADD CONSTRAINT "FK_5f5c1b4d8244cbe54ed7b432135" FOREIGN KEY ("actorId") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE NO ACTION`,
+    );
+    // Existing orders start their history with the buyer placing them
+    await queryRunner.query(
+      `INSERT INTO "order_status_event" ("orderId", "fromStatus", "toStatus", "actor", "actorId", "createdAt") SELECT "id", NULL, 'pending', 'buyer', "userId", "createdAt" FROM "order"`,
+    );
+    // Only the current status of older orders is known, not how they got there
+    await queryRunner.query(
+      `INSERT INTO "order_status_event" ("orderId", "fromStatus", "toStatus", "actor", "note", "createdAt") SELECT "id", 'pending', "status"::"text"::"public"."order_status_event_tostatus_enum", 'system', 'Recorded before status history existed', "updatedAt" FROM "order" WHERE "status" <> 'pending'`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "order_status_event" DROP CONSTRAINT "FK_5f5c1b4d8244cbe54ed7b432135"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "order_status_event" DROP CONSTRAINT "FK_93714625a1becc756c338ea39e1"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_0aa0dee5c6df8ab778d9b8a6da"`,
+    );
+    await queryRunner.query(`DROP TABLE "order_status_event"`);
+    await queryRunner.query(
+      `DROP TYPE "public"."order_status_event_actor_enum"`,
+    );
+    await queryRunner.query(
+      `DROP TYPE "public"."order_status_event_tostatus_enum"`,
+    );
+    await queryRunner.query(
+      `DROP TYPE "public"."order_status_event_fromstatus_enum"`,
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AutoMigration17648584921764858493926
+  implements MigrationInterface
+{
+  name = 'AutoMigration17648584921764858493926';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."refund_status_enum" AS ENUM('pending', 'succeeded', 'failed')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "refund" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "orderId" uuid NOT NULL, "amount" numeric(10,2) NOT NULL, "reason" text NOT NULL, "status" "public"."refund_status_enum" NOT NULL DEFAULT 'pending', "providerReference" character varying, "failureReason" text, "requestedById" uuid, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_f1cefa2e60d99b206c46c1116e5" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_1f1294d539d9bbfe6c5b7de66b" ON "refund" ("orderId") `,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "order" ADD "refundedAmount" numeric(10,2) NOT NULL DEFAULT '0'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "refund" ADD CONSTRAINT "FK_1f1294d539d9bbfe6c5b7de66b0" FOREIGN KEY ("orderId") REFERENCES "order"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "refund" ADD CONSTRAINT "FK_77cf3f5fcad042b165167319d82" FOREIGN KEY ("requestedById") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "refund" DROP CONSTRAINT "FK_77cf3f5fcad042b165167319d82"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "refund" DROP CONSTRAINT "FK_1f1294d539d9bbfe6c5b7de66b0"`,
+    );
+    await queryRunner.query(`ALTER TABLE "order" DROP COLUMN "refundedAmount"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_1f1294d539d9bbfe6c5b7de66b"`,
+    );
+    await queryRunner.query(`DROP TABLE "refund"`);
+    await queryRunner.query(`DROP TYPE "public"."refund_status_enum"`);
+  }
+}
@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AutoMigration17649449011764944902375
+  implements MigrationInterface
+{
+  name = 'AutoMigration17649449011764944902375';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."webhook_event_outcome_enum" AS ENUM('received', 'processed', 'duplicate', 'invalid_signature', 'failed')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "webhook_event" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "provider" character varying NOT NULL, "eventId" character varying, "txRef" character varying, "event" character varying, "headers" jsonb NOT NULL, "payload" text NOT NULL, "outcome" "public"."webhook_event_outcome_enum" NOT NULL DEFAULT 'received', "error" text, "attempts" integer NOT NULL DEFAULT '0', "receivedAt" TIMESTAMP NOT NULL DEFAULT now(), "handledAt" TIMESTAMP, CONSTRAINT "PK_0f56d2f40f5ec823acf8e8edad1" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_fa4fdad56b2b0994a0ebde08b2" ON "webhook_event" ("eventId") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_90a4b30e6f707a93926c032e62" ON "webhook_event" ("txRef") `,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_90a4b30e6f707a93926c032e62"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_fa4fdad56b2b0994a0ebde08b2"`,
+    );
+    await queryRunner.query(`DROP TABLE "webhook_event"`);
+    await queryRunner.query(`DROP TYPE "public"."webhook_event_outcome_enum"`);
+  }
+}
@@ -0,0 +1,94 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AutoMigration17650313151765031317042
+  implements MigrationInterface
+{
+  name = 'AutoMigration17650313151765031317042';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TYPE "public"."order_status_enum" RENAME TO "order_status_enum_old"`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."order_status_enum" AS ENUM('pending', 'paid', 'processing', 'shipped', 'delivered', 'cancelled', 'refunded', 'failed', 'expired')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "order" ALTER COLUMN "status" DROP DEFAULT`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "order" ALTER COLUMN "status" TYPE "public"."order_status_enum" USING "status"::"text"::"public"."order_status_enum"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "order" ALTER COLUMN "status" SET DEFAULT 'pending'`,
+    );
+    await queryRunner.query(`DROP TYPE "public"."order_status_enum_old"`);
+    await queryRunner.query(
+      `ALTER TYPE "public"."order_status_event_fromstatus_enum" RENAME TO "order_status_event_fromstatus_enum_old"`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."order_status_event_fromstatus_enum" AS ENUM('pending', 'paid', 'processing', 'shipped', 'delivered', 'cancelled', 'refunded', 'failed', 'expired')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "order_status_event" ALTER COLUMN "fromStatus" TYPE "public"."order_status_event_fromstatus_enum" USING "fromStatus"::"text"::"public"."order_status_event_fromstatus_enum"`,
+    );
+    await queryRunner.query(
+      `DROP TYPE "public"."order_status_event_fromstatus_enum_old"`,
+    );
+    await queryRunner.query(
+      `ALTER TYPE "public"."order_status_event_tostatus_enum" RENAME TO "order_status_event_tostatus_enum_old"`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."order_status_event_tostatus_enum" AS ENUM('pending', 'paid', 'processing', 'shipped', 'delivered', 'cancelled', 'refunded', 'failed', 'expired')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "order_status_event" ALTER COLUMN "toStatus" TYPE "public"."order_status_event_tostatus_enum" USING "toStatus"::"text"::"public"."order_status_event_tostatus_enum"`,
+    );
+    await queryRunner.query(
+      `DROP TYPE "public"."order_status_event_tostatus_enum_old"`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Expired orders were failed ones before the status existed
+    await queryRunner.query(
+      `CREATE TYPE "public"."order_status_event_tostatus_enum_old" AS ENUM('pending', 'paid', 'processing', 'shipped', 'delivered', 'cancelled', 'refunded', 'failed')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "order_status_event" ALTER COLUMN "toStatus" TYPE "public"."order_status_event_tostatus_enum_old" USING (CASE "toStatus"::"text" WHEN 'expired' THEN 'failed' ELSE "toStatus"::"text" END)::"public"."order_status_event_tostatus_enum_old"`,
+    );
+    await queryRunner.query(
+      `DROP TYPE "public"."order_status_event_tostatus_enum"`,
+    );
+    await queryRunner.query(
+      `ALTER TYPE "public"."order_status_event_tostatus_enum_old" RENAME TO "order_status_event_tostatus_enum"`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."order_status_event_fromstatus_enum_old" AS ENUM('pending', 'paid', 'processing', 'shipped', 'delivered', 'cancelled', 'refunded', 'failed')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "order_status_event" ALTER COLUMN "fromStatus" TYPE "public"."order_status_event_fromstatus_enum_old" USING (CASE "fromStatus"::"text" WHEN 'expired' THEN 'failed' ELSE "fromStatus"::"text" END)::"public"."order_status_event_fromstatus_enum_old"`,
+    );
+    await queryRunner.query(
+      `DROP TYPE "public"."order_status_event_fromstatus_enum"`,
+    );
+    await queryRunner.query(
+      `ALTER TYPE "public"."order_status_event_fromstatus_enum_old" RENAME TO "order_status_event_fromstatus_enum"`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."order_status_enum_old" AS ENUM('pending', 'paid', 'processing', 'shipped', 'delivered', 'cancelled', 'refunded', 'failed')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "order" ALTER COLUMN "status" DROP DEFAULT`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "order" ALTER COLUMN "status" TYPE "public"."order_status_enum_old" USING (CASE "status"::"text" WHEN 'expired' THEN 'failed' ELSE "status"::"text" END)::"public"."order_status_enum_old"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "order" ALTER COLUMN "status" SET DEFAULT 'pending'`,
+    );
+    await queryRunner.query(`DROP TYPE "public"."order_status_enum"`);
+    await queryRunner.query(
+      `ALTER TYPE "public"."order_status_enum_old" RENAME TO "order_status_enum"`,
+    );
+  }
+}
@@ -0,0 +1,21 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AutoMigration17651177231765117724605
+  implements MigrationInterface
+{
+  name = 'AutoMigration17651177231765117724605';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "order" ADD "paidAt" TIMESTAMP`);
+    // Paid when the order became paid. Histories from before the timeline
+    // only have one entry to the current status, so those orders count as
+    // paid by their status or by having been refunded.
+    await queryRunner.query(
+      `UPDATE "order" SET "paidAt" = COALESCE((SELECT MIN("event"."createdAt") FROM "order_status_event" "event" WHERE "event"."orderId" = "order"."id" AND "event"."toStatus" = 'paid'), "order"."updatedAt") WHERE "order"."status" IN ('paid', 'processing', 'shipped', 'delivered', 'refunded') OR EXISTS (SELECT 1 FROM "order_status_event" "event" WHERE "event"."orderId" = "order"."id" AND "event"."toStatus" = 'paid') OR EXISTS (SELECT 1 FROM "refund" WHERE "refund"."orderId" = "order"."id")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "order" DROP COLUMN "paidAt"`);
+  }
+}
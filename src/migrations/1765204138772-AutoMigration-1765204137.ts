@@ -0,0 +1,47 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AutoMigration17652041371765204138772
+  implements MigrationInterface
+{
+  name = 'AutoMigration17652041371765204138772';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TYPE "public"."refund_status_enum" RENAME TO "refund_status_enum_old"`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."refund_status_enum" AS ENUM('pending', 'processing', 'succeeded', 'failed', 'unknown')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "refund" ALTER COLUMN "status" DROP DEFAULT`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "refund" ALTER COLUMN "status" TYPE "public"."refund_status_enum" USING "status"::"text"::"public"."refund_status_enum"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "refund" ALTER COLUMN "status" SET DEFAULT 'pending'`,
+    );
+    await queryRunner.query(`DROP TYPE "public"."refund_status_enum_old"`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."refund_status_enum_old" AS ENUM('pending', 'succeeded', 'failed')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "refund" ALTER COLUMN "status" DROP DEFAULT`,
+    );
+    // Refunds in flight must not be sent again on their own, so they wait
+    // as failed ones for someone to retry them
+    await queryRunner.query(
+      `ALTER TABLE "refund" ALTER COLUMN "status" TYPE "public"."refund_status_enum_old" USING (CASE WHEN "status" IN ('processing', 'unknown') THEN 'failed' ELSE "status"::"text" END)::"public"."refund_status_enum_old"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "refund" ALTER COLUMN "status" SET DEFAULT 'pending'`,
+    );
+    await queryRunner.query(`DROP TYPE "public"."refund_status_enum"`);
+    await queryRunner.query(
+      `ALTER TYPE "public"."refund_status_enum_old" RENAME TO "refund_status_enum"`,
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AutoMigration17652905491765290551406
+  implements MigrationInterface
+{
+  name = 'AutoMigration17652905491765290551406';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."reconciliation_run_status_enum" AS ENUM('running', 'completed', 'failed')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "reconciliation_run" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "from" TIMESTAMP NOT NULL, "to" TIMESTAMP NOT NULL, "status" "public"."reconciliation_run_status_enum" NOT NULL DEFAULT 'running', "checked" integer NOT NULL DEFAULT '0', "matched" integer NOT NULL DEFAULT '0', "mismatchCount" integer NOT NULL DEFAULT '0', "error" text, "requestedById" uuid, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "finishedAt" TIMESTAMP, CONSTRAINT "PK_4fa08b87bbb63890254c8cdcb57" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."reconciliation_mismatch_issue_enum" AS ENUM('paid_but_pending', 'paid_but_failed', 'paid_but_cancelled', 'failed_but_successful', 'amount_mismatch', 'verify_error')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "reconciliation_mismatch" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "runId" uuid NOT NULL, "issue" "public"."reconciliation_mismatch_issue_enum" NOT NULL, "orderId" uuid NOT NULL, "txRef" character varying NOT NULL, "orderCreatedAt" TIMESTAMP NOT NULL, "orderStatus" character varying NOT NULL, "providerStatus" character varying, "orderAmount" numeric(10,2) NOT NULL, "providerAmount" numeric(10,2), "providerCurrency" character varying, "detail" text, CONSTRAINT "PK_4d9f975318b13bee903cc24a936" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_1d4747a51fb2745199db6bbf2f" ON "reconciliation_mismatch" ("runId") `,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "reconciliation_run" ADD CONSTRAINT "FK_c14bed32f25d57a1b01e8b1d6b3" FOREIGN KEY ("requestedById") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "reconciliation_mismatch" ADD CONSTRAINT "FK_1d4747a51fb2745199db6bbf2f8" FOREIGN KEY ("runId") REFERENCES "reconciliation_run"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "reconciliation_mismatch" DROP CONSTRAINT "FK_1d4747a51fb2745199db6bbf2f8"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "reconciliation_run" DROP CONSTRAINT "FK_c14bed32f25d57a1b01e8b1d6b3"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_1d4747a51fb2745199db6bbf2f"`,
+    );
+    await queryRunner.query(`DROP TABLE "reconciliation_mismatch"`);
+    await queryRunner.query(
+      `DROP TYPE "public"."reconciliation_mismatch_issue_enum"`,
+    );
+    await queryRunner.query(`DROP TABLE "reconciliation_run"`);
+    await queryRunner.query(
+      `DROP TYPE "public"."reconciliation_run_status_enum"`,
+    );
+  }
+}
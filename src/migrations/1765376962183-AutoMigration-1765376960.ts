@@ -0,0 +1,39 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AutoMigration17653769601765376962183
+  implements MigrationInterface
+{
+  name = 'AutoMigration17653769601765376962183';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TYPE "public"."stock_movement_reason_enum" RENAME TO "stock_movement_reason_enum_old"`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."stock_movement_reason_enum" AS ENUM('manual_adjust', 'sale', 'refund', 'import', 'restock_skipped')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "stock_movement" ALTER COLUMN "reason" TYPE "public"."stock_movement_reason_enum" USING "reason"::"text"::"public"."stock_movement_reason_enum"`,
+    );
+    await queryRunner.query(
+      `DROP TYPE "public"."stock_movement_reason_enum_old"`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Skipped restocks moved no stock, so dropping them keeps the sums
+    await queryRunner.query(
+      `DELETE FROM "stock_movement" WHERE "reason" = 'restock_skipped'`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."stock_movement_reason_enum_old" AS ENUM('manual_adjust', 'sale', 'refund', 'import')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "stock_movement" ALTER COLUMN "reason" TYPE "public"."stock_movement_reason_enum_old" USING "reason"::"text"::"public"."stock_movement_reason_enum_old"`,
+    );
+    await queryRunner.query(`DROP TYPE "public"."stock_movement_reason_enum"`);
+    await queryRunner.query(
+      `ALTER TYPE "public"."stock_movement_reason_enum_old" RENAME TO "stock_movement_reason_enum"`,
+    );
+  }
+}
@@ -0,0 +1,15 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CancelOrderDto {
+  @ApiProperty({
+    description:
+      'Why the order is cancelled, kept in the order status history and passed on to the sellers',
+    example: 'Ordered the wrong size',
+    maxLength: 500,
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(500)
+  reason: string;
+}
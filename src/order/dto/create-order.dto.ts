@@ -1,4 +1,11 @@
-import { IsNotEmpty, IsString, IsNumber, Min } from 'class-validator';
+import {
+  IsNotEmpty,
+  IsString,
+  IsNumber,
+  Min,
+  IsOptional,
+  IsUUID,
+} from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 
 export class CreateOrderDto {
@@ -10,6 +17,15 @@ export class CreateOrderDto {
   @IsString()
   productId: string;
 
+  @ApiProperty({
+    description: 'Variant to order, required for products with variants',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID()
+  variantId?: string;
+
   @ApiProperty({
     description: 'Quantity to order',
     example: 2,
@@ -0,0 +1,32 @@
+import {
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreateRefundDto {
+  @ApiProperty({
+    description:
+      'Amount to send back, everything not refunded yet when left out (of their own lines for a seller)',
+    example: 49.99,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  amount?: number;
+
+  @ApiProperty({
+    description: 'Why the money is sent back, shown to the buyer',
+    example: 'Item arrived damaged',
+    maxLength: 500,
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(500)
+  reason: string;
+}
@@ -0,0 +1,11 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Order } from '../entities/order.entity';
+import { OrderStatusEvent } from '../entities/order-status-event.entity';
+
+export class OrderDetailsDto extends Order {
+  @ApiProperty({
+    description: 'Every status change of the order, oldest first',
+    type: () => [OrderStatusEvent],
+  })
+  statusHistory: OrderStatusEvent[];
+}
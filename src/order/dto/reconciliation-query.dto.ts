@@ -0,0 +1,19 @@
+import { IsDateString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ReconciliationQueryDto {
+  @ApiProperty({
+    description: 'Orders created on or after this date',
+    example: '2024-01-01T00:00:00.000Z',
+  })
+  @IsDateString()
+  from: string;
+
+  @ApiProperty({
+    description:
+      'Orders created on or before this date, a date without a time covers the whole day',
+    example: '2024-01-31',
+  })
+  @IsDateString()
+  to: string;
+}
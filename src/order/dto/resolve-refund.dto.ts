@@ -0,0 +1,33 @@
+import { IsIn, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { RefundStatus } from '../entities/refund.entity';
+
+export class ResolveRefundDto {
+  @ApiProperty({
+    description: 'What the payment provider says became of the refund',
+    enum: [RefundStatus.SUCCEEDED, RefundStatus.FAILED],
+    example: RefundStatus.SUCCEEDED,
+  })
+  @IsIn([RefundStatus.SUCCEEDED, RefundStatus.FAILED])
+  status: RefundStatus.SUCCEEDED | RefundStatus.FAILED;
+
+  @ApiProperty({
+    description: 'Reference of the refund at the payment provider',
+    example: 'CHREF-1234567890',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  providerReference?: string;
+
+  @ApiProperty({
+    description: 'Why the refund failed, kept as its failure reason',
+    example: 'Never reached the provider',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
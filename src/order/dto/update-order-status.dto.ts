@@ -1,13 +1,24 @@
-import { IsEnum } from 'class-validator';
+import { IsEnum, IsOptional, IsString, MaxLength } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 import { OrderStatus } from '../entities/order.entity';
 
 export class UpdateOrderStatusDto {
   @ApiProperty({
-    description: 'New order status',
+    description:
+      'New order status, reachable from the current one (see the order lifecycle)',
     enum: OrderStatus,
-    example: OrderStatus.SUCCESSFUL,
+    example: OrderStatus.SHIPPED,
   })
   @IsEnum(OrderStatus)
   status: OrderStatus;
+
+  @ApiProperty({
+    description: 'Reason or note kept in the order status history',
+    example: 'Handed to the courier',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
 }
@@ -0,0 +1,25 @@
+import { IsEnum, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { PaginationQueryDto } from '../../common/dto';
+import { WebhookOutcome } from '../entities/webhook-event.entity';
+
+export class WebhookEventQueryDto extends PaginationQueryDto {
+  @ApiProperty({
+    description: 'Only events for this transaction reference',
+    example: 'TX-1234567890',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  txRef?: string;
+
+  @ApiProperty({
+    description: 'Only events with this outcome',
+    enum: WebhookOutcome,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(WebhookOutcome)
+  outcome?: WebhookOutcome;
+}
@@ -0,0 +1,76 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { ApiProperty } from '@nestjs/swagger';
+import { Order } from './order.entity';
+import { Product } from '../../product/entities/product.entity';
+import { ProductVariant } from '../../product/entities/product-variant.entity';
+
+// One product (or variant) line of an order. Prices are copied at checkout
+// so later catalog changes do not rewrite what the buyer paid.
+@Entity()
+export class OrderItem {
+  @ApiProperty({
+    description: 'Order item unique identifier',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  orderId: string;
+
+  @ManyToOne(() => Order, (order) => order.items, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'orderId' })
+  order: Order;
+
+  @ApiProperty({
+    description: 'ID of the ordered product',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Column()
+  productId: string;
+
+  @ApiProperty({ description: 'Ordered product', type: () => Product })
+  @ManyToOne(() => Product, { eager: false })
+  @JoinColumn({ name: 'productId' })
+  product: Product;
+
+  @ApiProperty({
+    description:
+      'ID of the ordered variant, null for products without variants',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    nullable: true,
+  })
+  @Column({ type: 'uuid', nullable: true })
+  variantId: string | null;
+
+  @ManyToOne(() => ProductVariant, { eager: false })
+  @JoinColumn({ name: 'variantId' })
+  variant: ProductVariant;
+
+  @ApiProperty({
+    description: 'Quantity ordered',
+    example: 2,
+  })
+  @Column('int')
+  quantity: number;
+
+  @ApiProperty({
+    description: 'Unit price at the time of order',
+    example: 99.99,
+  })
+  @Column('decimal', { precision: 10, scale: 2 })
+  unitPrice: number;
+
+  @ApiProperty({
+    description: 'Line total at the time of order',
+    example: 199.98,
+  })
+  @Column('decimal', { precision: 10, scale: 2 })
+  totalPrice: number;
+}
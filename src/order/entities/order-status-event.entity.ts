@@ -0,0 +1,93 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { ApiProperty } from '@nestjs/swagger';
+import { Order, OrderStatus } from './order.entity';
+import { User } from '../../user/entities/user.entity';
+
+// Who moves an order: its buyer, a seller of one of its products, an admin,
+// or the payment flow itself
+export enum OrderActor {
+  BUYER = 'buyer',
+  SELLER = 'seller',
+  ADMIN = 'admin',
+  SYSTEM = 'system',
+}
+
+// One entry of an order's timeline, written in the same transaction as the
+// status change it describes. The first entry has no fromStatus.
+@Entity()
+@Index(['orderId', 'createdAt'])
+export class OrderStatusEvent {
+  @ApiProperty({
+    description: 'Event unique identifier',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  orderId: string;
+
+  @ManyToOne(() => Order, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'orderId' })
+  order: Order;
+
+  @ApiProperty({
+    description: 'Status before the change, null when the order was placed',
+    enum: OrderStatus,
+    example: OrderStatus.PAID,
+    nullable: true,
+  })
+  @Column({ type: 'enum', enum: OrderStatus, nullable: true })
+  fromStatus: OrderStatus | null;
+
+  @ApiProperty({
+    description: 'Status after the change',
+    enum: OrderStatus,
+    example: OrderStatus.PROCESSING,
+  })
+  @Column({ type: 'enum', enum: OrderStatus })
+  toStatus: OrderStatus;
+
+  @ApiProperty({
+    description: 'In which role the change was made',
+    enum: OrderActor,
+    example: OrderActor.SELLER,
+  })
+  @Column({ type: 'enum', enum: OrderActor })
+  actor: OrderActor;
+
+  @ApiProperty({
+    description: 'ID of the user who made the change, null for the system',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    nullable: true,
+  })
+  @Column({ type: 'uuid', nullable: true })
+  actorId: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'actorId' })
+  actorUser: User;
+
+  @ApiProperty({
+    description: 'Reason or note given with the change',
+    example: 'Handed to the courier',
+    nullable: true,
+  })
+  @Column({ type: 'text', nullable: true })
+  note: string | null;
+
+  @ApiProperty({
+    description: 'When the change happened',
+    example: '2024-01-01T00:00:00.000Z',
+  })
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -5,16 +5,25 @@ import {
   CreateDateColumn,
   UpdateDateColumn,
   ManyToOne,
+  OneToMany,
   JoinColumn,
 } from 'typeorm';
 import { ApiProperty } from '@nestjs/swagger';
 import { User } from '../../user/entities/user.entity';
-import { Product } from '../../product/entities/product.entity';
+import { OrderItem } from './order-item.entity';
 
+// Legal moves between these are listed in order-lifecycle.ts
 export enum OrderStatus {
   PENDING = 'pending',
-  SUCCESSFUL = 'successful',
+  PAID = 'paid',
+  PROCESSING = 'processing',
+  SHIPPED = 'shipped',
+  DELIVERED = 'delivered',
+  CANCELLED = 'cancelled',
+  REFUNDED = 'refunded',
   FAILED = 'failed',
+  // Never paid within ORDER_PAYMENT_TTL_MINUTES
+  EXPIRED = 'expired',
 }
 
 @Entity()
@@ -38,29 +47,35 @@ export class Order {
   user: User;
 
   @ApiProperty({
-    description: 'ID of the ordered product',
-    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'Ordered lines',
+    type: () => [OrderItem],
   })
-  @Column()
-  productId: string;
+  @OneToMany(() => OrderItem, (item) => item.order, { cascade: true })
+  items: OrderItem[];
 
-  @ManyToOne(() => Product, { eager: true })
-  @JoinColumn({ name: 'productId' })
-  product: Product;
+  @ApiProperty({
+    description: 'Sum of the line totals at the time of order',
+    example: 199.98,
+  })
+  @Column('decimal', { precision: 10, scale: 2 })
+  totalPrice: number;
 
   @ApiProperty({
-    description: 'Quantity ordered',
-    example: 2,
+    description:
+      'Sum of the succeeded refunds; the buyer has paid totalPrice minus this',
+    example: 0,
   })
-  @Column('int')
-  quantity: number;
+  @Column('decimal', { precision: 10, scale: 2, default: 0 })
+  refundedAmount: number;
 
   @ApiProperty({
-    description: 'Total price at the time of order',
-    example: 199.98,
+    description:
+      'When the provider confirmed the payment, null while nothing was paid',
+    example: '2024-01-01T00:00:00.000Z',
+    nullable: true,
   })
-  @Column('decimal', { precision: 10, scale: 2 })
-  totalPrice: number;
+  @Column({ type: 'timestamp', nullable: true })
+  paidAt: Date | null;
 
   @ApiProperty({
     description: 'Transaction reference',
@@ -0,0 +1,127 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { ApiProperty } from '@nestjs/swagger';
+import { ReconciliationRun } from './reconciliation-run.entity';
+
+// Named after what the provider says, then what the order says
+export enum ReconciliationIssue {
+  // The money arrived but the order never left pending (missed webhook)
+  PAID_BUT_PENDING = 'paid_but_pending',
+  // The money arrived but the order was failed or expired
+  PAID_BUT_FAILED = 'paid_but_failed',
+  // The money arrived for a cancelled order that was not refunded in full
+  PAID_BUT_CANCELLED = 'paid_but_cancelled',
+  // The order went on as paid although the payment failed or never finished
+  FAILED_BUT_SUCCESSFUL = 'failed_but_successful',
+  // Settled, but for another amount or currency than the order asked for
+  AMOUNT_MISMATCH = 'amount_mismatch',
+  // The provider could not be asked about the payment
+  VERIFY_ERROR = 'verify_error',
+}
+
+// Where an order and the payment provider disagreed during a run, as both
+// stood at the time
+@Entity()
+export class ReconciliationMismatch {
+  @ApiProperty({
+    description: 'Mismatch unique identifier',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiProperty({
+    description: 'ID of the run that found it',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Index()
+  @Column()
+  runId: string;
+
+  @ManyToOne(() => ReconciliationRun, (run) => run.mismatches, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'runId' })
+  run: ReconciliationRun;
+
+  @ApiProperty({
+    description: 'What disagrees',
+    enum: ReconciliationIssue,
+    example: ReconciliationIssue.PAID_BUT_PENDING,
+  })
+  @Column({ type: 'enum', enum: ReconciliationIssue })
+  issue: ReconciliationIssue;
+
+  @ApiProperty({
+    description: 'ID of the order',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Column('uuid')
+  orderId: string;
+
+  @ApiProperty({
+    description: 'Transaction reference of the order',
+    example: 'TX-1234567890',
+  })
+  @Column()
+  txRef: string;
+
+  @ApiProperty({
+    description: 'When the order was created',
+    example: '2024-01-10T12:00:00.000Z',
+  })
+  @Column('timestamp')
+  orderCreatedAt: Date;
+
+  @ApiProperty({
+    description: 'Order status at the time of the run',
+    example: 'pending',
+  })
+  @Column()
+  orderStatus: string;
+
+  @ApiProperty({
+    description: 'Payment status reported by the provider',
+    example: 'success',
+    nullable: true,
+  })
+  @Column({ type: 'varchar', nullable: true })
+  providerStatus: string | null;
+
+  @ApiProperty({
+    description: 'Order total',
+    example: 199.98,
+  })
+  @Column('decimal', { precision: 10, scale: 2 })
+  orderAmount: number;
+
+  @ApiProperty({
+    description: 'Amount the provider settled',
+    example: 199.98,
+    nullable: true,
+  })
+  @Column('decimal', { precision: 10, scale: 2, nullable: true })
+  providerAmount: number | null;
+
+  @ApiProperty({
+    description: 'Currency the provider settled in',
+    example: 'ETB',
+    nullable: true,
+  })
+  @Column({ type: 'varchar', nullable: true })
+  providerCurrency: string | null;
+
+  @ApiProperty({
+    description: 'What exactly differs, or the verify error',
+    example: 'amount 50 instead of 60.00',
+    nullable: true,
+  })
+  @Column({ type: 'text', nullable: true })
+  detail: string | null;
+}
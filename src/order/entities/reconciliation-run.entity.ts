@@ -0,0 +1,122 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+} from 'typeorm';
+import { ApiProperty } from '@nestjs/swagger';
+import { User } from '../../user/entities/user.entity';
+import { ReconciliationMismatch } from './reconciliation-mismatch.entity';
+
+export enum ReconciliationRunStatus {
+  // Still walking the orders, the counters grow batch by batch
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  // Broke off, see error; the mismatches found until then are kept
+  FAILED = 'failed',
+}
+
+// One comparison of the orders of a date range with the payment provider,
+// kept so its report can be read and exported without asking again
+@Entity()
+export class ReconciliationRun {
+  @ApiProperty({
+    description: 'Reconciliation run unique identifier',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiProperty({
+    description: 'Start of the checked range',
+    example: '2024-01-01T00:00:00.000Z',
+  })
+  @Column('timestamp')
+  from: Date;
+
+  @ApiProperty({
+    description: 'End of the checked range',
+    example: '2024-01-31T23:59:59.999Z',
+  })
+  @Column('timestamp')
+  to: Date;
+
+  @ApiProperty({
+    description: 'Run status',
+    enum: ReconciliationRunStatus,
+    example: ReconciliationRunStatus.COMPLETED,
+  })
+  @Column({
+    type: 'enum',
+    enum: ReconciliationRunStatus,
+    default: ReconciliationRunStatus.RUNNING,
+  })
+  status: ReconciliationRunStatus;
+
+  @ApiProperty({
+    description: 'Orders checked so far',
+    example: 120,
+  })
+  @Column('int', { default: 0 })
+  checked: number;
+
+  @ApiProperty({
+    description: 'Orders that agreed with the provider',
+    example: 118,
+  })
+  @Column('int', { default: 0 })
+  matched: number;
+
+  @ApiProperty({
+    description: 'Mismatches found so far',
+    example: 2,
+  })
+  @Column('int', { default: 0 })
+  mismatchCount: number;
+
+  @ApiProperty({
+    description: 'Error message when the run failed',
+    example: null,
+    nullable: true,
+  })
+  @Column({ type: 'text', nullable: true })
+  error: string | null;
+
+  @ApiProperty({
+    description: 'ID of the admin who started the run',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    nullable: true,
+  })
+  @Column({ type: 'uuid', nullable: true })
+  requestedById: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'requestedById' })
+  requestedBy: User;
+
+  @ApiProperty({
+    description: 'Mismatches found, loaded for a single run',
+    type: () => [ReconciliationMismatch],
+    required: false,
+  })
+  @OneToMany(() => ReconciliationMismatch, (mismatch) => mismatch.run)
+  mismatches: ReconciliationMismatch[];
+
+  @ApiProperty({
+    description: 'When the run was started',
+    example: '2024-02-01T00:00:00.000Z',
+  })
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'When the run completed or failed',
+    example: '2024-02-01T00:05:00.000Z',
+    nullable: true,
+  })
+  @Column({ type: 'timestamp', nullable: true })
+  finishedAt: Date | null;
+}
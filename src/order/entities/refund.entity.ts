@@ -0,0 +1,119 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { ApiProperty } from '@nestjs/swagger';
+import { Order } from './order.entity';
+import { User } from '../../user/entities/user.entity';
+
+export enum RefundStatus {
+  // Recorded, not sent to the payment provider yet
+  PENDING = 'pending',
+  // Sent to the provider, which has not settled it yet
+  PROCESSING = 'processing',
+  SUCCEEDED = 'succeeded',
+  // The provider refused it; nothing was paid back and it can be retried
+  FAILED = 'failed',
+  // The call to the provider broke off without an answer, so the money may
+  // or may not have been sent. Check with the provider before resending.
+  UNKNOWN = 'unknown',
+}
+
+// Money sent back to the buyer for (part of) an order. Refunds that did
+// not fail together never exceed the order total.
+@Entity()
+export class Refund {
+  @ApiProperty({
+    description: 'Refund unique identifier',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiProperty({
+    description: 'ID of the refunded order',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Index()
+  @Column()
+  orderId: string;
+
+  @ManyToOne(() => Order, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'orderId' })
+  order: Order;
+
+  @ApiProperty({
+    description: 'Refunded amount',
+    example: 49.99,
+  })
+  @Column('decimal', { precision: 10, scale: 2 })
+  amount: number;
+
+  @ApiProperty({
+    description: 'Why the money is sent back',
+    example: 'Item arrived damaged',
+  })
+  @Column('text')
+  reason: string;
+
+  @ApiProperty({
+    description: 'Refund status',
+    enum: RefundStatus,
+    example: RefundStatus.SUCCEEDED,
+  })
+  @Column({
+    type: 'enum',
+    enum: RefundStatus,
+    default: RefundStatus.PENDING,
+  })
+  status: RefundStatus;
+
+  @ApiProperty({
+    description: 'Reference of the refund at the payment provider',
+    example: 'CHREF-1234567890',
+    nullable: true,
+  })
+  @Column({ type: 'varchar', nullable: true })
+  providerReference: string | null;
+
+  @ApiProperty({
+    description:
+      'Why the payment provider refused the refund, or why its outcome is unknown',
+    example: null,
+    nullable: true,
+  })
+  @Column({ type: 'text', nullable: true })
+  failureReason: string | null;
+
+  @ApiProperty({
+    description: 'ID of the user who issued the refund, null for the system',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    nullable: true,
+  })
+  @Column({ type: 'uuid', nullable: true })
+  requestedById: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'requestedById' })
+  requestedBy: User;
+
+  @ApiProperty({
+    description: 'Refund creation date',
+    example: '2024-01-01T00:00:00.000Z',
+  })
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'Refund last update date',
+    example: '2024-01-01T00:00:00.000Z',
+  })
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,121 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { ApiProperty } from '@nestjs/swagger';
+
+export enum WebhookOutcome {
+  // Stored, not handled yet
+  RECEIVED = 'received',
+  PROCESSED = 'processed',
+  // The same event was processed before, so this delivery was skipped
+  DUPLICATE = 'duplicate',
+  INVALID_SIGNATURE = 'invalid_signature',
+  // Handling threw, see error
+  FAILED = 'failed',
+}
+
+// One delivery of a payment provider webhook, stored as received so it can
+// be inspected and replayed
+@Entity()
+export class WebhookEvent {
+  @ApiProperty({
+    description: 'Webhook event unique identifier',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiProperty({
+    description: 'Payment provider that sent the webhook',
+    example: 'chapa',
+  })
+  @Column()
+  provider: string;
+
+  @ApiProperty({
+    description:
+      'Event ID used for deduplication, null until the signature is checked',
+    example: 'charge.success:TX-1234567890',
+    nullable: true,
+  })
+  @Index()
+  @Column({ type: 'varchar', nullable: true })
+  eventId: string | null;
+
+  @ApiProperty({
+    description: 'Transaction reference of the order',
+    example: 'TX-1234567890',
+    nullable: true,
+  })
+  @Index()
+  @Column({ type: 'varchar', nullable: true })
+  txRef: string | null;
+
+  @ApiProperty({
+    description: 'Event name given by the provider',
+    example: 'charge.success',
+    nullable: true,
+  })
+  @Column({ type: 'varchar', nullable: true })
+  event: string | null;
+
+  @ApiProperty({
+    description: 'Request headers as received',
+    example: { 'content-type': 'application/json' },
+  })
+  @Column('jsonb')
+  headers: Record<string, string | string[]>;
+
+  @ApiProperty({
+    description: 'Request body exactly as received',
+    example: '{"event":"charge.success","tx_ref":"TX-1234567890"}',
+  })
+  @Column('text')
+  payload: string;
+
+  @ApiProperty({
+    description: 'What handling the webhook came to',
+    enum: WebhookOutcome,
+    example: WebhookOutcome.PROCESSED,
+  })
+  @Column({
+    type: 'enum',
+    enum: WebhookOutcome,
+    default: WebhookOutcome.RECEIVED,
+  })
+  outcome: WebhookOutcome;
+
+  @ApiProperty({
+    description: 'Error message when handling failed',
+    example: null,
+    nullable: true,
+  })
+  @Column({ type: 'text', nullable: true })
+  error: string | null;
+
+  @ApiProperty({
+    description: 'How often the event was handled, replays included',
+    example: 1,
+  })
+  @Column('int', { default: 0 })
+  attempts: number;
+
+  @ApiProperty({
+    description: 'When the webhook arrived',
+    example: '2024-01-01T00:00:00.000Z',
+  })
+  @CreateDateColumn()
+  receivedAt: Date;
+
+  @ApiProperty({
+    description: 'When the event was last handled',
+    example: '2024-01-01T00:00:00.000Z',
+    nullable: true,
+  })
+  @Column({ type: 'timestamp', nullable: true })
+  handledAt: Date | null;
+}
@@ -0,0 +1,129 @@
+import {
+  Inject,
+  Injectable,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { LessThan, Repository } from 'typeorm';
+import { Logger } from 'winston';
+import { WINSTON_MODULE_PROVIDER } from 'nest-winston';
+import { OrderService } from './order.service';
+import { Order, OrderStatus } from './entities/order.entity';
+
+// Stale orders looked at per sweep, the rest wait for the next one
+const SWEEP_BATCH_SIZE = 100;
+
+export type ExpirySweepSummary = {
+  checked: number;
+  paid: number;
+  failed: number;
+  expired: number;
+  // Settled elsewhere while the sweep ran, e.g. by a late webhook
+  skipped: number;
+  // The provider could not be asked, the order stays pending for now
+  errors: number;
+};
+
+// Buyers who close the checkout page leave their order pending and its
+// stock held. Every ORDER_EXPIRY_SWEEP_INTERVAL_MINUTES this settles the
+// orders that have been pending for longer than ORDER_PAYMENT_TTL_MINUTES.
+@Injectable()
+export class OrderExpiryService implements OnModuleInit, OnModuleDestroy {
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<ExpirySweepSummary> | null = null;
+
+  constructor(
+    @InjectRepository(Order)
+    private orderRepository: Repository<Order>,
+    @Inject(WINSTON_MODULE_PROVIDER) private readonly logger: Logger,
+    private orderService: OrderService,
+    private config: ConfigService,
+  ) {}
+
+  onModuleInit(): void {
+    const intervalMinutes = Number(
+      this.config.get('ORDER_EXPIRY_SWEEP_INTERVAL_MINUTES') ?? 5,
+    );
+    // 0 turns the schedule off, the admin trigger still works
+    if (intervalMinutes > 0) {
+      this.timer = setInterval(
+        () =>
+          void this.sweep().catch((error) =>
+            this.logger.error('Stale order sweep failed', { error }),
+          ),
+        intervalMinutes * 60 * 1000,
+      );
+      this.timer.unref();
+    }
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // A sweep that is already running is joined rather than started twice
+  async sweep(): Promise<ExpirySweepSummary> {
+    this.running ??= this.runSweep().finally(() => {
+      this.running = null;
+    });
+    return await this.running;
+  }
+
+  private async runSweep(): Promise<ExpirySweepSummary> {
+    const ttlMinutes = Number(
+      this.config.get('ORDER_PAYMENT_TTL_MINUTES') || 60,
+    );
+    const stale = await this.orderRepository.find({
+      where: {
+        status: OrderStatus.PENDING,
+        createdAt: LessThan(new Date(Date.now() - ttlMinutes * 60 * 1000)),
+      },
+      order: { createdAt: 'ASC' },
+      take: SWEEP_BATCH_SIZE,
+      loadEagerRelations: false,
+    });
+
+    const summary: ExpirySweepSummary = {
+      checked: stale.length,
+      paid: 0,
+      failed: 0,
+      expired: 0,
+      skipped: 0,
+      errors: 0,
+    };
+
+    for (const order of stale) {
+      try {
+        const status = await this.orderService.settleStaleOrder(order.txRef);
+        switch (status) {
+          case OrderStatus.PAID:
+            summary.paid++;
+            break;
+          case OrderStatus.FAILED:
+            summary.failed++;
+            break;
+          case OrderStatus.EXPIRED:
+            summary.expired++;
+            break;
+          default:
+            summary.skipped++;
+        }
+      } catch (error) {
+        summary.errors++;
+        this.logger.warn('Could not settle stale order', {
+          orderId: order.id,
+          txRef: order.txRef,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    this.logger.info('Stale order sweep finished', { ttlMinutes, ...summary });
+    return summary;
+  }
+}
@@ -0,0 +1,106 @@
+import { OrderStatus } from './entities/order.entity';
+import { OrderActor } from './entities/order-status-event.entity';
+
+// Work that runs in the same transaction as the status change
+export enum TransitionEffect {
+  // Units held for the pending order go back to other buyers
+  RELEASE_RESERVATION = 'release_reservation',
+  // Units already taken out of stock are put back on the shelf
+  RESTOCK = 'restock',
+  // The buyer gets the payment back
+  REFUND = 'refund',
+}
+
+export type OrderTransition = {
+  from: OrderStatus;
+  to: OrderStatus;
+  actors: OrderActor[];
+  effects: TransitionEffect[];
+};
+
+// SELLER only stands for the seller of every line, see OrderService.actorsFor
+const STAFF = [OrderActor.SELLER, OrderActor.ADMIN];
+
+// Every legal status change. Anything not listed here is rejected.
+// PENDING -> PAID takes the stock itself (see verifyPayment), since it has to
+// decide between PAID and FAILED while the rows are locked.
+export const ORDER_TRANSITIONS: OrderTransition[] = [
+  {
+    from: OrderStatus.PENDING,
+    to: OrderStatus.PAID,
+    actors: [OrderActor.SYSTEM],
+    effects: [],
+  },
+  {
+    from: OrderStatus.PENDING,
+    to: OrderStatus.FAILED,
+    actors: [OrderActor.SYSTEM],
+    effects: [TransitionEffect.RELEASE_RESERVATION],
+  },
+  // The buyer never finished paying, see OrderExpiryService
+  {
+    from: OrderStatus.PENDING,
+    to: OrderStatus.EXPIRED,
+    actors: [OrderActor.SYSTEM],
+    effects: [TransitionEffect.RELEASE_RESERVATION],
+  },
+  {
+    from: OrderStatus.PENDING,
+    to: OrderStatus.CANCELLED,
+    actors: [OrderActor.BUYER, ...STAFF],
+    effects: [TransitionEffect.RELEASE_RESERVATION],
+  },
+  {
+    from: OrderStatus.PAID,
+    to: OrderStatus.PROCESSING,
+    actors: STAFF,
+    effects: [],
+  },
+  // Buyers can back out until the seller starts working on the order
+  {
+    from: OrderStatus.PAID,
+    to: OrderStatus.CANCELLED,
+    actors: [OrderActor.BUYER, ...STAFF],
+    effects: [TransitionEffect.RESTOCK, TransitionEffect.REFUND],
+  },
+  {
+    from: OrderStatus.PROCESSING,
+    to: OrderStatus.SHIPPED,
+    actors: STAFF,
+    effects: [],
+  },
+  {
+    from: OrderStatus.PROCESSING,
+    to: OrderStatus.CANCELLED,
+    actors: STAFF,
+    effects: [TransitionEffect.RESTOCK, TransitionEffect.REFUND],
+  },
+  {
+    from: OrderStatus.SHIPPED,
+    to: OrderStatus.DELIVERED,
+    actors: STAFF,
+    effects: [],
+  },
+  // The goods are with the buyer, so returned units are restocked by hand
+  {
+    from: OrderStatus.DELIVERED,
+    to: OrderStatus.REFUNDED,
+    actors: STAFF,
+    effects: [TransitionEffect.REFUND],
+  },
+];
+
+export function findTransition(
+  from: OrderStatus,
+  to: OrderStatus,
+): OrderTransition | undefined {
+  return ORDER_TRANSITIONS.find(
+    (transition) => transition.from === from && transition.to === to,
+  );
+}
+
+export function nextStatuses(from: OrderStatus): OrderStatus[] {
+  return ORDER_TRANSITIONS.filter((transition) => transition.from === from).map(
+    (transition) => transition.to,
+  );
+}
@@ -2,15 +2,15 @@ import {
   Body,
   Controller,
   Get,
-  Headers,
   HttpCode,
   HttpStatus,
   Param,
   Patch,
   Post,
   Query,
+  RawBodyRequest,
   Req,
-  BadRequestException,
+  StreamableFile,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -18,17 +18,39 @@ import {
   ApiResponse,
   ApiBody,
   ApiBearerAuth,
+  ApiSecurity,
   ApiParam,
   ApiQuery,
+  ApiProduces,
 } from '@nestjs/swagger';
 import { OrderService } from './order.service';
-import { GetCurrentUser, NoAuth } from '../common/decorators';
+import { ApiKeyScope } from '../auth/entities';
+import {
+  ApiKeyScopes,
+  GetCurrentUser,
+  NoAuth,
+  RequireVerifiedEmail,
+  Roles,
+} from '../common/decorators';
 import { userReq } from '../common/types';
 import { Order, OrderStatus } from './entities/order.entity';
-import * as crypto from 'crypto';
-import { ConfigService } from '@nestjs/config';
 import { CreateOrderDto } from './dto/create-order.dto';
 import { UpdateOrderStatusDto } from './dto/update-order-status.dto';
+import { OrderDetailsDto } from './dto/order-details.dto';
+import { CancelOrderDto } from './dto/cancel-order.dto';
+import { CreateRefundDto } from './dto/create-refund.dto';
+import { ResolveRefundDto } from './dto/resolve-refund.dto';
+import { RefundService } from './refund.service';
+import { Refund } from './entities/refund.entity';
+import { WebhookEvent } from './entities/webhook-event.entity';
+import { WebhookEventQueryDto } from './dto/webhook-event-query.dto';
+import { PaymentWebhookService } from './payment-webhook.service';
+import { ExpirySweepSummary, OrderExpiryService } from './order-expiry.service';
+import { ReconciliationService } from './reconciliation.service';
+import { ReconciliationRun } from './entities/reconciliation-run.entity';
+import { ReconciliationQueryDto } from './dto/reconciliation-query.dto';
+import { Role } from '../user/entities/user.entity';
+import { Paginated, PaginationQueryDto } from '../common/dto';
 import { Request } from 'express';
 
 @ApiTags('orders')
@@ -36,10 +58,14 @@ import { Request } from 'express';
 export class OrderController {
   constructor(
     private orderService: OrderService,
-    private config: ConfigService,
+    private webhookService: PaymentWebhookService,
+    private expiryService: OrderExpiryService,
+    private reconciliationService: ReconciliationService,
+    private refundService: RefundService,
   ) {}
 
   @ApiBearerAuth('JWT-auth')
+  @RequireVerifiedEmail()
   @Post()
   @HttpCode(HttpStatus.CREATED)
   @ApiOperation({ summary: 'Create a new order' })
@@ -69,6 +95,10 @@ export class OrderController {
     status: 401,
     description: 'Unauthorized',
   })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - email not verified',
+  })
   @ApiResponse({
     status: 404,
     description: 'Product not found',
@@ -80,40 +110,349 @@ export class OrderController {
     return await this.orderService.createOrder(dto, user.userId);
   }
 
+  @ApiBearerAuth('JWT-auth')
+  @RequireVerifiedEmail()
+  @Post('/checkout')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Order everything in the cart',
+    description:
+      'Creates one order with a line per cart item and a single payment. The cart is emptied once the payment is started.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Order created and checkout URL generated',
+    schema: {
+      type: 'object',
+      properties: {
+        checkoutUrl: {
+          type: 'string',
+          example: 'https://checkout.chapa.co/checkout/...',
+        },
+        txRef: {
+          type: 'string',
+          example: 'TX-1234567890',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Bad request - empty cart, unavailable items or insufficient stock',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - email not verified',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Prices changed since the items were added to the cart',
+  })
+  async checkout(
+    @GetCurrentUser() user: userReq,
+  ): Promise<{ checkoutUrl: string; txRef: string }> {
+    return await this.orderService.checkout(user.userId);
+  }
+
   @NoAuth()
   @Post('/verify')
   @HttpCode(HttpStatus.OK)
-  @ApiOperation({ summary: 'Verify payment webhook from Chapa' })
+  @ApiOperation({
+    summary: 'Payment webhook',
+    description:
+      'Called by the payment provider. Every call is stored, then its signature is checked over the raw request body; the header depends on the provider (`x-chapa-signature` for Chapa). Events that were already processed are skipped, others are verified with the provider by their tx_ref.',
+  })
   @ApiResponse({
     status: 200,
-    description: 'Payment verified successfully',
+    description: 'Webhook handled, returns the stored event',
+    type: WebhookEvent,
   })
   @ApiResponse({
     status: 400,
     description: 'Invalid signature or payment verification failed',
   })
   async verifyPayment(
-    @Req() req: Request,
-    @Headers('x-chapa-signature') chapaSignature: string,
-  ) {
-    try {
-      // Validate the webhook signature
-      const hash = crypto
-        .createHmac('sha256', this.config.get<string>('CHAPA_WEBHOOK_SECRET'))
-        .update(JSON.stringify(req['body']))
-        .digest('hex');
+    @Req() req: RawBodyRequest<Request>,
+  ): Promise<WebhookEvent> {
+    return await this.webhookService.receive(
+      req.rawBody ?? Buffer.alloc(0),
+      req.headers,
+    );
+  }
+
+  @ApiBearerAuth('JWT-auth')
+  @Roles(Role.ADMIN)
+  @Get('/webhooks')
+  @ApiOperation({
+    summary: 'List received payment webhooks (admin only)',
+    description: 'Newest first and paginated.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Webhook events page retrieved successfully',
+    type: [WebhookEvent],
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - admin role required',
+  })
+  async getWebhookEvents(
+    @Query() query: WebhookEventQueryDto,
+  ): Promise<Paginated<WebhookEvent>> {
+    return await this.webhookService.getEvents(query);
+  }
+
+  @ApiBearerAuth('JWT-auth')
+  @Roles(Role.ADMIN)
+  @Post('/webhooks/:webhookEventId/replay')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Replay a stored payment webhook (admin only)',
+    description:
+      'Checks the stored body and headers again and verifies the payment with the provider, even when the event was processed before.',
+  })
+  @ApiParam({
+    name: 'webhookEventId',
+    description: 'Webhook event ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Webhook handled, returns the updated event',
+    type: WebhookEvent,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid signature or payment verification failed',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - admin role required',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Webhook event not found',
+  })
+  async replayWebhookEvent(
+    @Param('webhookEventId') webhookEventId: string,
+  ): Promise<WebhookEvent> {
+    return await this.webhookService.replay(webhookEventId);
+  }
+
+  @ApiBearerAuth('JWT-auth')
+  @Roles(Role.ADMIN)
+  @Post('/expiry/sweep')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Settle stale pending orders now (admin only)',
+    description:
+      'Runs the scheduled sweep right away: every order pending for longer than `ORDER_PAYMENT_TTL_MINUTES` is checked with the payment provider and marked paid, failed or expired, releasing its held stock.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Sweep finished, returns how many orders ended up where',
+    schema: {
+      type: 'object',
+      properties: {
+        checked: { type: 'number', example: 4 },
+        paid: { type: 'number', example: 1 },
+        failed: { type: 'number', example: 0 },
+        expired: { type: 'number', example: 2 },
+        skipped: { type: 'number', example: 0 },
+        errors: { type: 'number', example: 1 },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - admin role required',
+  })
+  async sweepStaleOrders(): Promise<ExpirySweepSummary> {
+    return await this.expiryService.sweep();
+  }
+
+  @ApiBearerAuth('JWT-auth')
+  @Roles(Role.ADMIN)
+  @Get('/refunds/unresolved')
+  @ApiOperation({
+    summary: 'List refunds waiting to be resolved (admin only)',
+    description:
+      'Refunds that are `processing` or `unknown`, oldest first: the provider never settled them or never answered. Check each with the provider and record the outcome through the resolve endpoint.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'A page of refunds',
+    type: [Refund],
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - admin role required',
+  })
+  async getUnresolvedRefunds(
+    @Query() query: PaginationQueryDto,
+  ): Promise<Paginated<Refund>> {
+    return await this.refundService.getUnresolved(query);
+  }
+
+  @ApiBearerAuth('JWT-auth')
+  @Roles(Role.ADMIN)
+  @Post('/reconciliation')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Start reconciling orders with the payment provider (admin only)',
+    description:
+      'Stores a run for every order created in the range (at most 31 days) and verifies their payments with the provider in the background. Poll the run for its status and the mismatches found: `paid_but_pending`, `paid_but_failed`, `paid_but_cancelled`, `failed_but_successful`, `amount_mismatch` and `verify_error`.',
+  })
+  @ApiBody({ type: ReconciliationQueryDto })
+  @ApiResponse({
+    status: 202,
+    description: 'Run started',
+    type: ReconciliationRun,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - invalid or too long date range',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - admin role required',
+  })
+  async startReconciliation(
+    @GetCurrentUser() user: userReq,
+    @Body() dto: ReconciliationQueryDto,
+  ): Promise<ReconciliationRun> {
+    return await this.reconciliationService.start(dto, user.userId);
+  }
 
-      if (hash !== chapaSignature) {
-        throw new BadRequestException('Invalid Chapa signature');
-      }
+  @ApiBearerAuth('JWT-auth')
+  @Roles(Role.ADMIN)
+  @Get('/reconciliation')
+  @ApiOperation({
+    summary: 'List reconciliation runs (admin only)',
+    description: 'Newest first and paginated, without their mismatches.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Reconciliation runs page retrieved successfully',
+    type: [ReconciliationRun],
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - admin role required',
+  })
+  async getReconciliationRuns(
+    @Query() query: PaginationQueryDto,
+  ): Promise<Paginated<ReconciliationRun>> {
+    return await this.reconciliationService.getRuns(query);
+  }
 
-      const { tx_ref } = req['body'];
+  @ApiBearerAuth('JWT-auth')
+  @Roles(Role.ADMIN)
+  @Get('/reconciliation/:runId')
+  @ApiOperation({
+    summary: 'Get a reconciliation run and its mismatches (admin only)',
+  })
+  @ApiParam({
+    name: 'runId',
+    description: 'Reconciliation run ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Reconciliation run retrieved successfully',
+    type: ReconciliationRun,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - admin role required',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Reconciliation run not found',
+  })
+  async getReconciliationRun(
+    @Param('runId') runId: string,
+  ): Promise<ReconciliationRun> {
+    return await this.reconciliationService.getRun(runId);
+  }
 
-      return await this.orderService.verifyPayment(tx_ref);
-    } catch (err) {
-      console.error('Webhook verification error:', err);
-      throw err;
-    }
+  @ApiBearerAuth('JWT-auth')
+  @Roles(Role.ADMIN)
+  @Get('/reconciliation/:runId/export')
+  @ApiOperation({
+    summary:
+      'Download the mismatches of a reconciliation run as CSV (admin only)',
+    description: 'One row per stored mismatch, once the run has finished.',
+  })
+  @ApiParam({
+    name: 'runId',
+    description: 'Reconciliation run ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiProduces('text/csv')
+  @ApiResponse({
+    status: 200,
+    description: 'CSV file',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - admin role required',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Reconciliation run not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'The run is still running',
+  })
+  async exportReconciliation(
+    @Param('runId') runId: string,
+  ): Promise<StreamableFile> {
+    return new StreamableFile(
+      await this.reconciliationService.exportCsv(runId),
+      {
+        type: 'text/csv',
+        disposition: 'attachment; filename="reconciliation.csv"',
+      },
+    );
   }
 
   @ApiBearerAuth('JWT-auth')
@@ -142,6 +481,8 @@ export class OrderController {
   }
 
   @ApiBearerAuth('JWT-auth')
+  @ApiSecurity('api-key')
+  @ApiKeyScopes(ApiKeyScope.ORDERS_READ)
   @Get('/my-products')
   @ApiOperation({
     summary: 'Get orders for products owned by current user',
@@ -169,8 +510,14 @@ export class OrderController {
   }
 
   @ApiBearerAuth('JWT-auth')
+  @ApiSecurity('api-key')
+  @ApiKeyScopes(ApiKeyScope.ORDERS_READ)
   @Get('/:orderId')
-  @ApiOperation({ summary: 'Get order by ID' })
+  @ApiOperation({
+    summary: 'Get order by ID',
+    description:
+      'Includes the status history: every status change, oldest first, with who made it and why.',
+  })
   @ApiParam({
     name: 'orderId',
     description: 'Order ID',
@@ -179,7 +526,7 @@ export class OrderController {
   @ApiResponse({
     status: 200,
     description: 'Order retrieved successfully',
-    type: Order,
+    type: OrderDetailsDto,
   })
   @ApiResponse({
     status: 401,
@@ -187,7 +534,7 @@ export class OrderController {
   })
   @ApiResponse({
     status: 403,
-    description: 'Forbidden - not the buyer or product owner',
+    description: 'Forbidden - not the buyer or a seller in the order',
   })
   @ApiResponse({
     status: 404,
@@ -196,7 +543,7 @@ export class OrderController {
   async getOrderById(
     @GetCurrentUser() user: userReq,
     @Param('orderId') orderId: string,
-  ): Promise<Order> {
+  ): Promise<OrderDetailsDto> {
     return await this.orderService.getOrderById(orderId, user.userId);
   }
 
@@ -204,7 +551,10 @@ export class OrderController {
   @Patch('/:orderId/status')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
-    summary: 'Update order status (product owner only)',
+    summary:
+      'Move an order to its next status (the seller of every line, or admin)',
+    description:
+      'paid -> processing -> shipped -> delivered. Pending, paid and processing orders can be cancelled (paid ones are restocked and refunded), delivered ones refunded. Payment verification alone moves pending orders to paid or failed. Buyers cancel through POST /orders/:orderId/cancel.',
   })
   @ApiParam({
     name: 'orderId',
@@ -227,17 +577,255 @@ export class OrderController {
   })
   @ApiResponse({
     status: 403,
-    description: 'Forbidden - not the product owner',
+    description:
+      'Forbidden - not the only seller in the order, or a transition reserved for someone else',
   })
   @ApiResponse({
     status: 404,
     description: 'Order not found',
   })
+  @ApiResponse({
+    status: 409,
+    description:
+      'The order cannot move from its current status to the requested one',
+  })
   async updateOrderStatus(
     @GetCurrentUser() user: userReq,
     @Param('orderId') orderId: string,
     @Body() dto: UpdateOrderStatusDto,
   ): Promise<Order> {
-    return await this.orderService.updateOrderStatus(orderId, user.userId, dto);
+    return await this.orderService.updateOrderStatus(orderId, user, dto);
+  }
+
+  @ApiBearerAuth('JWT-auth')
+  @Post('/:orderId/cancel')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Cancel your own order',
+    description:
+      'Pending orders can be cancelled and their held stock is released. Paid orders can be cancelled until the seller starts processing them: the units go back in stock and each seller is asked to refund their share.',
+  })
+  @ApiParam({
+    name: 'orderId',
+    description: 'Order ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiBody({ type: CancelOrderDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Order cancelled successfully',
+    type: Order,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - validation error',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - not the buyer of the order',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Order not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'The order is past the point where it can be cancelled',
+  })
+  async cancelOrder(
+    @GetCurrentUser() user: userReq,
+    @Param('orderId') orderId: string,
+    @Body() dto: CancelOrderDto,
+  ): Promise<Order> {
+    return await this.orderService.cancelOrder(orderId, user.userId, dto);
+  }
+
+  @ApiBearerAuth('JWT-auth')
+  @Post('/:orderId/refunds')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary:
+      'Refund an order in full or in part (sellers in the order or admin)',
+    description:
+      'The refund is sent through the payment provider right away. Refunds never add up to more than the order total, and a seller refunds no more than their own lines came to. A refund the provider refuses is returned with status `failed` and can be retried.',
+  })
+  @ApiParam({
+    name: 'orderId',
+    description: 'Order ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiBody({ type: CreateRefundDto })
+  @ApiResponse({
+    status: 201,
+    description: 'Refund issued',
+    type: Refund,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Bad request - validation error, or more than what is left to refund of the order or the seller lines',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - not a seller in the order',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Order not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'The order was never paid',
+  })
+  async refundOrder(
+    @GetCurrentUser() user: userReq,
+    @Param('orderId') orderId: string,
+    @Body() dto: CreateRefundDto,
+  ): Promise<Refund> {
+    return await this.orderService.refundOrder(orderId, user, dto);
+  }
+
+  @ApiBearerAuth('JWT-auth')
+  @Get('/:orderId/refunds')
+  @ApiOperation({ summary: 'List the refunds of an order, oldest first' })
+  @ApiParam({
+    name: 'orderId',
+    description: 'Order ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Refunds retrieved successfully',
+    type: [Refund],
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - not the buyer or a seller in the order',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Order not found',
+  })
+  async getRefunds(
+    @GetCurrentUser() user: userReq,
+    @Param('orderId') orderId: string,
+  ): Promise<Refund[]> {
+    return await this.orderService.getRefunds(orderId, user);
+  }
+
+  @ApiBearerAuth('JWT-auth')
+  @Post('/:orderId/refunds/:refundId/retry')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Send a failed refund to the payment provider again',
+  })
+  @ApiParam({
+    name: 'orderId',
+    description: 'Order ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiParam({
+    name: 'refundId',
+    description: 'Refund ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Refund sent again',
+    type: Refund,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Other refunds have taken up what was left to refund',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description:
+      'Forbidden - not a seller in the order, or a seller retrying a refund of someone else',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Order or refund not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'The refund has not failed',
+  })
+  async retryRefund(
+    @GetCurrentUser() user: userReq,
+    @Param('orderId') orderId: string,
+    @Param('refundId') refundId: string,
+  ): Promise<Refund> {
+    return await this.orderService.retryRefund(orderId, refundId, user);
+  }
+
+  @ApiBearerAuth('JWT-auth')
+  @Roles(Role.ADMIN)
+  @Post('/:orderId/refunds/:refundId/resolve')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Record the outcome of an unsettled refund (admin only)',
+    description:
+      'For a `processing` or `unknown` refund, after checking with the payment provider whether the money was sent. A succeeded one counts towards the refunded amount of the order, a failed one can be retried.',
+  })
+  @ApiParam({
+    name: 'orderId',
+    description: 'Order ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiParam({
+    name: 'refundId',
+    description: 'Refund ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiBody({ type: ResolveRefundDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Refund resolved',
+    type: Refund,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - validation error',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - admin role required',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Refund not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description:
+      'The refund is not processing or unknown, or is still being sent',
+  })
+  async resolveRefund(
+    @Param('orderId') orderId: string,
+    @Param('refundId') refundId: string,
+    @Body() dto: ResolveRefundDto,
+  ): Promise<Refund> {
+    return await this.refundService.resolve(orderId, refundId, dto);
   }
 }
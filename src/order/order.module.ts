@@ -1,27 +1,52 @@
 import { Module } from '@nestjs/common';
 import { OrderController } from './order.controller';
 import { OrderService } from './order.service';
-import { ConfigModule, ConfigService } from '@nestjs/config';
 import { TypeOrmModule } from '@nestjs/typeorm';
-import { ChapaModule } from 'chapa-nestjs';
 import { Product } from 'src/product/entities/product.entity';
 import { Order } from './entities/order.entity';
+import { OrderStatusEvent } from './entities/order-status-event.entity';
+import { Refund } from './entities/refund.entity';
+import { WebhookEvent } from './entities/webhook-event.entity';
+import { ReconciliationRun } from './entities/reconciliation-run.entity';
+import { ReconciliationMismatch } from './entities/reconciliation-mismatch.entity';
+import { RefundService } from './refund.service';
+import { RefundSweepService } from './refund-sweep.service';
+import { PaymentWebhookService } from './payment-webhook.service';
+import { OrderExpiryService } from './order-expiry.service';
+import { ReconciliationService } from './reconciliation.service';
 import { UserModule } from 'src/user/user.module';
+import { ProductModule } from 'src/product/product.module';
 import { User } from 'src/user/entities/user.entity';
+import { CartModule } from 'src/cart/cart.module';
+import { MailModule } from 'src/mail/mail.module';
+import { PaymentModule } from 'src/payment/payment.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Order, Product, User]),
-    ChapaModule.registerAsync({
-      imports: [ConfigModule],
-      useFactory: async (configService: ConfigService) => ({
-        secretKey: configService.get<string>('CHAPA_TEST_SECRET_KEY'),
-      }),
-      inject: [ConfigService],
-    }),
+    TypeOrmModule.forFeature([
+      Order,
+      OrderStatusEvent,
+      Refund,
+      WebhookEvent,
+      ReconciliationRun,
+      ReconciliationMismatch,
+      Product,
+      User,
+    ]),
     UserModule,
+    ProductModule,
+    CartModule,
+    MailModule,
+    PaymentModule,
   ],
   controllers: [OrderController],
-  providers: [OrderService],
+  providers: [
+    OrderService,
+    RefundService,
+    RefundSweepService,
+    PaymentWebhookService,
+    OrderExpiryService,
+    ReconciliationService,
+  ],
 })
 export class OrderModule {}
@@ -1,18 +1,1074 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { DataSource, FindOperator } from 'typeorm';
+import { WINSTON_MODULE_PROVIDER } from 'nest-winston';
+import { randomUUID } from 'crypto';
 import { OrderService } from './order.service';
+import { Order, OrderStatus } from './entities/order.entity';
+import { OrderItem } from './entities/order-item.entity';
+import { Refund, RefundStatus } from './entities/refund.entity';
+import { RefundService } from './refund.service';
+import { RefundSweepService } from './refund-sweep.service';
+import {
+  OrderActor,
+  OrderStatusEvent,
+} from './entities/order-status-event.entity';
+import { Product, ProductStatus } from '../product/entities/product.entity';
+import { ProductVariant } from '../product/entities/product-variant.entity';
+import {
+  StockMovement,
+  StockMovementReason,
+} from '../product/entities/stock-movement.entity';
+import { Role, User } from '../user/entities/user.entity';
+import { StockLedgerService } from '../product/stock-ledger.service';
+import { StockReservationService } from '../product/stock-reservation.service';
+import { CartService } from '../cart/cart.service';
+import { MailService } from '../mail/mail.service';
+import {
+  PAYMENT_PROVIDER,
+  PaymentStatus,
+  RefundRefusedError,
+} from '../payment/providers';
+import { userReq } from '../common/types';
+
+type Row = { id: string; [column: string]: any };
+type EntityClass = new () => any;
+
+// Column defaults Postgres fills in for a new row
+const COLUMN_DEFAULTS = new Map<EntityClass, object>([
+  [Order, { refundedAmount: 0, paidAt: null }],
+  [Refund, { createdAt: new Date(), updatedAt: new Date() }],
+]);
+
+// Plain values and the few operators the services use
+const matches = (value: unknown, expected: unknown) =>
+  expected instanceof FindOperator && expected.type === 'lessThan'
+    ? value < expected.value
+    : value === expected;
+
+// Like TypeORM, reads through a manager skip soft-deleted rows
+const live = (row: Row) => !row.deletedAt;
+
+// Lets every other pending promise run, so parallel calls interleave
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+// In-memory stand-in for Postgres: reads return copies, writes land on
+// commit, and a pessimistic_write read waits until the transaction holding
+// that row has finished, like SELECT ... FOR UPDATE. It models the locks the
+// service asks for, nothing more: isolation levels, lock ordering, deadlocks
+// and the SQL TypeORM generates are never exercised here.
+class FakeDatabase {
+  private tables = new Map<EntityClass, Map<string, Row>>();
+  private locks = new Map<string, Promise<void>>();
+
+  table(entity: EntityClass): Map<string, Row> {
+    if (!this.tables.has(entity)) {
+      this.tables.set(entity, new Map());
+    }
+    return this.tables.get(entity);
+  }
+
+  insert<T>(entity: new () => T, row: Partial<T>): T {
+    const saved = Object.assign(new entity(), {
+      id: randomUUID(),
+      ...COLUMN_DEFAULTS.get(entity),
+      ...row,
+    });
+    this.table(entity).set(saved.id, saved);
+    return this.copy(saved);
+  }
+
+  rows<T>(entity: new () => T): T[] {
+    return [...this.table(entity).values()] as T[];
+  }
+
+  find(entity: EntityClass, where: object): Row | undefined {
+    return this.filter(entity, where)[0];
+  }
+
+  filter(entity: EntityClass, where: object): Row[] {
+    return [...this.table(entity).values()].filter((row) =>
+      Object.entries(where).every(([key, value]) => matches(row[key], value)),
+    );
+  }
+
+  copy<T>(row: T): T {
+    return row && Object.assign(Object.create(Object.getPrototypeOf(row)), row);
+  }
+
+  async transaction<T>(work: (manager: any) => Promise<T>): Promise<T> {
+    const held: (() => void)[] = [];
+    const writes: (() => void)[] = [];
+
+    const manager = {
+      findOne: async (
+        entity: EntityClass,
+        {
+          where,
+          lock,
+        }: { where: object; lock?: object; loadEagerRelations?: boolean },
+      ) => {
+        await tick();
+        const row = this.filter(entity, where).find(live);
+        if (lock && row) {
+          await this.lock(entity, row.id, held);
+        }
+        return this.copy(this.filter(entity, where).find(live)) ?? null;
+      },
+      findOneBy: (entity: EntityClass, where: object) =>
+        manager.findOne(entity, { where }),
+      create: (entity: EntityClass, data: object) =>
+        Object.assign(new entity(), data),
+      find: async (entity: EntityClass, { where }: { where: object }) => {
+        await tick();
+        return this.filter(entity, where)
+          .filter(live)
+          .map((row) => this.copy(row));
+      },
+      save: async (row: Row) => {
+        await tick();
+        if (!row.id) {
+          row.id = randomUUID();
+          Object.assign(row, {
+            ...COLUMN_DEFAULTS.get(row.constructor as EntityClass),
+            ...row,
+          });
+        }
+        const saved = this.copy(row);
+        // Order lines are saved with their order, like the cascade does
+        const items: Row[] = row instanceof Order ? (row.items ?? []) : [];
+        items.forEach((item) => {
+          item.id ??= randomUUID();
+          item.orderId = row.id;
+        });
+        writes.push(() => {
+          this.table(row.constructor as any).set(row.id, saved);
+          items.forEach((item) =>
+            this.table(OrderItem).set(
+              item.id,
+              Object.assign(new OrderItem(), item),
+            ),
+          );
+        });
+        return row;
+      },
+      insert: async (entity: EntityClass, rows: object | object[]) => {
+        writes.push(() =>
+          [rows]
+            .flat()
+            .forEach((row) => this.insert(entity, row as Partial<Row>)),
+        );
+      },
+    };
+
+    try {
+      const result = await work(manager);
+      writes.forEach((write) => write());
+      return result;
+    } finally {
+      held.forEach((release) => release());
+    }
+  }
+
+  private async lock(entity: EntityClass, id: string, held: (() => void)[]) {
+    const key = `${entity.name}:${id}`;
+    while (this.locks.has(key)) {
+      await this.locks.get(key);
+    }
+    let release: () => void;
+    this.locks.set(
+      key,
+      new Promise((resolve) => {
+        release = () => {
+          this.locks.delete(key);
+          resolve();
+        };
+      }),
+    );
+    held.push(release);
+  }
+}
 
 describe('OrderService', () => {
   let service: OrderService;
+  let refunds: RefundService;
+  let refundSweep: RefundSweepService;
+  let db: FakeDatabase;
+  let holds: {
+    orderId: string;
+    productId: string;
+    variantId: string | null;
+    quantity: number;
+    active: boolean;
+  }[];
+
+  const buyer = { id: randomUUID(), firstName: 'Abebe', lastName: 'Kebede' };
+
+  const payments = {
+    initialize: jest.fn(async () => {
+      await tick();
+      return { checkoutUrl: 'https://checkout.example/pay' };
+    }),
+    verify: jest.fn(async (txRef: string) => {
+      await tick();
+      return { txRef, status: PaymentStatus.SUCCESS };
+    }),
+    refund: jest.fn(async () => ({
+      status: PaymentStatus.SUCCESS,
+      reference: `refund-${randomUUID()}`,
+    })),
+  };
+
+  const stockReservations = {
+    getReserved: jest.fn(async (productId: string, excludeOrderId?: string) => {
+      const active = holds.filter(
+        (hold) =>
+          hold.active &&
+          hold.productId === productId &&
+          hold.orderId !== excludeOrderId,
+      );
+      const byVariant = new Map<string, number>();
+      active
+        .filter((hold) => hold.variantId)
+        .forEach((hold) =>
+          byVariant.set(
+            hold.variantId,
+            (byVariant.get(hold.variantId) ?? 0) + hold.quantity,
+          ),
+        );
+      return {
+        total: active.reduce((total, hold) => total + hold.quantity, 0),
+        byVariant,
+      };
+    }),
+    reserve: jest.fn(async (_manager, hold) => {
+      holds.push({ ...hold, active: true });
+    }),
+    consume: jest.fn(async (_manager, orderId: string) => {
+      holds
+        .filter((hold) => hold.orderId === orderId)
+        .forEach((hold) => (hold.active = false));
+    }),
+    release: jest.fn(async (orderId: string) => {
+      holds
+        .filter((hold) => hold.orderId === orderId)
+        .forEach((hold) => (hold.active = false));
+    }),
+  };
+
+  const orderRepository = {
+    create: jest.fn((data) => Object.assign(new Order(), data)),
+    findOne: jest.fn(async ({ where }) => {
+      const order = db.copy(db.find(Order, where) as Order);
+      order.items = db.filter(OrderItem, { orderId: order.id }).map((item) =>
+        Object.assign(db.copy(item as OrderItem), {
+          product: db.copy(db.find(Product, { id: item.productId })),
+        }),
+      );
+      return order;
+    }),
+    update: jest.fn(async ({ id }, changes) => {
+      Object.assign(db.find(Order, { id }), changes);
+    }),
+  };
+
+  const productRepository = {
+    findOne: jest.fn(async ({ where }) => {
+      const product = db.copy(db.find(Product, where) as Product);
+      product.variants = db
+        .rows(ProductVariant)
+        .filter((variant) => variant.productId === product.id)
+        .map((variant) => db.copy(variant));
+      return product;
+    }),
+  };
+
+  const cartService = {
+    getCheckoutItems: jest.fn(),
+    removeItems: jest.fn(),
+  };
+
+  const mailService = { send: jest.fn() };
+  const findUsers = jest.fn(async () => []);
+
+  const seedProduct = (stock: number, variantStocks: number[] = []) => {
+    const product = db.insert(Product, {
+      title: 'Coffee beans',
+      price: 12,
+      stock,
+      status: ProductStatus.ACTIVE,
+      userId: randomUUID(),
+    });
+    const variants = variantStocks.map((variantStock, index) =>
+      db.insert(ProductVariant, {
+        productId: product.id,
+        sku: `BEANS-${index}`,
+        stock: variantStock,
+      }),
+    );
+    return { product, variants };
+  };
+
+  const seedLines = (
+    lines: { productId: string; quantity: number; variantId?: string }[],
+    status = OrderStatus.PENDING,
+  ) => {
+    const order = db.insert(Order, {
+      userId: buyer.id,
+      totalPrice: lines.reduce((total, line) => total + 12 * line.quantity, 0),
+      txRef: `tx-${randomUUID()}`,
+      status,
+      refundedAmount: 0,
+      paidAt: status === OrderStatus.PENDING ? null : new Date(),
+    });
+    lines.forEach((line) =>
+      db.insert(OrderItem, {
+        orderId: order.id,
+        variantId: null,
+        ...line,
+        unitPrice: 12,
+        totalPrice: 12 * line.quantity,
+      }),
+    );
+    return order;
+  };
+
+  const seedOrder = (product: Product, quantity = 1, variantId = null) =>
+    seedLines([{ productId: product.id, quantity, variantId }]);
 
   beforeEach(async () => {
+    db = new FakeDatabase();
+    holds = [];
+    jest.clearAllMocks();
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [OrderService],
+      providers: [
+        OrderService,
+        RefundService,
+        RefundSweepService,
+        StockLedgerService,
+        { provide: getRepositoryToken(Order), useValue: orderRepository },
+        {
+          provide: getRepositoryToken(OrderStatusEvent),
+          useValue: {
+            find: jest.fn(async ({ where }) =>
+              db.filter(OrderStatusEvent, where).map((row) => db.copy(row)),
+            ),
+          },
+        },
+        {
+          provide: getRepositoryToken(Refund),
+          useValue: {
+            find: jest.fn(async ({ where }) =>
+              db.filter(Refund, where).map((row) => db.copy(row)),
+            ),
+          },
+        },
+        { provide: getRepositoryToken(Product), useValue: productRepository },
+        {
+          provide: getRepositoryToken(User),
+          useValue: { findOne: jest.fn(async () => buyer), find: findUsers },
+        },
+        { provide: getRepositoryToken(StockMovement), useValue: {} },
+        { provide: StockReservationService, useValue: stockReservations },
+        { provide: CartService, useValue: cartService },
+        { provide: MailService, useValue: mailService },
+        { provide: PAYMENT_PROVIDER, useValue: payments },
+        { provide: ConfigService, useValue: { get: () => undefined } },
+        {
+          provide: DataSource,
+          useValue: { transaction: (work) => db.transaction(work) },
+        },
+        {
+          provide: WINSTON_MODULE_PROVIDER,
+          useValue: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+        },
+      ],
     }).compile();
 
     service = module.get<OrderService>(OrderService);
+    refunds = module.get<RefundService>(RefundService);
+    refundSweep = module.get<RefundSweepService>(RefundSweepService);
   });
 
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('multi-item orders', () => {
+    it('checks out the cart as one order and one payment', async () => {
+      const { product: beans } = seedProduct(5);
+      const { product: mugs } = seedProduct(5);
+      cartService.getCheckoutItems.mockResolvedValueOnce([
+        { id: 'item-1', productId: beans.id, variantId: null, quantity: 2 },
+        { id: 'item-2', productId: mugs.id, variantId: null, quantity: 1 },
+      ]);
+
+      await service.checkout(buyer.id);
+
+      expect(db.rows(Order)).toHaveLength(1);
+      expect(db.rows(OrderItem)).toHaveLength(2);
+      expect(holds).toHaveLength(2);
+      expect(payments.initialize).toHaveBeenCalledTimes(1);
+      expect(payments.initialize).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 36, currency: 'ETB' }),
+      );
+      expect(cartService.removeItems).toHaveBeenCalledWith(buyer.id, [
+        'item-1',
+        'item-2',
+      ]);
+    });
+
+    it('takes the stock of every line when the payment is verified', async () => {
+      const { product: beans } = seedProduct(3);
+      const { product: shirt, variants } = seedProduct(4, [2, 2]);
+      const order = seedLines([
+        { productId: beans.id, quantity: 2 },
+        { productId: shirt.id, quantity: 1, variantId: variants[1].id },
+      ]);
+
+      await service.verifyPayment(order.txRef);
+
+      expect(db.find(Product, { id: beans.id }).stock).toBe(1);
+      expect(db.find(Product, { id: shirt.id }).stock).toBe(3);
+      expect(db.rows(ProductVariant).map(({ stock }) => stock)).toEqual([2, 1]);
+      expect(db.rows(StockMovement)).toHaveLength(2);
+    });
+
+    it('takes nothing when one line is short of stock', async () => {
+      const { product: beans } = seedProduct(5);
+      const { product: mugs } = seedProduct(1);
+      const order = seedLines([
+        { productId: beans.id, quantity: 3 },
+        { productId: mugs.id, quantity: 2 },
+      ]);
+
+      await expect(service.verifyPayment(order.txRef)).rejects.toBeInstanceOf(
+        BadRequestException,
+      );
+
+      expect(db.find(Product, { id: beans.id }).stock).toBe(5);
+      expect(db.find(Order, { id: order.id }).status).toBe(OrderStatus.FAILED);
+      expect(db.rows(StockMovement)).toHaveLength(0);
+    });
+  });
+
+  describe('status transitions', () => {
+    const sellerOf = (product: Product) =>
+      ({ userId: product.userId, role: Role.SELLER }) as userReq;
+
+    it('moves a paid order forward and refuses to move it back', async () => {
+      const { product } = seedProduct(5);
+      const order = seedLines(
+        [{ productId: product.id, quantity: 1 }],
+        OrderStatus.PAID,
+      );
+
+      const processing = await service.updateOrderStatus(
+        order.id,
+        sellerOf(product),
+        { status: OrderStatus.PROCESSING },
+      );
+
+      expect(processing.status).toBe(OrderStatus.PROCESSING);
+      await expect(
+        service.updateOrderStatus(order.id, sellerOf(product), {
+          status: OrderStatus.PENDING,
+        }),
+      ).rejects.toBeInstanceOf(ConflictException);
+    });
+
+    it('keeps a timeline of who moved the order and why', async () => {
+      const { product } = seedProduct(5);
+      cartService.getCheckoutItems.mockResolvedValueOnce([
+        { productId: product.id, variantId: null, quantity: 1 },
+      ]);
+      const { txRef } = await service.checkout(buyer.id);
+      const order = db.find(Order, { txRef });
+
+      await service.verifyPayment(txRef);
+      await service.updateOrderStatus(order.id, sellerOf(product), {
+        status: OrderStatus.PROCESSING,
+        note: 'Packing today',
+      });
+
+      const { statusHistory } = await service.getOrderById(order.id, buyer.id);
+      expect(statusHistory).toEqual([
+        expect.objectContaining({
+          fromStatus: null,
+          toStatus: OrderStatus.PENDING,
+          actor: OrderActor.BUYER,
+          actorId: buyer.id,
+        }),
+        expect.objectContaining({
+          fromStatus: OrderStatus.PENDING,
+          toStatus: OrderStatus.PAID,
+          actor: OrderActor.SYSTEM,
+          actorId: null,
+        }),
+        expect.objectContaining({
+          fromStatus: OrderStatus.PAID,
+          toStatus: OrderStatus.PROCESSING,
+          actor: OrderActor.SELLER,
+          actorId: product.userId,
+          note: 'Packing today',
+        }),
+      ]);
+    });
+
+    it('fails the order and frees its hold when the payment failed', async () => {
+      const { product } = seedProduct(5);
+      cartService.getCheckoutItems.mockResolvedValueOnce([
+        { productId: product.id, variantId: null, quantity: 1 },
+      ]);
+      const { txRef } = await service.checkout(buyer.id);
+      payments.verify.mockResolvedValueOnce({
+        txRef,
+        status: PaymentStatus.FAILED,
+      });
+
+      await expect(service.verifyPayment(txRef)).rejects.toBeInstanceOf(
+        BadRequestException,
+      );
+      expect(db.find(Order, { txRef }).status).toBe(OrderStatus.FAILED);
+      expect(holds.every((hold) => !hold.active)).toBe(true);
+    });
+
+    it('leaves payment outcomes to payment verification', async () => {
+      const { product } = seedProduct(5);
+      const order = seedOrder(product);
+
+      await expect(
+        service.updateOrderStatus(order.id, sellerOf(product), {
+          status: OrderStatus.PAID,
+        }),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      expect(db.find(Order, { id: order.id }).status).toBe(OrderStatus.PENDING);
+    });
+
+    it('leaves orders shared with other sellers to admins', async () => {
+      const { product } = seedProduct(5);
+      const { product: other } = seedProduct(5);
+      const order = seedLines(
+        [
+          { productId: product.id, quantity: 1 },
+          { productId: other.id, quantity: 1 },
+        ],
+        OrderStatus.PAID,
+      );
+
+      for (const status of [OrderStatus.PROCESSING, OrderStatus.CANCELLED]) {
+        await expect(
+          service.updateOrderStatus(order.id, sellerOf(product), { status }),
+        ).rejects.toThrow(
+          "Only an admin can update an order with other sellers' products",
+        );
+      }
+      expect(db.find(Order, { id: order.id }).status).toBe(OrderStatus.PAID);
+
+      const admin = { userId: randomUUID(), role: Role.ADMIN } as userReq;
+      const processing = await service.updateOrderStatus(order.id, admin, {
+        status: OrderStatus.PROCESSING,
+      });
+      expect(processing.status).toBe(OrderStatus.PROCESSING);
+    });
+
+    it('restocks a cancelled paid order', async () => {
+      const { product } = seedProduct(3);
+      const order = seedLines(
+        [{ productId: product.id, quantity: 2 }],
+        OrderStatus.PAID,
+      );
+
+      await service.updateOrderStatus(order.id, sellerOf(product), {
+        status: OrderStatus.CANCELLED,
+      });
+
+      expect(db.find(Product, { id: product.id }).stock).toBe(5);
+      expect(db.rows(StockMovement)).toEqual([
+        expect.objectContaining({
+          delta: 2,
+          reason: StockMovementReason.REFUND,
+        }),
+      ]);
+    });
+
+    it('leaves the stock of a removed variant alone and notes it', async () => {
+      const { product, variants } = seedProduct(4, [2, 2]);
+      const order = seedLines(
+        [
+          { productId: product.id, variantId: variants[0].id, quantity: 1 },
+          { productId: product.id, variantId: variants[1].id, quantity: 1 },
+        ],
+        OrderStatus.PAID,
+      );
+      // The seller removed the first variant and its stock with it
+      db.table(ProductVariant).get(variants[0].id).deletedAt = new Date();
+      db.table(Product).get(product.id).stock = 2;
+
+      await service.updateOrderStatus(order.id, sellerOf(product), {
+        status: OrderStatus.CANCELLED,
+      });
+
+      expect(db.find(Product, { id: product.id }).stock).toBe(3);
+      expect(db.find(ProductVariant, { id: variants[1].id }).stock).toBe(3);
+      expect(db.find(ProductVariant, { id: variants[0].id }).stock).toBe(2);
+      expect(db.rows(StockMovement)).toEqual([
+        expect.objectContaining({
+          variantId: variants[0].id,
+          delta: 0,
+          reason: StockMovementReason.RESTOCK_SKIPPED,
+        }),
+        expect.objectContaining({
+          variantId: variants[1].id,
+          delta: 1,
+          reason: StockMovementReason.REFUND,
+        }),
+      ]);
+    });
+  });
+
+  describe('stale orders', () => {
+    it('expires an order that is still unpaid and frees its hold', async () => {
+      const { product } = seedProduct(5);
+      cartService.getCheckoutItems.mockResolvedValueOnce([
+        { productId: product.id, variantId: null, quantity: 2 },
+      ]);
+      const { txRef } = await service.checkout(buyer.id);
+      payments.verify.mockResolvedValueOnce({
+        txRef,
+        status: PaymentStatus.PENDING,
+      });
+
+      expect(await service.settleStaleOrder(txRef)).toBe(OrderStatus.EXPIRED);
+      expect(holds.every((hold) => !hold.active)).toBe(true);
+      expect(db.find(Product, { id: product.id }).stock).toBe(5);
+      expect(db.rows(OrderStatusEvent)).toContainEqual(
+        expect.objectContaining({
+          toStatus: OrderStatus.EXPIRED,
+          actor: OrderActor.SYSTEM,
+        }),
+      );
+    });
+
+    it('still applies a payment that went through', async () => {
+      const { product } = seedProduct(5);
+      cartService.getCheckoutItems.mockResolvedValueOnce([
+        { productId: product.id, variantId: null, quantity: 2 },
+      ]);
+      const { txRef } = await service.checkout(buyer.id);
+
+      expect(await service.settleStaleOrder(txRef)).toBe(OrderStatus.PAID);
+      expect(db.find(Product, { id: product.id }).stock).toBe(3);
+    });
+  });
+
+  describe('buyer cancellation', () => {
+    it('releases the hold of a pending order', async () => {
+      const { product } = seedProduct(5);
+      cartService.getCheckoutItems.mockResolvedValueOnce([
+        { productId: product.id, variantId: null, quantity: 2 },
+      ]);
+      const { txRef } = await service.checkout(buyer.id);
+      const order = db.find(Order, { txRef });
+
+      const cancelled = await service.cancelOrder(order.id, buyer.id, {
+        reason: 'Changed my mind',
+      });
+
+      expect(cancelled.status).toBe(OrderStatus.CANCELLED);
+      expect(holds.every((hold) => !hold.active)).toBe(true);
+      expect(db.find(Product, { id: product.id }).stock).toBe(5);
+      expect(mailService.send).not.toHaveBeenCalled();
+      expect(db.rows(OrderStatusEvent)).toContainEqual(
+        expect.objectContaining({
+          toStatus: OrderStatus.CANCELLED,
+          actor: OrderActor.BUYER,
+          note: 'Changed my mind',
+        }),
+      );
+    });
+
+    it('restocks and refunds a paid order and tells the seller', async () => {
+      const { product } = seedProduct(3);
+      const order = seedLines(
+        [{ productId: product.id, quantity: 2 }],
+        OrderStatus.PAID,
+      );
+      findUsers.mockResolvedValueOnce([
+        { id: product.userId, email: 'seller@example.com', firstName: 'Sara' },
+      ]);
+
+      await service.cancelOrder(order.id, buyer.id, {
+        reason: 'Ordered the wrong size',
+      });
+
+      expect(db.find(Product, { id: product.id }).stock).toBe(5);
+      expect(payments.refund).toHaveBeenCalledWith(
+        expect.objectContaining({ txRef: order.txRef, amount: 24 }),
+      );
+      expect(db.find(Order, { id: order.id }).refundedAmount).toBe(24);
+      expect(mailService.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: 'seller@example.com',
+          text: expect.stringContaining('came to 24.00 ETB'),
+        }),
+      );
+    });
+
+    it('refunds a payment that arrives after the order was cancelled', async () => {
+      const { product } = seedProduct(5);
+      cartService.getCheckoutItems.mockResolvedValueOnce([
+        { productId: product.id, variantId: null, quantity: 2 },
+      ]);
+      const { txRef } = await service.checkout(buyer.id);
+      const order = db.find(Order, { txRef });
+      await service.cancelOrder(order.id, buyer.id, {
+        reason: 'Changed my mind',
+      });
+
+      await expect(service.verifyPayment(txRef)).rejects.toBeInstanceOf(
+        BadRequestException,
+      );
+
+      expect(db.find(Order, { txRef })).toMatchObject({
+        status: OrderStatus.CANCELLED,
+        refundedAmount: 24,
+      });
+      expect(payments.refund).toHaveBeenCalledWith(
+        expect.objectContaining({ txRef, amount: 24 }),
+      );
+      expect(db.find(Product, { id: product.id }).stock).toBe(5);
+
+      // A redelivered webhook does not refund the payment twice
+      await service.verifyPayment(txRef);
+      expect(payments.refund).toHaveBeenCalledTimes(1);
+    });
+
+    it('refuses orders in progress and orders of someone else', async () => {
+      const { product } = seedProduct(5);
+      const order = seedLines(
+        [{ productId: product.id, quantity: 1 }],
+        OrderStatus.PROCESSING,
+      );
+
+      await expect(
+        service.cancelOrder(order.id, buyer.id, { reason: 'Too slow' }),
+      ).rejects.toBeInstanceOf(ConflictException);
+      await expect(
+        service.cancelOrder(order.id, product.userId, { reason: 'Too slow' }),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      expect(db.find(Order, { id: order.id }).status).toBe(
+        OrderStatus.PROCESSING,
+      );
+    });
+  });
+
+  describe('refunds', () => {
+    const sellerOf = (product: Product) =>
+      ({ userId: product.userId, role: Role.SELLER }) as userReq;
+
+    it('refunds in parts up to the order total', async () => {
+      const { product } = seedProduct(5);
+      const order = seedLines(
+        [{ productId: product.id, quantity: 3 }],
+        OrderStatus.DELIVERED,
+      );
+
+      const refund = await service.refundOrder(order.id, sellerOf(product), {
+        amount: 12,
+        reason: 'One bag arrived torn',
+      });
+
+      expect(refund.status).toBe(RefundStatus.SUCCEEDED);
+      expect(db.find(Order, { id: order.id }).refundedAmount).toBe(12);
+      await expect(
+        service.refundOrder(order.id, sellerOf(product), {
+          amount: 24.01,
+          reason: 'Too much',
+        }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+
+      await service.updateOrderStatus(order.id, sellerOf(product), {
+        status: OrderStatus.REFUNDED,
+      });
+      expect(payments.refund).toHaveBeenLastCalledWith(
+        expect.objectContaining({ amount: 24 }),
+      );
+      expect(db.find(Order, { id: order.id }).refundedAmount).toBe(36);
+    });
+
+    it('holds a seller to their own lines of a shared order', async () => {
+      const { product } = seedProduct(5);
+      const { product: other } = seedProduct(5);
+      const order = seedLines(
+        [
+          { productId: product.id, quantity: 1 },
+          { productId: other.id, quantity: 2 },
+        ],
+        OrderStatus.DELIVERED,
+      );
+
+      await expect(
+        service.refundOrder(order.id, sellerOf(product), {
+          amount: 36,
+          reason: 'Everything arrived broken',
+        }),
+      ).rejects.toThrow('Only 12.00 of your lines can still be refunded');
+
+      await service.refundOrder(order.id, sellerOf(product), {
+        amount: 5,
+        reason: 'Dented bag',
+      });
+      // Leaving out the amount refunds what is left of the seller's lines
+      const rest = await service.refundOrder(order.id, sellerOf(product), {
+        reason: 'Took the bag back',
+      });
+      expect(rest.amount).toBe(7);
+      await expect(
+        service.refundOrder(order.id, sellerOf(product), {
+          amount: 1,
+          reason: 'Once more',
+        }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+
+      const admin = { userId: randomUUID(), role: Role.ADMIN } as userReq;
+      await service.refundOrder(order.id, admin, { reason: 'Goodwill' });
+      expect(db.find(Order, { id: order.id }).refundedAmount).toBe(36);
+    });
+
+    it('refunds the whole payment when the stock ran out', async () => {
+      const { product } = seedProduct(1);
+      const order = seedOrder(product, 2);
+
+      await expect(service.verifyPayment(order.txRef)).rejects.toThrow(
+        'The payment has been refunded',
+      );
+      expect(db.rows(Refund)).toEqual([
+        expect.objectContaining({
+          amount: 24,
+          status: RefundStatus.SUCCEEDED,
+          requestedById: null,
+        }),
+      ]);
+    });
+
+    it('refuses orders that were never paid', async () => {
+      const { product } = seedProduct(5);
+      const order = seedOrder(product, 1);
+      await service.cancelOrder(order.id, buyer.id, { reason: 'Changed mind' });
+
+      await expect(
+        service.refundOrder(order.id, sellerOf(product), {
+          reason: 'Goodwill',
+        }),
+      ).rejects.toBeInstanceOf(ConflictException);
+      expect(payments.refund).not.toHaveBeenCalled();
+      expect(db.rows(Refund)).toEqual([]);
+    });
+
+    it('keeps a refused refund as failed until it is retried', async () => {
+      const { product } = seedProduct(5);
+      const order = seedLines(
+        [{ productId: product.id, quantity: 1 }],
+        OrderStatus.PAID,
+      );
+      payments.refund.mockRejectedValueOnce(
+        new RefundRefusedError('Insufficient balance'),
+      );
+
+      const failed = await service.refundOrder(order.id, sellerOf(product), {
+        reason: 'Out of season',
+      });
+      expect(failed).toMatchObject({
+        status: RefundStatus.FAILED,
+        failureReason: 'Insufficient balance',
+      });
+      expect(db.find(Order, { id: order.id }).refundedAmount).toBe(0);
+
+      const retried = await service.retryRefund(
+        order.id,
+        failed.id,
+        sellerOf(product),
+      );
+      expect(retried.status).toBe(RefundStatus.SUCCEEDED);
+      expect(db.find(Order, { id: order.id }).refundedAmount).toBe(12);
+    });
+
+    it('never resends a refund whose call broke off without an answer', async () => {
+      const { product } = seedProduct(5);
+      const order = seedLines(
+        [{ productId: product.id, quantity: 1 }],
+        OrderStatus.PAID,
+      );
+      payments.refund.mockRejectedValueOnce(
+        new DOMException('The operation timed out', 'TimeoutError'),
+      );
+
+      const unknown = await service.refundOrder(order.id, sellerOf(product), {
+        reason: 'Out of season',
+      });
+      expect(unknown.status).toBe(RefundStatus.UNKNOWN);
+      expect(payments.refund).toHaveBeenCalledWith(
+        expect.objectContaining({ signal: expect.any(AbortSignal) }),
+      );
+
+      await expect(
+        service.retryRefund(order.id, unknown.id, sellerOf(product)),
+      ).rejects.toBeInstanceOf(ConflictException);
+      // Nothing is left to refund until someone settles it by hand
+      await expect(
+        service.refundOrder(order.id, sellerOf(product), {
+          reason: 'Out of season',
+        }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(payments.refund).toHaveBeenCalledTimes(1);
+    });
+
+    it('settles an unknown refund once an admin has checked it', async () => {
+      const { product } = seedProduct(5);
+      const order = seedLines(
+        [{ productId: product.id, quantity: 1 }],
+        OrderStatus.PAID,
+      );
+      payments.refund.mockRejectedValueOnce(
+        new DOMException('The operation timed out', 'TimeoutError'),
+      );
+      const unknown = await service.refundOrder(order.id, sellerOf(product), {
+        reason: 'Out of season',
+      });
+
+      const resolved = await refunds.resolve(order.id, unknown.id, {
+        status: RefundStatus.SUCCEEDED,
+        providerReference: 'CHREF-1',
+      });
+
+      expect(resolved).toMatchObject({
+        status: RefundStatus.SUCCEEDED,
+        providerReference: 'CHREF-1',
+        failureReason: null,
+      });
+      expect(db.find(Order, { id: order.id }).refundedAmount).toBe(12);
+      await expect(
+        refunds.resolve(order.id, unknown.id, {
+          status: RefundStatus.FAILED,
+        }),
+      ).rejects.toBeInstanceOf(ConflictException);
+      expect(payments.refund).toHaveBeenCalledTimes(1);
+    });
+
+    it('sends refunds that were recorded but never sent', async () => {
+      const { product } = seedProduct(5);
+      const order = seedLines(
+        [{ productId: product.id, quantity: 2 }],
+        OrderStatus.CANCELLED,
+      );
+      // The process stopped between recording the refund and sending it
+      const stale = db.insert(Refund, {
+        orderId: order.id,
+        amount: 24,
+        reason: 'Order cancelled',
+        status: RefundStatus.PENDING,
+        createdAt: new Date(Date.now() - 10 * 60 * 1000),
+      });
+      // Its own request is about to send this one
+      const fresh = db.insert(Refund, {
+        orderId: seedOrder(product).id,
+        amount: 12,
+        reason: 'Order cancelled',
+        status: RefundStatus.PENDING,
+      });
+
+      expect(await refundSweep.sweep()).toEqual({
+        checked: 1,
+        sent: 1,
+        errors: 0,
+      });
+      expect(db.find(Refund, { id: stale.id }).status).toBe(
+        RefundStatus.SUCCEEDED,
+      );
+      expect(db.find(Refund, { id: fresh.id }).status).toBe(
+        RefundStatus.PENDING,
+      );
+      expect(db.find(Order, { id: order.id }).refundedAmount).toBe(24);
+    });
+  });
+
+  // These check that the service takes the right locks in the right order
+  // against FakeDatabase. They do not cover Postgres' own locking; a change
+  // to lock modes or queries still needs a run against a real database.
+  describe('concurrency', () => {
+    it('decrements stock once when a webhook is delivered many times at once', async () => {
+      const { product } = seedProduct(10);
+      const order = seedOrder(product, 2);
+
+      const results = await Promise.allSettled(
+        Array.from({ length: 25 }, () => service.verifyPayment(order.txRef)),
+      );
+
+      expect(results.every(({ status }) => status === 'fulfilled')).toBe(true);
+      expect(db.find(Product, { id: product.id }).stock).toBe(8);
+      expect(db.find(Order, { id: order.id }).status).toBe(OrderStatus.PAID);
+      expect(db.rows(StockMovement)).toHaveLength(1);
+    });
+
+    it('never sells more than the stock when payments race', async () => {
+      const { product } = seedProduct(5);
+      const orders = Array.from({ length: 12 }, () => seedOrder(product));
+
+      const results = await Promise.allSettled(
+        orders.map((order) => service.verifyPayment(order.txRef)),
+      );
+
+      const rejected = results.filter(({ status }) => status === 'rejected');
+      expect(rejected).toHaveLength(7);
+      rejected.forEach((result: PromiseRejectedResult) =>
+        expect(result.reason).toBeInstanceOf(BadRequestException),
+      );
+      expect(db.find(Product, { id: product.id })).toMatchObject({
+        stock: 0,
+        status: ProductStatus.OUT_OF_STOCK,
+      });
+      expect(
+        db.rows(Order).filter(({ status }) => status === OrderStatus.FAILED),
+      ).toHaveLength(7);
+      expect(db.rows(StockMovement)).toHaveLength(5);
+    });
+
+    it('keeps the product total in step when different variants sell at once', async () => {
+      const { product, variants } = seedProduct(6, [3, 3]);
+      const orders = variants.flatMap((variant) =>
+        Array.from({ length: 3 }, () => seedOrder(product, 1, variant.id)),
+      );
+
+      await Promise.all(
+        orders.map((order) => service.verifyPayment(order.txRef)),
+      );
+
+      expect(db.find(Product, { id: product.id }).stock).toBe(0);
+      expect(db.rows(ProductVariant).map(({ stock }) => stock)).toEqual([0, 0]);
+    });
+
+    it('lets only one buyer reserve the last unit', async () => {
+      const { product } = seedProduct(1);
+
+      const results = await Promise.allSettled(
+        Array.from({ length: 10 }, () =>
+          service.createOrder({ productId: product.id, quantity: 1 }, buyer.id),
+        ),
+      );
+
+      expect(
+        results.filter(({ status }) => status === 'fulfilled'),
+      ).toHaveLength(1);
+      expect(db.rows(Order)).toHaveLength(1);
+      expect(holds).toHaveLength(1);
+    });
+  });
 });
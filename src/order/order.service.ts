@@ -1,22 +1,93 @@
 import {
+  HttpException,
   Injectable,
   NotFoundException,
   BadRequestException,
   ForbiddenException,
   InternalServerErrorException,
+  ConflictException,
   Inject,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { DataSource, EntityManager, In, Repository } from 'typeorm';
 import { Order, OrderStatus } from './entities/order.entity';
+import { OrderItem } from './entities/order-item.entity';
 import { Product, ProductStatus } from '../product/entities/product.entity';
-import { User } from '../user/entities/user.entity';
+import { ProductVariant } from '../product/entities/product-variant.entity';
+import { StockMovementReason } from '../product/entities/stock-movement.entity';
+import { StockLedgerService } from '../product/stock-ledger.service';
+import { StockReservationService } from '../product/stock-reservation.service';
+import { stockStatus } from '../product/product-stock-status';
+import { Role, User } from '../user/entities/user.entity';
+import { CartService } from '../cart/cart.service';
+import { MailService } from '../mail/mail.service';
+import {
+  PAYMENT_PROVIDER,
+  PaymentProvider,
+  PaymentStatus,
+  PaymentVerification,
+} from '../payment/providers';
 import { Logger } from 'winston';
 import { WINSTON_MODULE_PROVIDER } from 'nest-winston';
-import { ChapaService } from 'chapa-nestjs';
+import { randomBytes } from 'crypto';
 import { ConfigService } from '@nestjs/config';
 import { CreateOrderDto } from './dto/create-order.dto';
 import { UpdateOrderStatusDto } from './dto/update-order-status.dto';
+import { CancelOrderDto } from './dto/cancel-order.dto';
+import { CreateRefundDto } from './dto/create-refund.dto';
+import { Refund, RefundStatus } from './entities/refund.entity';
+import { RefundLimit, RefundService } from './refund.service';
+import {
+  OrderActor,
+  OrderStatusEvent,
+} from './entities/order-status-event.entity';
+import { OrderDetailsDto } from './dto/order-details.dto';
+import {
+  TransitionEffect,
+  findTransition,
+  nextStatuses,
+} from './order-lifecycle';
+import { userReq } from '../common/types';
+
+// A product (or one of its variants) and how many of it to order
+type OrderLine = {
+  productId: string;
+  variantId?: string | null;
+  quantity: number;
+};
+
+type PaymentOutcome =
+  | { result: 'already_processed'; orderId: string }
+  | { result: 'closed_before_payment'; orderId: string }
+  | {
+      result: 'insufficient_stock';
+      orderId: string;
+      item: OrderItem;
+      availableStock: number;
+    }
+  | { result: 'completed'; orderId: string };
+
+// Who asks for a status change, in which roles, and why
+type StatusChange = {
+  actors: OrderActor[];
+  actorId: string | null;
+  note?: string | null;
+};
+
+const bySystem = (note: string): StatusChange => ({
+  actors: [OrderActor.SYSTEM],
+  actorId: null,
+  note,
+});
+
+const ORDER_RELATIONS = ['items', 'items.product', 'items.variant', 'user'];
+
+// Where a pending order ends up without being paid
+const CLOSED_BEFORE_PAYMENT = [
+  OrderStatus.CANCELLED,
+  OrderStatus.EXPIRED,
+  OrderStatus.FAILED,
+];
 
 @Injectable()
 export class OrderService {
@@ -27,74 +98,584 @@ export class OrderService {
     private productRepository: Repository<Product>,
     @InjectRepository(User)
     private userRepository: Repository<User>,
+    @InjectRepository(OrderStatusEvent)
+    private statusEventRepository: Repository<OrderStatusEvent>,
     @Inject(WINSTON_MODULE_PROVIDER) private readonly logger: Logger,
-    private chapa: ChapaService,
+    @Inject(PAYMENT_PROVIDER) private payments: PaymentProvider,
     private config: ConfigService,
+    private stockLedger: StockLedgerService,
+    private stockReservations: StockReservationService,
+    private cartService: CartService,
+    private mailService: MailService,
+    private refunds: RefundService,
+    private dataSource: DataSource,
   ) {}
 
   async createOrder(
     dto: CreateOrderDto,
     userId: string,
   ): Promise<{ checkoutUrl: string; txRef: string }> {
-    const user = await this.userRepository.findOne({
-      where: { id: userId },
+    return await this.placeOrder(userId, [dto]);
+  }
+
+  // Orders everything in the user's cart in one order and one payment
+  async checkout(
+    userId: string,
+  ): Promise<{ checkoutUrl: string; txRef: string }> {
+    const items = await this.cartService.getCheckoutItems(userId);
+    const result = await this.placeOrder(userId, items);
+
+    // Only a started payment takes the ordered lines out of the cart, so a
+    // failed checkout can simply be retried
+    await this.cartService.removeItems(
+      userId,
+      items.map(({ id }) => id),
+    );
+
+    return result;
+  }
+
+  async verifyPayment(txRef: string): Promise<Order> {
+    return await this.applyPayment(txRef, await this.payments.verify(txRef));
+  }
+
+  // Settles a pending order whose payment window has passed. The provider
+  // is asked once more, so a payment that did go through is still applied;
+  // one that is still open expires. Returns the resulting status.
+  async settleStaleOrder(txRef: string): Promise<OrderStatus | null> {
+    const payment = await this.payments.verify(txRef);
+
+    switch (payment.status) {
+      case PaymentStatus.SUCCESS:
+        return (await this.applyPayment(txRef, payment)).status;
+      case PaymentStatus.FAILED:
+        return await this.closePendingOrder(
+          txRef,
+          OrderStatus.FAILED,
+          'Payment failed',
+        );
+      case PaymentStatus.PENDING:
+        return await this.closePendingOrder(
+          txRef,
+          OrderStatus.EXPIRED,
+          'Not paid in time',
+        );
+    }
+  }
+
+  private async applyPayment(
+    txRef: string,
+    payment: PaymentVerification,
+  ): Promise<Order> {
+    if (payment.status !== PaymentStatus.SUCCESS) {
+      this.logger.warn('Payment verification failed', {
+        txRef,
+        status: payment.status,
+      });
+      if (payment.status === PaymentStatus.FAILED) {
+        await this.closePendingOrder(
+          txRef,
+          OrderStatus.FAILED,
+          'Payment failed',
+        );
+      }
+      throw new BadRequestException('Payment verification failed');
+    }
+
+    let outcome: PaymentOutcome;
+    try {
+      outcome = await this.dataSource.transaction((manager) =>
+        this.completePayment(manager, payment.txRef),
+      );
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      this.logger.error('Failed to update order and product', {
+        txRef,
+        error,
+      });
+      throw new InternalServerErrorException(
+        'Failed to complete order verification',
+      );
+    }
+
+    const order = await this.orderRepository.findOne({
+      where: { id: outcome.orderId },
+      relations: ORDER_RELATIONS,
     });
 
-    if (!user) {
-      throw new NotFoundException('User not found');
+    switch (outcome.result) {
+      case 'already_processed':
+        this.logger.info('Order already processed', {
+          txRef,
+          currentStatus: order.status,
+        });
+        return order;
+      case 'closed_before_payment': {
+        this.logger.warn('Payment arrived for a closed order', {
+          orderId: order.id,
+          txRef,
+          status: order.status,
+        });
+        const [refund] = await this.refunds.processPending(order.id);
+        throw new BadRequestException(
+          refund?.status === RefundStatus.SUCCEEDED
+            ? `The order was ${order.status} before the payment arrived. The payment has been refunded.`
+            : `The order was ${order.status} before the payment arrived. Payment will be refunded.`,
+        );
+      }
+      case 'insufficient_stock':
+        this.logger.warn('Insufficient stock during verification', {
+          orderId: order.id,
+          txRef,
+          productId: outcome.item.productId,
+          variantId: outcome.item.variantId,
+          requiredStock: outcome.item.quantity,
+          availableStock: outcome.availableStock,
+        });
+        const [refund] = await this.refunds.processPending(order.id);
+        throw new BadRequestException(
+          refund?.status === RefundStatus.SUCCEEDED
+            ? 'Insufficient stock to complete order. The payment has been refunded.'
+            : 'Insufficient stock to complete order. Payment will be refunded.',
+        );
+      case 'completed':
+        this.logger.info('Order verified and completed successfully', {
+          orderId: order.id,
+          txRef,
+          itemCount: order.items.length,
+        });
+        return order;
     }
-    const product = await this.productRepository.findOne({
-      where: { id: dto.productId },
+  }
+
+  async getMyOrders(userId: string, status?: OrderStatus): Promise<Order[]> {
+    const whereCondition: any = { userId };
+    if (status) {
+      whereCondition.status = status;
+    }
+
+    return await this.orderRepository.find({
+      where: whereCondition,
+      order: { createdAt: 'DESC' },
+      relations: ORDER_RELATIONS,
     });
+  }
 
-    if (!product) {
-      this.logger.warn('Product not found for order', {
-        productId: dto.productId,
+  async getOrderById(
+    orderId: string,
+    userId: string,
+  ): Promise<OrderDetailsDto> {
+    const order = await this.orderRepository.findOne({
+      where: { id: orderId },
+      relations: ORDER_RELATIONS,
+    });
+
+    if (!order) {
+      this.logger.warn('Order not found', { orderId });
+      throw new NotFoundException('Order not found');
+    }
+
+    // Check if user is either the buyer or sells one of the ordered products
+    if (order.userId !== userId && !this.sellsIn(order, userId)) {
+      this.logger.warn('User not authorized to access order', {
+        orderId,
         userId,
+        orderUserId: order.userId,
       });
-      throw new NotFoundException('Product not found');
+      throw new ForbiddenException('You do not have access to this order');
     }
 
-    if (product.status === ProductStatus.DELETED) {
-      this.logger.warn('Attempted to order deleted product', {
-        productId: dto.productId,
-        userId,
+    const statusHistory = await this.statusEventRepository.find({
+      where: { orderId },
+      order: { createdAt: 'ASC' },
+    });
+    return Object.assign(order, { statusHistory });
+  }
+
+  async getOrdersForMyProducts(
+    userId: string,
+    status?: OrderStatus,
+  ): Promise<Order[]> {
+    // The inner joins keep orders with at least one line of the seller's
+    // products, the selected joins bring back every line of those orders
+    const queryBuilder = this.orderRepository
+      .createQueryBuilder('order')
+      .innerJoin('order.items', 'ownItem')
+      .innerJoin('ownItem.product', 'ownProduct')
+      .leftJoinAndSelect('order.items', 'item')
+      .leftJoinAndSelect('item.product', 'product')
+      .leftJoinAndSelect('item.variant', 'variant')
+      .leftJoinAndSelect('order.user', 'user')
+      .where('ownProduct.userId = :userId', { userId });
+
+    if (status) {
+      queryBuilder.andWhere('order.status = :status', { status });
+    }
+
+    queryBuilder.orderBy('order.createdAt', 'DESC');
+
+    return await queryBuilder.getMany();
+  }
+
+  async updateOrderStatus(
+    orderId: string,
+    user: userReq,
+    dto: UpdateOrderStatusDto,
+  ): Promise<Order> {
+    const order = await this.orderRepository.findOne({
+      where: { id: orderId },
+      relations: ['items', 'items.product'],
+    });
+
+    if (!order) {
+      this.logger.warn('Order not found for status update', { orderId });
+      throw new NotFoundException('Order not found');
+    }
+
+    // Which transitions the caller may perform is up to the lifecycle table
+    const actors = this.actorsFor(order, user);
+    if (actors.length === 0) {
+      this.logger.warn('User not authorized to update order status', {
+        orderId,
+        userId: user.userId,
       });
-      throw new BadRequestException('Product is no longer available');
+      throw new ForbiddenException(
+        this.sellsIn(order, user.userId)
+          ? "Only an admin can update an order with other sellers' products"
+          : 'You do not have access to this order',
+      );
     }
 
-    if (product.status !== ProductStatus.ACTIVE) {
-      this.logger.warn('Attempted to order non-active product', {
-        productId: dto.productId,
-        status: product.status,
+    const { from, updated } = await this.moveOrder(orderId, dto.status, {
+      actors,
+      actorId: user.userId,
+      note: dto.note,
+    });
+    updated.items = order.items;
+
+    this.logger.info('Order status updated successfully', {
+      orderId,
+      userId: user.userId,
+      oldStatus: from,
+      newStatus: dto.status,
+    });
+
+    return updated;
+  }
+
+  async cancelOrder(
+    orderId: string,
+    userId: string,
+    dto: CancelOrderDto,
+  ): Promise<Order> {
+    const order = await this.orderRepository.findOne({
+      where: { id: orderId },
+      relations: ['items', 'items.product'],
+    });
+
+    if (!order) {
+      this.logger.warn('Order not found for cancellation', { orderId });
+      throw new NotFoundException('Order not found');
+    }
+
+    if (order.userId !== userId) {
+      this.logger.warn('User not authorized to cancel order', {
+        orderId,
         userId,
+        orderUserId: order.userId,
       });
-      throw new BadRequestException(
-        `Product is not available for purchase (status: ${product.status})`,
+      throw new ForbiddenException('You do not have access to this order');
+    }
+
+    // Checked again under the lock, this only gives the buyer a clearer error
+    const transition = findTransition(order.status, OrderStatus.CANCELLED);
+    if (!transition?.actors.includes(OrderActor.BUYER)) {
+      throw new ConflictException(
+        `A ${order.status} order can no longer be cancelled`,
       );
     }
 
-    if (product.stock < dto.quantity) {
-      this.logger.warn('Insufficient stock for order', {
-        productId: dto.productId,
-        requestedQuantity: dto.quantity,
-        availableStock: product.stock,
-        userId,
+    const { from, updated } = await this.moveOrder(
+      orderId,
+      OrderStatus.CANCELLED,
+      { actors: [OrderActor.BUYER], actorId: userId, note: dto.reason },
+    );
+    updated.items = order.items;
+
+    this.logger.info('Order cancelled by buyer', {
+      orderId,
+      userId,
+      oldStatus: from,
+    });
+
+    if (from === OrderStatus.PAID) {
+      await this.notifySellersOfCancellation(updated, dto.reason);
+    }
+
+    return updated;
+  }
+
+  async refundOrder(
+    orderId: string,
+    user: userReq,
+    dto: CreateRefundDto,
+  ): Promise<Refund> {
+    const order = await this.findForRefund(orderId, user);
+
+    // Only money that was actually received can go back, whatever the
+    // status says: a cancelled or refunded order may never have been paid
+    if (!order.paidAt) {
+      throw new ConflictException('The order has no payment to refund');
+    }
+
+    const limit = this.refundLimit(order, user);
+    let refund: Refund;
+    try {
+      refund = await this.dataSource.transaction(async (manager) => {
+        const current = await manager.findOne(Order, {
+          where: { id: orderId },
+          lock: { mode: 'pessimistic_write' },
+          loadEagerRelations: false,
+        });
+        return await this.refunds.create(
+          manager,
+          current,
+          {
+            amount: dto.amount,
+            reason: dto.reason,
+            requestedById: user.userId,
+          },
+          limit,
+        );
+      });
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      this.logger.error('Failed to record refund', {
+        orderId,
+        userId: user.userId,
+        error,
       });
+      throw new InternalServerErrorException('Failed to refund order');
+    }
+
+    if (!refund) {
       throw new BadRequestException(
-        `Insufficient stock. Available: ${product.stock}, Requested: ${dto.quantity}`,
+        limit
+          ? 'Your lines have been refunded in full'
+          : 'The order has been refunded in full',
       );
     }
 
-    const totalPrice = Number(product.price) * dto.quantity;
+    this.logger.info('Refund issued', {
+      orderId,
+      userId: user.userId,
+      refundId: refund.id,
+      amount: refund.amount,
+    });
+
+    return await this.refunds.process(refund.id);
+  }
+
+  async getRefunds(orderId: string, user: userReq): Promise<Refund[]> {
+    const order = await this.orderRepository.findOne({
+      where: { id: orderId },
+      relations: ['items', 'items.product'],
+    });
+
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+    if (
+      this.actorsFor(order, user).length === 0 &&
+      !this.sellsIn(order, user.userId)
+    ) {
+      throw new ForbiddenException('You do not have access to this order');
+    }
+
+    return await this.refunds.getRefunds(orderId);
+  }
+
+  async retryRefund(
+    orderId: string,
+    refundId: string,
+    user: userReq,
+  ): Promise<Refund> {
+    const order = await this.findForRefund(orderId, user);
+
+    const refund = await this.refunds.retry(
+      orderId,
+      refundId,
+      this.refundLimit(order, user),
+    );
+    this.logger.info('Refund retried', {
+      orderId,
+      refundId,
+      userId: user.userId,
+      status: refund.status,
+    });
+    return refund;
+  }
+
+  // Loads an order for a seller in it or an admin, who may refund it
+  private async findForRefund(orderId: string, user: userReq): Promise<Order> {
+    const order = await this.orderRepository.findOne({
+      where: { id: orderId },
+      relations: ['items', 'items.product'],
+    });
+
+    if (!order) {
+      this.logger.warn('Order not found', { orderId });
+      throw new NotFoundException('Order not found');
+    }
+
+    if (!this.sellsIn(order, user.userId) && user.role !== Role.ADMIN) {
+      this.logger.warn('User not authorized to refund order', {
+        orderId,
+        userId: user.userId,
+      });
+      throw new ForbiddenException(
+        'Only a seller in the order or an admin can refund it',
+      );
+    }
+
+    return order;
+  }
+
+  // A seller refunds no more than their own lines came to, so an order
+  // shared with other sellers is only refunded in full by an admin
+  private refundLimit(order: Order, user: userReq): RefundLimit | undefined {
+    if (user.role === Role.ADMIN) {
+      return undefined;
+    }
+    return {
+      requestedById: user.userId,
+      amount: order.items
+        .filter((item) => item.product?.userId === user.userId)
+        .reduce((total, item) => total + Number(item.totalPrice), 0),
+    };
+  }
+
+  // Applies one transition to the order in its own transaction
+  private async moveOrder(
+    orderId: string,
+    to: OrderStatus,
+    change: StatusChange,
+  ): Promise<{ from: OrderStatus; updated: Order }> {
+    let from: OrderStatus;
+    try {
+      const updated = await this.dataSource.transaction(async (manager) => {
+        // Re-read under a lock so a concurrent update or payment cannot
+        // move the same order twice
+        const current = await manager.findOne(Order, {
+          where: { id: orderId },
+          lock: { mode: 'pessimistic_write' },
+          loadEagerRelations: false,
+        });
+        from = current.status;
+        return await this.applyTransition(manager, current, to, change);
+      });
+      // Refunds recorded by the transition go out once it has committed
+      await this.refunds.processPending(orderId);
+      return { from, updated };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      this.logger.error('Failed to update order status', {
+        orderId,
+        userId: change.actorId,
+        error,
+      });
+      throw new InternalServerErrorException('Failed to update order status');
+    }
+  }
+
+  // Tells every seller in a paid order the buyer cancelled that the units are
+  // back in stock and what their lines came to
+  private async notifySellersOfCancellation(
+    order: Order,
+    reason: string,
+  ): Promise<void> {
+    const owed = new Map<string, number>();
+    for (const item of order.items) {
+      owed.set(
+        item.product.userId,
+        (owed.get(item.product.userId) ?? 0) + Number(item.totalPrice),
+      );
+    }
+
+    const sellers = await this.userRepository.find({
+      where: { id: In([...owed.keys()]) },
+    });
+    for (const seller of sellers) {
+      await this.mailService.send({
+        to: seller.email,
+        subject: `Order ${order.id} was cancelled by the buyer`,
+        text: [
+          `Hi ${seller.firstName},`,
+          '',
+          `The buyer cancelled order ${order.id} after paying for it (payment reference ${order.txRef}).`,
+          `Your products in it came to ${owed.get(seller.id).toFixed(2)} ${this.config.get('PAYMENT_CURRENCY') || 'ETB'}. The payment goes back to the buyer and the units are back in stock.`,
+          '',
+          `Reason given by the buyer: ${reason}`,
+        ].join('\n'),
+      });
+    }
+
+    this.logger.info('Sellers notified of cancelled order', {
+      orderId: order.id,
+      sellerIds: [...owed.keys()],
+    });
+  }
+
+  private async placeOrder(
+    userId: string,
+    lines: OrderLine[],
+  ): Promise<{ checkoutUrl: string; txRef: string }> {
+    const user = await this.userRepository.findOne({
+      where: { id: userId },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const items: Pick<
+      OrderItem,
+      'productId' | 'variantId' | 'quantity' | 'unitPrice' | 'totalPrice'
+    >[] = [];
+    const descriptions: string[] = [];
+    for (const line of lines) {
+      const { product, variant } = await this.resolveLine(line, userId);
+      const unitPrice = Number(variant?.price ?? product.price);
+
+      items.push({
+        productId: product.id,
+        variantId: variant?.id ?? null,
+        quantity: line.quantity,
+        unitPrice,
+        totalPrice: unitPrice * line.quantity,
+      });
+      descriptions.push(
+        `${line.quantity} ${product.title}${variant ? ` (${variant.sku})` : ''}`,
+      );
+    }
+
+    const totalPrice = items.reduce(
+      (total, item) => total + item.totalPrice,
+      0,
+    );
 
     // Generate transaction reference
-    const txRef = await this.chapa.generateTransactionReference({ size: 20 });
+    const txRef = `TX-${randomBytes(10).toString('hex')}`;
 
     const order = this.orderRepository.create({
       userId,
-      productId: dto.productId,
-      quantity: dto.quantity,
+      items,
       totalPrice,
       txRef,
       status: OrderStatus.PENDING,
@@ -102,11 +683,64 @@ export class OrderService {
 
     let savedOrder: Order;
     try {
-      savedOrder = await this.orderRepository.save(order);
+      savedOrder = await this.dataSource.transaction(async (manager) => {
+        // Locking the product rows serializes orders for the same product,
+        // so two buyers cannot both reserve the last unit
+        const products = await this.lockProducts(manager, items);
+
+        for (const item of items) {
+          const reserved = await this.stockReservations.getReserved(
+            item.productId,
+            undefined,
+            manager,
+          );
+          const currentVariant =
+            item.variantId &&
+            (await manager.findOneBy(ProductVariant, { id: item.variantId }));
+          const availableStock = item.variantId
+            ? (currentVariant?.stock ?? 0) -
+              (reserved.byVariant.get(item.variantId) ?? 0)
+            : products.get(item.productId).stock - reserved.total;
+
+          if (availableStock < item.quantity) {
+            this.logger.warn('Insufficient stock for order', {
+              productId: item.productId,
+              variantId: item.variantId,
+              requestedQuantity: item.quantity,
+              availableStock,
+              userId,
+            });
+            throw new BadRequestException(
+              `Insufficient stock for ${products.get(item.productId).title}. Available: ${Math.max(availableStock, 0)}, Requested: ${item.quantity}`,
+            );
+          }
+        }
+
+        const saved = await manager.save(order);
+        for (const item of saved.items) {
+          await this.stockReservations.reserve(manager, {
+            orderId: saved.id,
+            productId: item.productId,
+            variantId: item.variantId,
+            quantity: item.quantity,
+          });
+        }
+        await manager.insert(OrderStatusEvent, {
+          orderId: saved.id,
+          fromStatus: null,
+          toStatus: OrderStatus.PENDING,
+          actor: OrderActor.BUYER,
+          actorId: userId,
+        });
+        return saved;
+      });
     } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
       this.logger.error('Failed to create order', {
         userId,
-        productId: dto.productId,
+        productIds: items.map((item) => item.productId),
         error,
       });
       throw new InternalServerErrorException('Failed to create order');
@@ -115,40 +749,31 @@ export class OrderService {
     this.logger.info('Order created successfully', {
       orderId: savedOrder.id,
       userId,
-      productId: dto.productId,
-      quantity: dto.quantity,
+      itemCount: items.length,
       totalPrice,
     });
 
-    let response: any;
     try {
-      response = await this.chapa.initialize({
-        first_name: user.firstName,
-        last_name: user.lastName,
-        email: user.email,
-        currency: 'ETB',
-        amount: totalPrice.toString(),
-        tx_ref: txRef,
-        callback_url: `${this.config.get('CALLBACK_URL')}/orders/verify`,
-        customization: {
-          title: `product order`,
-          description: `Purchase of ${dto.quantity} ${product.title}`,
+      const { checkoutUrl } = await this.payments.initialize({
+        txRef,
+        amount: totalPrice,
+        currency: this.config.get('PAYMENT_CURRENCY') || 'ETB',
+        customer: {
+          firstName: user.firstName,
+          lastName: user.lastName,
+          email: user.email,
         },
+        description: `Purchase of ${descriptions.join(', ')}`,
+        callbackUrl: `${this.config.get('CALLBACK_URL')}/orders/verify`,
       });
 
-      if (!response || !response.data?.checkout_url) {
-        throw new BadRequestException('Could not process payment.');
-      }
-
-      return {
-        checkoutUrl: response.data.checkout_url,
-        txRef,
-      };
+      return { checkoutUrl, txRef };
     } catch (error) {
-      // Mark order as failed if payment initialization fails
-      await this.orderRepository.update(
-        { id: savedOrder.id },
-        { status: OrderStatus.FAILED },
+      // Mark order as failed and free its stock if payment initialization fails
+      await this.closePendingOrder(
+        txRef,
+        OrderStatus.FAILED,
+        'Payment could not be started',
       );
       console.log(error);
       this.logger.error('Failed to initialize payment', {
@@ -160,17 +785,81 @@ export class OrderService {
     }
   }
 
-  async verifyPayment(txRef: string): Promise<Order> {
-    const response = await this.chapa.verify({ tx_ref: txRef });
+  // Checks that the product can be bought and picks the ordered variant
+  private async resolveLine(
+    line: OrderLine,
+    userId: string,
+  ): Promise<{ product: Product; variant: ProductVariant | null }> {
+    const product = await this.productRepository.findOne({
+      where: { id: line.productId },
+      relations: ['variants'],
+    });
 
-    if (response.status !== 'success' || response.data.status !== 'success') {
-      this.logger.warn('Payment verification failed', { txRef });
-      throw new BadRequestException('Payment verification failed');
+    if (!product) {
+      this.logger.warn('Product not found for order', {
+        productId: line.productId,
+        userId,
+      });
+      throw new NotFoundException('Product not found');
     }
 
-    const order = await this.orderRepository.findOne({
-      where: { txRef: response.data.tx_ref },
-      relations: ['product', 'user'],
+    if (product.status === ProductStatus.DELETED) {
+      this.logger.warn('Attempted to order deleted product', {
+        productId: line.productId,
+        userId,
+      });
+      throw new BadRequestException('Product is no longer available');
+    }
+
+    if (product.status !== ProductStatus.ACTIVE) {
+      this.logger.warn('Attempted to order non-active product', {
+        productId: line.productId,
+        status: product.status,
+        userId,
+      });
+      throw new BadRequestException(
+        `Product is not available for purchase (status: ${product.status})`,
+      );
+    }
+
+    let variant: ProductVariant | null = null;
+    if (product.variants.length > 0) {
+      if (!line.variantId) {
+        throw new BadRequestException(
+          'variantId is required for products with variants',
+        );
+      }
+      variant = product.variants.find(({ id }) => id === line.variantId);
+      if (!variant) {
+        this.logger.warn('Variant not found for order', {
+          productId: line.productId,
+          variantId: line.variantId,
+          userId,
+        });
+        throw new NotFoundException('Variant not found');
+      }
+    } else if (line.variantId) {
+      throw new BadRequestException('Product has no variants');
+    }
+
+    return { product, variant };
+  }
+
+  // Runs inside one transaction. The order row is locked first, so
+  // concurrent deliveries for the same txRef queue up and find the order
+  // already processed, then the product and variant rows, so concurrent
+  // payments for one product decrement its stock one after another. Every
+  // line is paid for or none is.
+  private async completePayment(
+    manager: EntityManager,
+    txRef: string,
+  ): Promise<PaymentOutcome> {
+    // Lines are read separately: Postgres refuses FOR UPDATE across the
+    // outer join of a relation
+    const order = await manager.findOne(Order, {
+      where: { txRef },
+      lock: { mode: 'pessimistic_write' },
+      loadEagerRelations: false,
     });
 
     if (!order) {
@@ -178,187 +867,347 @@ export class OrderService {
       throw new NotFoundException('Order not found');
     }
 
-    if (order.status !== OrderStatus.PENDING) {
-      this.logger.info('Order already processed', {
-        txRef,
-        currentStatus: order.status,
+    if (order.paidAt) {
+      return { result: 'already_processed', orderId: order.id };
+    }
+
+    // The checkout link outlives the order, so the buyer can still pay for
+    // one that was cancelled, expired or failed in the meantime
+    if (CLOSED_BEFORE_PAYMENT.includes(order.status)) {
+      order.paidAt = new Date();
+      await manager.save(order);
+      await this.refunds.create(manager, order, {
+        reason: `Paid after the order was ${order.status}`,
+        requestedById: null,
       });
-      return order;
+      return { result: 'closed_before_payment', orderId: order.id };
     }
 
-    order.status = OrderStatus.SUCCESSFUL;
+    if (order.status !== OrderStatus.PENDING) {
+      return { result: 'already_processed', orderId: order.id };
+    }
+    order.paidAt = new Date();
 
-    const product = order.product;
-    if (product.stock >= order.quantity) {
-      product.stock -= order.quantity;
-      if (product.stock === 0) {
-        product.status = ProductStatus.OUT_OF_STOCK;
-      }
+    const items = await manager.find(OrderItem, {
+      where: { orderId: order.id },
+    });
+    const products = await this.lockProducts(manager, items);
+    const variants = await this.lockVariants(manager, items);
 
-      try {
-        await this.productRepository.save(product);
-        await this.orderRepository.save(order);
+    // Units held for other pending orders are not ours to sell, while our own
+    // holds (if they have not expired) are already part of the stock
+    for (const item of items) {
+      const product = products.get(item.productId);
+      const reserved = await this.stockReservations.getReserved(
+        item.productId,
+        order.id,
+        manager,
+      );
+      const availableStock = item.variantId
+        ? (variants.get(item.variantId)?.stock ?? 0) -
+          (reserved.byVariant.get(item.variantId) ?? 0)
+        : (product?.stock ?? 0) - reserved.total;
 
-        this.logger.info('Order verified and completed successfully', {
-          orderId: order.id,
-          txRef,
-          productId: product.id,
-          newStock: product.stock,
+      if (availableStock < item.quantity) {
+        await this.applyTransition(
+          manager,
+          order,
+          OrderStatus.FAILED,
+          bySystem('Paid, but not enough stock left to fill the order'),
+        );
+        // The buyer paid for nothing, so all of it goes back
+        await this.refunds.create(manager, order, {
+          reason: 'Not enough stock left to fill the order',
+          requestedById: null,
         });
+        return {
+          result: 'insufficient_stock',
+          orderId: order.id,
+          item,
+          availableStock,
+        };
+      }
+    }
+
+    // Product stock is the sum over its variants, so both move together
+    for (const item of items) {
+      products.get(item.productId).stock -= item.quantity;
+      const variant = variants.get(item.variantId);
+      if (variant) {
+        variant.stock -= item.quantity;
+      }
+    }
+    for (const variant of variants.values()) {
+      await manager.save(variant);
+    }
+    for (const product of products.values()) {
+      product.status = stockStatus(product.status, product.stock);
+      await manager.save(product);
+    }
 
+    await this.applyTransition(
+      manager,
+      order,
+      OrderStatus.PAID,
+      bySystem('Payment verified'),
+    );
+    await this.stockReservations.consume(manager, order.id);
+    await this.stockLedger.record(
+      manager,
+      items.map((item) => ({
+        productId: item.productId,
+        variantId: variants.has(item.variantId) ? item.variantId : null,
+        delta: -item.quantity,
+        reason: StockMovementReason.SALE,
+        actorId: order.userId,
+        orderId: order.id,
+      })),
+    );
+
+    return { result: 'completed', orderId: order.id };
+  }
+
+  // The payment will never arrive (the provider reported it as failed, it
+  // could not be started or it was not made in time), so the order's holds
+  // go back to other buyers right away. Returns the order's status, which
+  // is left alone when it is no longer pending (null for an unknown txRef).
+  private async closePendingOrder(
+    txRef: string,
+    to: OrderStatus.FAILED | OrderStatus.EXPIRED,
+    reason: string,
+  ): Promise<OrderStatus | null> {
+    let closed = false;
+    const order = await this.dataSource.transaction(async (manager) => {
+      const order = await manager.findOne(Order, {
+        where: { txRef },
+        lock: { mode: 'pessimistic_write' },
+        loadEagerRelations: false,
+      });
+      if (order?.status !== OrderStatus.PENDING) {
         return order;
-      } catch (error) {
-        this.logger.error('Failed to update order and product', {
-          orderId: order.id,
-          error,
-        });
-        throw new InternalServerErrorException(
-          'Failed to complete order verification',
-        );
       }
-    } else {
-      order.status = OrderStatus.FAILED;
-      await this.orderRepository.save(order);
+      closed = true;
+      return await this.applyTransition(manager, order, to, bySystem(reason));
+    });
 
-      this.logger.warn('Insufficient stock during verification', {
+    if (closed) {
+      this.logger.info('Pending order closed', {
         orderId: order.id,
         txRef,
-        requiredStock: order.quantity,
-        availableStock: product.stock,
+        status: to,
+        reason,
       });
+    }
+    return order?.status ?? null;
+  }
 
-      throw new BadRequestException(
-        'Insufficient stock to complete order. Payment will be refunded.',
+  // Moves an order the caller has locked to `to` when the lifecycle allows
+  // it for one of the actors, running the effects of that transition in the
+  // same transaction
+  private async applyTransition(
+    manager: EntityManager,
+    order: Order,
+    to: OrderStatus,
+    change: StatusChange,
+  ): Promise<Order> {
+    const transition = findTransition(order.status, to);
+    if (!transition) {
+      this.logger.warn('Illegal order status transition', {
+        orderId: order.id,
+        from: order.status,
+        to,
+      });
+      throw new ConflictException(
+        `Cannot move an order from ${order.status} to ${to}. Allowed next statuses: ${nextStatuses(order.status).join(', ') || 'none'}`,
       );
     }
-  }
 
-  async getMyOrders(userId: string, status?: OrderStatus): Promise<Order[]> {
-    const whereCondition: any = { userId };
-    if (status) {
-      whereCondition.status = status;
+    const actor = transition.actors.find((allowed) =>
+      change.actors.includes(allowed),
+    );
+    if (!actor) {
+      throw new ForbiddenException(
+        `Only the ${transition.actors.join(' or ')} can move an order from ${order.status} to ${to}`,
+      );
     }
 
-    return await this.orderRepository.find({
-      where: whereCondition,
-      order: { createdAt: 'DESC' },
-      relations: ['product', 'user'],
-    });
-  }
+    for (const effect of transition.effects) {
+      await this.runEffect(effect, manager, order, to, change);
+    }
 
-  async getOrderById(orderId: string, userId: string): Promise<Order> {
-    const order = await this.orderRepository.findOne({
-      where: { id: orderId },
-      relations: ['product', 'user'],
+    await manager.insert(OrderStatusEvent, {
+      orderId: order.id,
+      fromStatus: order.status,
+      toStatus: to,
+      actor,
+      actorId: change.actorId,
+      note: change.note ?? null,
     });
 
-    if (!order) {
-      this.logger.warn('Order not found', { orderId });
-      throw new NotFoundException('Order not found');
-    }
+    order.status = to;
+    return await manager.save(order);
+  }
 
-    // Check if user is either the buyer or the product owner
-    if (order.userId !== userId && order.product.userId !== userId) {
-      this.logger.warn('User not authorized to access order', {
-        orderId,
-        userId,
-        orderUserId: order.userId,
-        productOwnerId: order.product.userId,
-      });
-      throw new ForbiddenException('You do not have access to this order');
+  private async runEffect(
+    effect: TransitionEffect,
+    manager: EntityManager,
+    order: Order,
+    to: OrderStatus,
+    change: StatusChange,
+  ): Promise<void> {
+    switch (effect) {
+      case TransitionEffect.RELEASE_RESERVATION:
+        await this.stockReservations.release(order.id, manager);
+        return;
+      case TransitionEffect.RESTOCK:
+        await this.restoreStock(manager, order, change.actorId);
+        return;
+      case TransitionEffect.REFUND:
+        // Whatever earlier partial refunds left over
+        await this.refunds.create(manager, order, {
+          reason: change.note || `Order ${to}`,
+          requestedById: change.actorId,
+        });
+        return;
     }
-
-    return order;
   }
 
-  async getOrdersForMyProducts(
-    userId: string,
-    status?: OrderStatus,
-  ): Promise<Order[]> {
-    const queryBuilder = this.orderRepository
-      .createQueryBuilder('order')
-      .leftJoinAndSelect('order.product', 'product')
-      .leftJoinAndSelect('order.user', 'user')
-      .where('product.userId = :userId', { userId });
-
-    if (status) {
-      queryBuilder.andWhere('order.status = :status', { status });
+  private actorsFor(
+    order: Order,
+    user: Pick<userReq, 'userId' | 'role'>,
+  ): OrderActor[] {
+    const actors: OrderActor[] = [];
+    if (order.userId === user.userId) {
+      actors.push(OrderActor.BUYER);
     }
+    // A seller speaks for their own lines only, so an order that also holds
+    // other sellers' products is moved along by an admin
+    if (this.sellsAllOf(order, user.userId)) {
+      actors.push(OrderActor.SELLER);
+    }
+    if (user.role === Role.ADMIN) {
+      actors.push(OrderActor.ADMIN);
+    }
+    return actors;
+  }
 
-    queryBuilder.orderBy('order.createdAt', 'DESC');
+  private sellsIn(order: Order, userId: string): boolean {
+    return order.items.some((item) => item.product?.userId === userId);
+  }
 
-    return await queryBuilder.getMany();
+  private sellsAllOf(order: Order, userId: string): boolean {
+    return (
+      this.sellsIn(order, userId) &&
+      order.items.every((item) => item.product?.userId === userId)
+    );
   }
 
-  async updateOrderStatus(
-    orderId: string,
-    userId: string,
-    dto: UpdateOrderStatusDto,
-  ): Promise<Order> {
-    const order = await this.orderRepository.findOne({
-      where: { id: orderId },
-      relations: ['product'],
+  // Puts the units of a cancelled order back on the shelf
+  private async restoreStock(
+    manager: EntityManager,
+    order: Order,
+    actorId: string | null,
+  ): Promise<void> {
+    const items = await manager.find(OrderItem, {
+      where: { orderId: order.id },
     });
+    const products = await this.lockProducts(manager, items);
+    const variants = await this.lockVariants(manager, items);
 
-    if (!order) {
-      this.logger.warn('Order not found for status update', { orderId });
-      throw new NotFoundException('Order not found');
+    // The units of a variant removed since the order was placed have
+    // nowhere to go: product stock is the sum of its live variants, so it
+    // stays put too and the ledger notes the skipped restock at no change
+    const restocked = items.filter(
+      (item) => !item.variantId || variants.has(item.variantId),
+    );
+    for (const item of restocked) {
+      const variant = variants.get(item.variantId);
+      if (variant) {
+        variant.stock += item.quantity;
+      }
+      const product = products.get(item.productId);
+      if (product) {
+        product.stock += item.quantity;
+      }
     }
 
-    // Only product owner can update order status
-    if (order.product.userId !== userId) {
-      this.logger.warn('User not authorized to update order status', {
-        orderId,
-        userId,
-        productOwnerId: order.product.userId,
-      });
-      throw new ForbiddenException(
-        'Only the product owner can update order status',
-      );
+    for (const variant of variants.values()) {
+      await manager.save(variant);
+    }
+    for (const product of products.values()) {
+      product.status = stockStatus(product.status, product.stock);
+      await manager.save(product);
     }
 
-    const oldStatus = order.status;
-    order.status = dto.status;
+    await this.stockLedger.record(
+      manager,
+      items.map((item) => {
+        const skipped = !restocked.includes(item);
+        if (skipped) {
+          this.logger.warn('Skipped restock of a removed variant', {
+            orderId: order.id,
+            productId: item.productId,
+            variantId: item.variantId,
+            quantity: item.quantity,
+          });
+        }
+        return {
+          productId: item.productId,
+          variantId: item.variantId,
+          delta: skipped ? 0 : item.quantity,
+          reason: skipped
+            ? StockMovementReason.RESTOCK_SKIPPED
+            : StockMovementReason.REFUND,
+          actorId,
+          orderId: order.id,
+        };
+      }),
+    );
+  }
 
-    if (
-      dto.status === OrderStatus.FAILED &&
-      oldStatus === OrderStatus.SUCCESSFUL
-    ) {
-      const product = await this.productRepository.findOne({
-        where: { id: order.productId },
-      });
+  // Locks the variant rows of the given lines in id order too. A variant
+  // removed after the order was placed is not found.
+  private async lockVariants(
+    manager: EntityManager,
+    items: Pick<OrderItem, 'variantId'>[],
+  ): Promise<Map<string, ProductVariant>> {
+    const variants = new Map<string, ProductVariant>();
+    const variantIds = [
+      ...new Set(items.map((item) => item.variantId).filter(Boolean)),
+    ];
 
-      if (product) {
-        product.stock += order.quantity;
-        if (
-          product.stock > 0 &&
-          product.status === ProductStatus.OUT_OF_STOCK
-        ) {
-          product.status = ProductStatus.ACTIVE;
-        }
-        await this.productRepository.save(product);
+    for (const variantId of variantIds.sort()) {
+      const variant = await manager.findOne(ProductVariant, {
+        where: { id: variantId },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (variant) {
+        variants.set(variantId, variant);
       }
     }
 
-    let updatedOrder: Order;
-    try {
-      updatedOrder = await this.orderRepository.save(order);
-    } catch (error) {
-      this.logger.error('Failed to update order status', {
-        orderId,
-        userId,
-        error,
+    return variants;
+  }
+
+  // Locks the product rows of the given lines in id order, so two orders
+  // sharing products always queue up instead of deadlocking
+  private async lockProducts(
+    manager: EntityManager,
+    items: Pick<OrderItem, 'productId'>[],
+  ): Promise<Map<string, Product>> {
+    const products = new Map<string, Product>();
+    const productIds = [...new Set(items.map((item) => item.productId))];
+
+    for (const productId of productIds.sort()) {
+      const product = await manager.findOne(Product, {
+        where: { id: productId },
+        lock: { mode: 'pessimistic_write' },
       });
-      throw new InternalServerErrorException('Failed to update order status');
+      if (product) {
+        products.set(productId, product);
+      }
     }
 
-    this.logger.info('Order status updated successfully', {
-      orderId,
-      userId,
-      oldStatus,
-      newStatus: dto.status,
-    });
-
-    return updatedOrder;
+    return products;
   }
 }
@@ -0,0 +1,135 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException } from '@nestjs/common';
+import { WINSTON_MODULE_PROVIDER } from 'nest-winston';
+import { createHmac } from 'crypto';
+import { PaymentWebhookService } from './payment-webhook.service';
+import { OrderService } from './order.service';
+import { WebhookEvent, WebhookOutcome } from './entities/webhook-event.entity';
+import {
+  FakePaymentOutcome,
+  FakePaymentProvider,
+  PAYMENT_PROVIDER,
+} from '../payment/providers';
+
+describe('PaymentWebhookService', () => {
+  let service: PaymentWebhookService;
+  let events: WebhookEvent[];
+
+  const secret = 'test-webhook-secret';
+  const logger = { info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+  // Spacing and key order a JSON.stringify round trip would not reproduce
+  const payload = (id: string) =>
+    `{ "tx_ref": "TX-1",  "id": "${id}", "event": "charge.success", "status": "success" }`;
+  const signed = (body: string) => ({
+    'content-type': 'application/json',
+    'x-fake-signature': createHmac('sha256', secret).update(body).digest('hex'),
+  });
+
+  const webhookEventRepository = {
+    create: jest.fn((data) => ({ attempts: 0, ...data })),
+    save: jest.fn(async (event: WebhookEvent) => {
+      event.id ??= `event-${events.length + 1}`;
+      events = [...events.filter(({ id }) => id !== event.id), { ...event }];
+      return event;
+    }),
+    findOne: jest.fn(async ({ where }) => {
+      const event = events.find(({ id }) => id === where.id);
+      return event ? { ...event } : null;
+    }),
+    count: jest.fn(
+      async ({ where }) =>
+        events.filter(
+          (event) =>
+            event.id !== where.id.value &&
+            event.eventId === where.eventId &&
+            event.outcome === where.outcome,
+        ).length,
+    ),
+  };
+
+  const orderService = { verifyPayment: jest.fn() };
+
+  beforeEach(async () => {
+    events = [];
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PaymentWebhookService,
+        {
+          provide: getRepositoryToken(WebhookEvent),
+          useValue: webhookEventRepository,
+        },
+        {
+          provide: PAYMENT_PROVIDER,
+          useValue: new FakePaymentProvider(
+            'http://localhost:3000',
+            secret,
+            FakePaymentOutcome.SUCCESS,
+            logger as any,
+          ),
+        },
+        { provide: OrderService, useValue: orderService },
+        { provide: ConfigService, useValue: { get: jest.fn(() => 'fake') } },
+        { provide: WINSTON_MODULE_PROVIDER, useValue: logger },
+      ],
+    }).compile();
+
+    service = module.get<PaymentWebhookService>(PaymentWebhookService);
+  });
+
+  it('checks the signature over the raw body and stores the event', async () => {
+    const body = payload('evt-1');
+
+    const event = await service.receive(Buffer.from(body), signed(body));
+
+    expect(orderService.verifyPayment).toHaveBeenCalledWith('TX-1');
+    expect(events).toEqual([
+      expect.objectContaining({
+        provider: 'fake',
+        eventId: 'evt-1',
+        txRef: 'TX-1',
+        payload: body,
+        outcome: WebhookOutcome.PROCESSED,
+        attempts: 1,
+      }),
+    ]);
+    expect(event.outcome).toBe(WebhookOutcome.PROCESSED);
+  });
+
+  it('stores and rejects a webhook with a wrong signature', async () => {
+    const body = payload('evt-1');
+    const headers = signed(JSON.stringify(JSON.parse(body)));
+
+    await expect(
+      service.receive(Buffer.from(body), headers),
+    ).rejects.toBeInstanceOf(BadRequestException);
+
+    expect(orderService.verifyPayment).not.toHaveBeenCalled();
+    expect(events).toEqual([
+      expect.objectContaining({
+        payload: body,
+        outcome: WebhookOutcome.INVALID_SIGNATURE,
+      }),
+    ]);
+  });
+
+  it('skips a redelivered event but replays it on request', async () => {
+    const body = payload('evt-1');
+    await service.receive(Buffer.from(body), signed(body));
+
+    const redelivered = await service.receive(Buffer.from(body), signed(body));
+    expect(redelivered.outcome).toBe(WebhookOutcome.DUPLICATE);
+    expect(orderService.verifyPayment).toHaveBeenCalledTimes(1);
+
+    const replayed = await service.replay(redelivered.id);
+    expect(replayed).toMatchObject({
+      outcome: WebhookOutcome.PROCESSED,
+      attempts: 2,
+    });
+    expect(orderService.verifyPayment).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,133 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Not, Repository } from 'typeorm';
+import { Logger } from 'winston';
+import { WINSTON_MODULE_PROVIDER } from 'nest-winston';
+import { OrderService } from './order.service';
+import { WebhookEvent, WebhookOutcome } from './entities/webhook-event.entity';
+import { WebhookEventQueryDto } from './dto/webhook-event-query.dto';
+import { PAYMENT_PROVIDER, PaymentProvider } from '../payment/providers';
+import { Paginated } from '../common/dto';
+
+// Every webhook call is stored before it is handled, so a delivery that
+// failed (or was lost on our side) can be looked at and replayed
+@Injectable()
+export class PaymentWebhookService {
+  constructor(
+    @InjectRepository(WebhookEvent)
+    private webhookEventRepository: Repository<WebhookEvent>,
+    @Inject(PAYMENT_PROVIDER) private payments: PaymentProvider,
+    @Inject(WINSTON_MODULE_PROVIDER) private readonly logger: Logger,
+    private orderService: OrderService,
+    private config: ConfigService,
+  ) {}
+
+  async receive(
+    rawBody: Buffer,
+    headers: Record<string, string | string[] | undefined>,
+  ): Promise<WebhookEvent> {
+    const event = await this.webhookEventRepository.save(
+      this.webhookEventRepository.create({
+        provider: this.config.get<string>('PAYMENT_PROVIDER') || 'chapa',
+        headers: headers as Record<string, string | string[]>,
+        payload: rawBody.toString('utf8'),
+        outcome: WebhookOutcome.RECEIVED,
+      }),
+    );
+    return await this.handle(event, true);
+  }
+
+  // Handles a stored event again, even when it was processed before;
+  // verifyPayment is idempotent, so this only ever catches an order up
+  async replay(webhookEventId: string): Promise<WebhookEvent> {
+    const event = await this.webhookEventRepository.findOne({
+      where: { id: webhookEventId },
+    });
+    if (!event) {
+      throw new NotFoundException('Webhook event not found');
+    }
+    return await this.handle(event, false);
+  }
+
+  async getEvents(
+    query: WebhookEventQueryDto,
+  ): Promise<Paginated<WebhookEvent>> {
+    const { page = 1, limit = 20, txRef, outcome } = query;
+
+    const [items, total] = await this.webhookEventRepository.findAndCount({
+      where: { txRef, outcome },
+      order: { receivedAt: 'DESC', id: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return Paginated.of(items, total, page, limit);
+  }
+
+  private async handle(
+    event: WebhookEvent,
+    skipDuplicates: boolean,
+  ): Promise<WebhookEvent> {
+    event.attempts += 1;
+    event.handledAt = new Date();
+    event.outcome = WebhookOutcome.RECEIVED;
+    event.error = null;
+
+    try {
+      const webhook = this.payments.parseWebhook(
+        Buffer.from(event.payload, 'utf8'),
+        event.headers,
+      );
+      if (!webhook) {
+        this.logger.warn('Payment webhook with an invalid signature', {
+          webhookEventId: event.id,
+        });
+        event.outcome = WebhookOutcome.INVALID_SIGNATURE;
+        throw new BadRequestException('Invalid webhook signature');
+      }
+
+      event.eventId = webhook.eventId;
+      event.txRef = webhook.txRef;
+      event.event = webhook.event;
+
+      if (skipDuplicates && (await this.wasProcessed(event))) {
+        this.logger.info('Duplicate payment webhook skipped', {
+          webhookEventId: event.id,
+          eventId: event.eventId,
+        });
+        event.outcome = WebhookOutcome.DUPLICATE;
+        return event;
+      }
+
+      // Never trust the webhook body itself, ask the provider
+      await this.orderService.verifyPayment(webhook.txRef);
+      event.outcome = WebhookOutcome.PROCESSED;
+      return event;
+    } catch (error) {
+      if (event.outcome !== WebhookOutcome.INVALID_SIGNATURE) {
+        event.outcome = WebhookOutcome.FAILED;
+        event.error = error instanceof Error ? error.message : String(error);
+      }
+      throw error;
+    } finally {
+      await this.webhookEventRepository.save(event);
+    }
+  }
+
+  private async wasProcessed(event: WebhookEvent): Promise<boolean> {
+    const processed = await this.webhookEventRepository.count({
+      where: {
+        id: Not(event.id),
+        eventId: event.eventId,
+        outcome: WebhookOutcome.PROCESSED,
+      },
+    });
+    return processed > 0;
+  }
+}
@@ -0,0 +1,215 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { WINSTON_MODULE_PROVIDER } from 'nest-winston';
+import { ReconciliationService } from './reconciliation.service';
+import { Order, OrderStatus } from './entities/order.entity';
+import {
+  ReconciliationRun,
+  ReconciliationRunStatus,
+} from './entities/reconciliation-run.entity';
+import {
+  ReconciliationIssue,
+  ReconciliationMismatch,
+} from './entities/reconciliation-mismatch.entity';
+import {
+  PAYMENT_PROVIDER,
+  PaymentStatus,
+  PaymentVerification,
+} from '../payment/providers';
+
+describe('ReconciliationService', () => {
+  let service: ReconciliationService;
+  let orders: Order[];
+  let settled: Record<string, Partial<PaymentVerification>>;
+  let runs: Map<string, ReconciliationRun>;
+  let stored: ReconciliationMismatch[];
+
+  const range = { from: '2024-01-01', to: '2024-01-31' };
+  const adminId = 'admin-1';
+
+  // Runs go on in the background; the mocks below only ever wait on
+  // promises, so the run is done once the microtask queue drains
+  const finish = () => new Promise((resolve) => setImmediate(resolve));
+
+  const order = (
+    txRef: string,
+    status: OrderStatus,
+    totalPrice = 50,
+    refundedAmount = 0,
+  ) =>
+    ({
+      id: `order-${txRef}`,
+      txRef,
+      status,
+      totalPrice: totalPrice.toFixed(2),
+      refundedAmount: refundedAmount.toFixed(2),
+      createdAt: new Date('2024-01-10T12:00:00.000Z'),
+    }) as unknown as Order;
+
+  const orderRepository = {
+    find: jest.fn(async ({ skip }) => (skip === 0 ? orders : [])),
+  };
+
+  const runRepository = {
+    create: jest.fn((run) => ({ ...run })),
+    save: jest.fn(async (run: ReconciliationRun) => {
+      run.id ??= `run-${runs.size + 1}`;
+      runs.set(run.id, { ...run });
+      return run;
+    }),
+    findOne: jest.fn(async ({ where: { id } }) =>
+      runs.has(id) ? { ...runs.get(id) } : null,
+    ),
+  };
+
+  const mismatchRepository = {
+    create: jest.fn((mismatch) => ({ ...mismatch })),
+    save: jest.fn(async (rows: ReconciliationMismatch[]) => {
+      stored.push(...rows.map((row) => ({ ...row })));
+      return rows;
+    }),
+    find: jest.fn(async ({ where: { runId } }) =>
+      stored.filter((mismatch) => mismatch.runId === runId),
+    ),
+  };
+
+  const payments = {
+    verify: jest.fn(async (txRef: string) => {
+      if (!settled[txRef]) {
+        throw new Error('Transaction not found');
+      }
+      return {
+        txRef,
+        amount: 50,
+        currency: 'ETB',
+        ...settled[txRef],
+      } as PaymentVerification;
+    }),
+  };
+
+  beforeEach(async () => {
+    orders = [];
+    settled = {};
+    runs = new Map();
+    stored = [];
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReconciliationService,
+        { provide: getRepositoryToken(Order), useValue: orderRepository },
+        {
+          provide: getRepositoryToken(ReconciliationRun),
+          useValue: runRepository,
+        },
+        {
+          provide: getRepositoryToken(ReconciliationMismatch),
+          useValue: mismatchRepository,
+        },
+        { provide: PAYMENT_PROVIDER, useValue: payments },
+        { provide: ConfigService, useValue: { get: jest.fn(() => 'ETB') } },
+        {
+          provide: WINSTON_MODULE_PROVIDER,
+          useValue: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ReconciliationService>(ReconciliationService);
+  });
+
+  it('stores where orders and the provider disagree', async () => {
+    orders = [
+      order('ok', OrderStatus.DELIVERED),
+      order('missed', OrderStatus.PENDING),
+      order('edited', OrderStatus.SHIPPED),
+      order('short', OrderStatus.PAID, 60),
+      order('gone', OrderStatus.PAID),
+      order('returned', OrderStatus.CANCELLED, 50, 50),
+      order('kept', OrderStatus.CANCELLED, 50, 20),
+    ];
+    settled = {
+      ok: { status: PaymentStatus.SUCCESS },
+      missed: { status: PaymentStatus.SUCCESS },
+      edited: { status: PaymentStatus.FAILED },
+      short: { status: PaymentStatus.SUCCESS },
+      returned: { status: PaymentStatus.SUCCESS },
+      kept: { status: PaymentStatus.SUCCESS },
+    };
+
+    const started = await service.start(range, adminId);
+    expect(started).toMatchObject({
+      status: ReconciliationRunStatus.RUNNING,
+      requestedById: adminId,
+    });
+    await finish();
+
+    const run = await service.getRun(started.id);
+    expect(run).toMatchObject({
+      status: ReconciliationRunStatus.COMPLETED,
+      checked: 7,
+      matched: 2,
+      mismatchCount: 5,
+      finishedAt: expect.any(Date),
+    });
+    expect(run.mismatches.map(({ txRef, issue }) => [txRef, issue])).toEqual([
+      ['missed', ReconciliationIssue.PAID_BUT_PENDING],
+      ['edited', ReconciliationIssue.FAILED_BUT_SUCCESSFUL],
+      ['short', ReconciliationIssue.AMOUNT_MISMATCH],
+      ['gone', ReconciliationIssue.VERIFY_ERROR],
+      ['kept', ReconciliationIssue.PAID_BUT_CANCELLED],
+    ]);
+    expect(run.mismatches[2].detail).toBe('amount 50 instead of 60.00');
+    expect(run.mismatches[4].detail).toBe('refunded 20.00 of 50.00');
+  });
+
+  it('exports the stored mismatches as CSV without asking the provider again', async () => {
+    orders = [order('missed', OrderStatus.EXPIRED)];
+    settled = { missed: { status: PaymentStatus.SUCCESS } };
+    const run = await service.start(range, adminId);
+    await finish();
+    payments.verify.mockClear();
+
+    let output = '';
+    for await (const chunk of await service.exportCsv(run.id)) {
+      output += chunk;
+    }
+
+    expect(output.trim().split('\n')).toEqual([
+      'issue,orderId,txRef,orderCreatedAt,orderStatus,providerStatus,orderAmount,providerAmount,providerCurrency,detail',
+      'paid_but_failed,order-missed,missed,2024-01-10T12:00:00.000Z,expired,success,50,50,ETB,',
+    ]);
+    expect(payments.verify).not.toHaveBeenCalled();
+  });
+
+  it('keeps a run that broke off as failed', async () => {
+    let breakOff: (error: Error) => void;
+    orderRepository.find.mockReturnValueOnce(
+      new Promise((_, reject) => (breakOff = reject)),
+    );
+
+    const run = await service.start(range, adminId);
+    await expect(service.exportCsv(run.id)).rejects.toBeInstanceOf(
+      ConflictException,
+    );
+
+    breakOff(new Error('Connection terminated'));
+    await finish();
+
+    expect(await service.getRun(run.id)).toMatchObject({
+      status: ReconciliationRunStatus.FAILED,
+      error: 'Connection terminated',
+      finishedAt: expect.any(Date),
+    });
+  });
+
+  it('refuses ranges longer than a month', async () => {
+    await expect(
+      service.start({ from: '2024-01-01', to: '2024-03-01' }, adminId),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(runRepository.save).not.toHaveBeenCalled();
+    expect(payments.verify).not.toHaveBeenCalled();
+  });
+});
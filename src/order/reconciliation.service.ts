@@ -0,0 +1,347 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Between, Repository } from 'typeorm';
+import { Readable, pipeline } from 'stream';
+import { stringify } from 'csv-stringify';
+import { Logger } from 'winston';
+import { WINSTON_MODULE_PROVIDER } from 'nest-winston';
+import { Order, OrderStatus } from './entities/order.entity';
+import {
+  ReconciliationRun,
+  ReconciliationRunStatus,
+} from './entities/reconciliation-run.entity';
+import {
+  ReconciliationIssue,
+  ReconciliationMismatch,
+} from './entities/reconciliation-mismatch.entity';
+import { ReconciliationQueryDto } from './dto/reconciliation-query.dto';
+import {
+  PAYMENT_PROVIDER,
+  PaymentProvider,
+  PaymentStatus,
+  PaymentVerification,
+} from '../payment/providers';
+import { Paginated, PaginationQueryDto } from '../common/dto';
+
+// Every order in the range costs one call to the provider
+const MAX_RANGE_DAYS = 31;
+const BATCH_SIZE = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Compared in cents, so 10.5 from the provider and '10.50' from Postgres agree
+const cents = (amount: number | string) => Math.round(Number(amount) * 100);
+
+// Paid as far as the order is concerned. Cancelled orders may or may not
+// have been paid before, a paid one has to be refunded in full.
+const SETTLED_STATUSES = [
+  OrderStatus.PAID,
+  OrderStatus.PROCESSING,
+  OrderStatus.SHIPPED,
+  OrderStatus.DELIVERED,
+  OrderStatus.REFUNDED,
+];
+const CLOSED_STATUSES = [OrderStatus.FAILED, OrderStatus.EXPIRED];
+
+export const RECONCILIATION_CSV_COLUMNS: (keyof ReconciliationMismatch)[] = [
+  'issue',
+  'orderId',
+  'txRef',
+  'orderCreatedAt',
+  'orderStatus',
+  'providerStatus',
+  'orderAmount',
+  'providerAmount',
+  'providerCurrency',
+  'detail',
+];
+
+// Compares the orders of a date range with what the payment provider
+// settled, to catch missed webhooks and status edits that drifted from the
+// actual payment. A run costs one provider call per order, so it works in
+// the background and stores its report for later reading.
+@Injectable()
+export class ReconciliationService {
+  constructor(
+    @InjectRepository(Order)
+    private orderRepository: Repository<Order>,
+    @InjectRepository(ReconciliationRun)
+    private runRepository: Repository<ReconciliationRun>,
+    @InjectRepository(ReconciliationMismatch)
+    private mismatchRepository: Repository<ReconciliationMismatch>,
+    @Inject(PAYMENT_PROVIDER) private payments: PaymentProvider,
+    @Inject(WINSTON_MODULE_PROVIDER) private readonly logger: Logger,
+    private config: ConfigService,
+  ) {}
+
+  async start(
+    query: ReconciliationQueryDto,
+    userId: string,
+  ): Promise<ReconciliationRun> {
+    const { from, to } = this.range(query);
+    const run = await this.runRepository.save(
+      this.runRepository.create({
+        from,
+        to,
+        status: ReconciliationRunStatus.RUNNING,
+        checked: 0,
+        matched: 0,
+        mismatchCount: 0,
+        error: null,
+        requestedById: userId,
+        finishedAt: null,
+      }),
+    );
+
+    this.logger.info('Payment reconciliation started', {
+      runId: run.id,
+      from,
+      to,
+      userId,
+    });
+    // Not awaited, the admin polls the run for its outcome
+    void this.execute({ ...run });
+    return run;
+  }
+
+  async getRuns(
+    query: PaginationQueryDto,
+  ): Promise<Paginated<ReconciliationRun>> {
+    const { page = 1, limit = 20 } = query;
+
+    const [items, total] = await this.runRepository.findAndCount({
+      order: { createdAt: 'DESC', id: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return Paginated.of(items, total, page, limit);
+  }
+
+  async getRun(runId: string): Promise<ReconciliationRun> {
+    const run = await this.findRun(runId);
+    run.mismatches = await this.findMismatches(runId);
+    return run;
+  }
+
+  async exportCsv(runId: string): Promise<Readable> {
+    const run = await this.findRun(runId);
+    if (run.status === ReconciliationRunStatus.RUNNING) {
+      throw new ConflictException('The reconciliation run is still running');
+    }
+
+    const mismatches = await this.findMismatches(runId);
+    return pipeline(
+      Readable.from(
+        mismatches.map((mismatch) => ({
+          ...mismatch,
+          orderCreatedAt: mismatch.orderCreatedAt.toISOString(),
+        })),
+      ),
+      stringify({ header: true, columns: RECONCILIATION_CSV_COLUMNS }),
+      (error) => {
+        if (error) {
+          this.logger.error('Failed to export reconciliation report', {
+            runId,
+            error,
+          });
+        }
+      },
+    );
+  }
+
+  // Walks the orders batch by batch, storing the mismatches and counters of
+  // each batch as it goes so a running run shows its progress
+  private async execute(run: ReconciliationRun): Promise<void> {
+    try {
+      for (let skip = 0; ; skip += BATCH_SIZE) {
+        const orders = await this.orderRepository.find({
+          where: { createdAt: Between(run.from, run.to) },
+          order: { createdAt: 'ASC', id: 'ASC' },
+          skip,
+          take: BATCH_SIZE,
+          loadEagerRelations: false,
+        });
+
+        const found: ReconciliationMismatch[] = [];
+        for (const order of orders) {
+          const mismatches = await this.check(order);
+          run.checked++;
+          if (mismatches.length === 0) {
+            run.matched++;
+          }
+          found.push(...mismatches);
+        }
+
+        found.forEach((mismatch) => (mismatch.runId = run.id));
+        await this.mismatchRepository.save(found);
+        run.mismatchCount += found.length;
+
+        if (orders.length < BATCH_SIZE) {
+          break;
+        }
+        await this.runRepository.save(run);
+      }
+
+      run.status = ReconciliationRunStatus.COMPLETED;
+      this.logger.info('Payment reconciliation finished', {
+        runId: run.id,
+        checked: run.checked,
+        matched: run.matched,
+        mismatches: run.mismatchCount,
+      });
+    } catch (error) {
+      run.status = ReconciliationRunStatus.FAILED;
+      run.error = error instanceof Error ? error.message : String(error);
+      this.logger.error('Payment reconciliation failed', {
+        runId: run.id,
+        error,
+      });
+    }
+
+    run.finishedAt = new Date();
+    try {
+      await this.runRepository.save(run);
+    } catch (error) {
+      this.logger.error('Failed to store reconciliation run', {
+        runId: run.id,
+        error,
+      });
+    }
+  }
+
+  private async findRun(runId: string): Promise<ReconciliationRun> {
+    const run = await this.runRepository.findOne({ where: { id: runId } });
+    if (!run) {
+      throw new NotFoundException('Reconciliation run not found');
+    }
+    return run;
+  }
+
+  private async findMismatches(
+    runId: string,
+  ): Promise<ReconciliationMismatch[]> {
+    return await this.mismatchRepository.find({
+      where: { runId },
+      order: { orderCreatedAt: 'ASC', orderId: 'ASC', issue: 'ASC' },
+    });
+  }
+
+  private async check(order: Order): Promise<ReconciliationMismatch[]> {
+    let payment: PaymentVerification;
+    try {
+      payment = await this.payments.verify(order.txRef);
+    } catch (error) {
+      return [
+        this.mismatch(
+          ReconciliationIssue.VERIFY_ERROR,
+          order,
+          null,
+          error instanceof Error ? error.message : String(error),
+        ),
+      ];
+    }
+
+    const mismatches: ReconciliationMismatch[] = [];
+    const paid = payment.status === PaymentStatus.SUCCESS;
+
+    if (paid && order.status === OrderStatus.PENDING) {
+      mismatches.push(
+        this.mismatch(ReconciliationIssue.PAID_BUT_PENDING, order, payment),
+      );
+    } else if (paid && CLOSED_STATUSES.includes(order.status)) {
+      mismatches.push(
+        this.mismatch(ReconciliationIssue.PAID_BUT_FAILED, order, payment),
+      );
+    } else if (
+      paid &&
+      order.status === OrderStatus.CANCELLED &&
+      cents(order.refundedAmount) < cents(order.totalPrice)
+    ) {
+      mismatches.push(
+        this.mismatch(
+          ReconciliationIssue.PAID_BUT_CANCELLED,
+          order,
+          payment,
+          `refunded ${order.refundedAmount} of ${order.totalPrice}`,
+        ),
+      );
+    } else if (!paid && SETTLED_STATUSES.includes(order.status)) {
+      mismatches.push(
+        this.mismatch(
+          ReconciliationIssue.FAILED_BUT_SUCCESSFUL,
+          order,
+          payment,
+        ),
+      );
+    }
+
+    if (paid) {
+      const currency = this.config.get('PAYMENT_CURRENCY') || 'ETB';
+      const problems = [
+        payment.amount !== null &&
+          cents(payment.amount) !== cents(order.totalPrice) &&
+          `amount ${payment.amount} instead of ${order.totalPrice}`,
+        payment.currency !== null &&
+          payment.currency !== currency &&
+          `currency ${payment.currency} instead of ${currency}`,
+      ].filter(Boolean);
+      if (problems.length > 0) {
+        mismatches.push(
+          this.mismatch(
+            ReconciliationIssue.AMOUNT_MISMATCH,
+            order,
+            payment,
+            problems.join(', '),
+          ),
+        );
+      }
+    }
+
+    return mismatches;
+  }
+
+  private mismatch(
+    issue: ReconciliationIssue,
+    order: Order,
+    payment: PaymentVerification | null,
+    detail: string | null = null,
+  ): ReconciliationMismatch {
+    return this.mismatchRepository.create({
+      issue,
+      orderId: order.id,
+      txRef: order.txRef,
+      orderCreatedAt: order.createdAt,
+      orderStatus: order.status,
+      providerStatus: payment?.status ?? null,
+      orderAmount: Number(order.totalPrice),
+      providerAmount: payment?.amount ?? null,
+      providerCurrency: payment?.currency ?? null,
+      detail,
+    });
+  }
+
+  private range(query: ReconciliationQueryDto): { from: Date; to: Date } {
+    const from = new Date(query.from);
+    // A bare date means the end of that day
+    const to = /^\d{4}-\d{2}-\d{2}$/.test(query.to)
+      ? new Date(new Date(query.to).getTime() + DAY_MS - 1)
+      : new Date(query.to);
+
+    if (from > to) {
+      throw new BadRequestException('from cannot be after to');
+    }
+    if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+      throw new BadRequestException(
+        `The range cannot be longer than ${MAX_RANGE_DAYS} days`,
+      );
+    }
+    return { from, to };
+  }
+}
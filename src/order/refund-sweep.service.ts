@@ -0,0 +1,114 @@
+import {
+  Inject,
+  Injectable,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { LessThan, Repository } from 'typeorm';
+import { Logger } from 'winston';
+import { WINSTON_MODULE_PROVIDER } from 'nest-winston';
+import { RefundService } from './refund.service';
+import { Refund, RefundStatus } from './entities/refund.entity';
+
+// Stale refunds sent per sweep, the rest wait for the next one
+const SWEEP_BATCH_SIZE = 100;
+
+// The request that records a refund sends it right after its commit, so
+// one still pending after this was left behind, e.g. by a restart
+const STALE_AFTER_MS = 5 * 60 * 1000;
+
+export type RefundSweepSummary = {
+  checked: number;
+  // Settled one way or another, or still processing at the provider
+  sent: number;
+  // Could not be sent, the refund stays pending for now
+  errors: number;
+};
+
+// Every REFUND_SWEEP_INTERVAL_MINUTES this sends the refunds that were
+// recorded but never reached the payment provider
+@Injectable()
+export class RefundSweepService implements OnModuleInit, OnModuleDestroy {
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<RefundSweepSummary> | null = null;
+
+  constructor(
+    @InjectRepository(Refund)
+    private refundRepository: Repository<Refund>,
+    @Inject(WINSTON_MODULE_PROVIDER) private readonly logger: Logger,
+    private refunds: RefundService,
+    private config: ConfigService,
+  ) {}
+
+  onModuleInit(): void {
+    const intervalMinutes = Number(
+      this.config.get('REFUND_SWEEP_INTERVAL_MINUTES') ?? 5,
+    );
+    // 0 turns the schedule off
+    if (intervalMinutes > 0) {
+      this.timer = setInterval(
+        () =>
+          void this.sweep().catch((error) =>
+            this.logger.error('Pending refund sweep failed', { error }),
+          ),
+        intervalMinutes * 60 * 1000,
+      );
+      this.timer.unref();
+    }
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // A sweep that is already running is joined rather than started twice
+  async sweep(): Promise<RefundSweepSummary> {
+    this.running ??= this.runSweep().finally(() => {
+      this.running = null;
+    });
+    return await this.running;
+  }
+
+  private async runSweep(): Promise<RefundSweepSummary> {
+    const stale = await this.refundRepository.find({
+      where: {
+        status: RefundStatus.PENDING,
+        createdAt: LessThan(new Date(Date.now() - STALE_AFTER_MS)),
+      },
+      order: { createdAt: 'ASC' },
+      take: SWEEP_BATCH_SIZE,
+    });
+
+    const summary: RefundSweepSummary = {
+      checked: stale.length,
+      sent: 0,
+      errors: 0,
+    };
+
+    // process() claims each refund first, so one that its own request is
+    // sending at the same time is not sent twice
+    for (const refund of stale) {
+      try {
+        await this.refunds.process(refund.id);
+        summary.sent++;
+      } catch (error) {
+        summary.errors++;
+        this.logger.warn('Could not send pending refund', {
+          refundId: refund.id,
+          orderId: refund.orderId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    if (stale.length > 0) {
+      this.logger.info('Pending refund sweep finished', summary);
+    }
+    return summary;
+  }
+}
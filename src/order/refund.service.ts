@@ -0,0 +1,340 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, In, Repository } from 'typeorm';
+import { Logger } from 'winston';
+import { WINSTON_MODULE_PROVIDER } from 'nest-winston';
+import { Order } from './entities/order.entity';
+import { Refund, RefundStatus } from './entities/refund.entity';
+import { ResolveRefundDto } from './dto/resolve-refund.dto';
+import { Paginated, PaginationQueryDto } from '../common/dto';
+import {
+  PAYMENT_PROVIDER,
+  PaymentProvider,
+  PaymentStatus,
+  RefundRefusedError,
+} from '../payment/providers';
+
+// Money is compared in cents, decimals come back from Postgres as strings
+const cents = (amount: number | string) => Math.round(Number(amount) * 100);
+
+const REFUND_STATUS: Record<PaymentStatus, RefundStatus> = {
+  [PaymentStatus.SUCCESS]: RefundStatus.SUCCEEDED,
+  [PaymentStatus.FAILED]: RefundStatus.FAILED,
+  // Accepted, but not settled yet; sending it again would pay twice
+  [PaymentStatus.PENDING]: RefundStatus.PROCESSING,
+};
+
+// How long a refund call may take before its outcome counts as unknown
+const REFUND_TIMEOUT_MS = 30 * 1000;
+
+// The most one requester may refund of an order in all, counting their
+// earlier refunds that did not fail; a seller is held to their own lines
+export type RefundLimit = { requestedById: string; amount: number };
+
+type RefundOutcome = Pick<
+  Refund,
+  'status' | 'providerReference' | 'failureReason'
+>;
+
+@Injectable()
+export class RefundService {
+  constructor(
+    @InjectRepository(Refund)
+    private refundRepository: Repository<Refund>,
+    @Inject(PAYMENT_PROVIDER) private payments: PaymentProvider,
+    @Inject(WINSTON_MODULE_PROVIDER) private readonly logger: Logger,
+    private dataSource: DataSource,
+  ) {}
+
+  async getRefunds(orderId: string): Promise<Refund[]> {
+    return await this.refundRepository.find({
+      where: { orderId },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  // Refunds sent to the provider whose outcome nobody has recorded yet,
+  // oldest first, for an admin to check and resolve
+  async getUnresolved(query: PaginationQueryDto): Promise<Paginated<Refund>> {
+    const { page = 1, limit = 20 } = query;
+
+    const [items, total] = await this.refundRepository.findAndCount({
+      where: { status: In([RefundStatus.PROCESSING, RefundStatus.UNKNOWN]) },
+      order: { createdAt: 'ASC', id: 'ASC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return Paginated.of(items, total, page, limit);
+  }
+
+  // Records a refund of `amount`, or of everything not refunded yet, for an
+  // order the caller has locked. process() sends it to the payment provider
+  // once the transaction has committed. Returns null when nothing is left.
+  async create(
+    manager: EntityManager,
+    order: Order,
+    refund: { amount?: number; reason: string; requestedById: string | null },
+    limit?: RefundLimit,
+  ): Promise<Refund | null> {
+    const remaining = await this.remaining(manager, order, limit);
+    if (refund.amount === undefined && remaining <= 0) {
+      return null;
+    }
+    const amount = refund.amount ?? remaining / 100;
+    this.assertFits(amount, remaining, limit);
+
+    return await manager.save(
+      manager.create(Refund, {
+        orderId: order.id,
+        amount,
+        reason: refund.reason,
+        requestedById: refund.requestedById,
+        status: RefundStatus.PENDING,
+      }),
+    );
+  }
+
+  async processPending(orderId: string): Promise<Refund[]> {
+    const pending = await this.refundRepository.find({
+      where: { orderId, status: RefundStatus.PENDING },
+    });
+
+    const processed: Refund[] = [];
+    for (const refund of pending) {
+      processed.push(await this.process(refund.id));
+    }
+    return processed;
+  }
+
+  // Sends a pending refund to the payment provider. It is claimed first,
+  // so it is never sent twice, and the provider is called outside any
+  // transaction, so a slow gateway holds no lock or connection.
+  async process(refundId: string): Promise<Refund> {
+    const { refund, txRef } = await this.dataSource.transaction(
+      async (manager) => {
+        const refund = await manager.findOne(Refund, {
+          where: { id: refundId },
+          lock: { mode: 'pessimistic_write' },
+        });
+        if (refund?.status !== RefundStatus.PENDING) {
+          return { refund, txRef: null };
+        }
+        const order = await manager.findOne(Order, {
+          where: { id: refund.orderId },
+          loadEagerRelations: false,
+        });
+        refund.status = RefundStatus.PROCESSING;
+        return { refund: await manager.save(refund), txRef: order.txRef };
+      },
+    );
+    if (!txRef) {
+      return refund;
+    }
+
+    let outcome: RefundOutcome;
+    try {
+      const result = await this.payments.refund({
+        txRef,
+        amount: Number(refund.amount),
+        reason: refund.reason,
+        signal: AbortSignal.timeout(REFUND_TIMEOUT_MS),
+      });
+      outcome = {
+        status: REFUND_STATUS[result.status],
+        providerReference: result.reference,
+        failureReason: null,
+      };
+    } catch (error) {
+      const refused = error instanceof RefundRefusedError;
+      outcome = {
+        status: refused ? RefundStatus.FAILED : RefundStatus.UNKNOWN,
+        providerReference: null,
+        failureReason: error.message,
+      };
+      this.logger.error(
+        refused
+          ? 'Payment provider refused the refund'
+          : 'Refund call failed without an answer',
+        { refundId, orderId: refund.orderId, txRef, error },
+      );
+    }
+
+    return await this.settle(refundId, outcome);
+  }
+
+  // Puts a failed refund back in line, if the order still has room for it
+  async retry(
+    orderId: string,
+    refundId: string,
+    limit?: RefundLimit,
+  ): Promise<Refund> {
+    await this.dataSource.transaction(async (manager) => {
+      const order = await manager.findOne(Order, {
+        where: { id: orderId },
+        lock: { mode: 'pessimistic_write' },
+        loadEagerRelations: false,
+      });
+      const refund = await manager.findOne(Refund, {
+        where: { id: refundId, orderId },
+      });
+
+      if (!refund) {
+        throw new NotFoundException('Refund not found');
+      }
+      if (limit && refund.requestedById !== limit.requestedById) {
+        throw new ForbiddenException('Only your own refunds can be retried');
+      }
+      if (refund.status !== RefundStatus.FAILED) {
+        throw new ConflictException(
+          `Only failed refunds can be retried, this one is ${refund.status}`,
+        );
+      }
+
+      // Other refunds may have taken up the room since it failed
+      this.assertFits(
+        refund.amount,
+        await this.remaining(manager, order, limit),
+        limit,
+      );
+      refund.status = RefundStatus.PENDING;
+      refund.failureReason = null;
+      await manager.save(refund);
+    });
+
+    return await this.process(refundId);
+  }
+
+  // Records the outcome of a refund that was sent but never settled, once
+  // an admin has checked it with the payment provider. A failed one can be
+  // retried afterwards like any other.
+  async resolve(
+    orderId: string,
+    refundId: string,
+    dto: ResolveRefundDto,
+  ): Promise<Refund> {
+    return await this.dataSource.transaction(async (manager) => {
+      const refund = await manager.findOne(Refund, {
+        where: { id: refundId, orderId },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      if (!refund) {
+        throw new NotFoundException('Refund not found');
+      }
+      if (
+        refund.status !== RefundStatus.PROCESSING &&
+        refund.status !== RefundStatus.UNKNOWN
+      ) {
+        throw new ConflictException(
+          `Only processing or unknown refunds can be resolved, this one is ${refund.status}`,
+        );
+      }
+      // The call that claimed it may still be waiting for the provider
+      if (
+        refund.status === RefundStatus.PROCESSING &&
+        Date.now() - refund.updatedAt.getTime() < REFUND_TIMEOUT_MS
+      ) {
+        throw new ConflictException(
+          'The refund is still being sent to the payment provider',
+        );
+      }
+
+      return await this.apply(manager, refund, {
+        status: dto.status,
+        providerReference: dto.providerReference ?? refund.providerReference,
+        failureReason:
+          dto.status === RefundStatus.FAILED
+            ? (dto.note ?? refund.failureReason)
+            : null,
+      });
+    });
+  }
+
+  private async settle(
+    refundId: string,
+    outcome: RefundOutcome,
+  ): Promise<Refund> {
+    return await this.dataSource.transaction(async (manager) => {
+      const refund = await manager.findOne(Refund, {
+        where: { id: refundId },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (refund.status !== RefundStatus.PROCESSING) {
+        return refund;
+      }
+      return await this.apply(manager, refund, outcome);
+    });
+  }
+
+  // Saves the outcome of a locked refund, and adds a succeeded one to the
+  // refunded amount of its order
+  private async apply(
+    manager: EntityManager,
+    refund: Refund,
+    outcome: RefundOutcome,
+  ): Promise<Refund> {
+    Object.assign(refund, outcome);
+
+    if (outcome.status === RefundStatus.SUCCEEDED) {
+      const order = await manager.findOne(Order, {
+        where: { id: refund.orderId },
+        lock: { mode: 'pessimistic_write' },
+        loadEagerRelations: false,
+      });
+      order.refundedAmount =
+        (cents(order.refundedAmount) + cents(refund.amount)) / 100;
+      await manager.save(order);
+    }
+
+    this.logger.info('Refund processed', {
+      refundId: refund.id,
+      orderId: refund.orderId,
+      amount: refund.amount,
+      status: refund.status,
+    });
+    return await manager.save(refund);
+  }
+
+  // Cents of the order not covered by refunds that did not fail, and with a
+  // limit no more than the requester has left of it
+  private async remaining(
+    manager: EntityManager,
+    order: Order,
+    limit?: RefundLimit,
+  ): Promise<number> {
+    const refunds = (
+      await manager.find(Refund, { where: { orderId: order.id } })
+    ).filter(({ status }) => status !== RefundStatus.FAILED);
+    const sum = (some: Refund[]) =>
+      some.reduce((total, { amount }) => total + cents(amount), 0);
+
+    const remaining = cents(order.totalPrice) - sum(refunds);
+    if (!limit) {
+      return remaining;
+    }
+    const own = refunds.filter(
+      ({ requestedById }) => requestedById === limit.requestedById,
+    );
+    return Math.min(remaining, cents(limit.amount) - sum(own));
+  }
+
+  private assertFits(
+    amount: number | string,
+    remaining: number,
+    limit?: RefundLimit,
+  ): void {
+    if (cents(amount) > remaining) {
+      throw new BadRequestException(
+        `Only ${(Math.max(remaining, 0) / 100).toFixed(2)} of ${limit ? 'your lines' : 'the order'} can still be refunded`,
+      );
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import {
+  Controller,
+  Get,
+  Inject,
+  NotFoundException,
+  Param,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { NoAuth } from '../common/decorators';
+import {
+  FakePaymentOutcome,
+  FakePaymentProvider,
+  PAYMENT_PROVIDER,
+  PaymentProvider,
+  PaymentVerification,
+} from './providers';
+
+@ApiTags('payments')
+@Controller('payments')
+export class PaymentController {
+  constructor(
+    @Inject(PAYMENT_PROVIDER) private readonly provider: PaymentProvider,
+  ) {}
+
+  @NoAuth()
+  @Get('/fake/:txRef')
+  @ApiOperation({
+    summary: 'Checkout page of the fake payment provider',
+    description:
+      'Only available with PAYMENT_PROVIDER=fake. Settles the payment with the configured outcome (or `outcome`) and posts the webhook to the order callback URL.',
+  })
+  @ApiParam({
+    name: 'txRef',
+    description: 'Transaction reference of the order',
+    example: 'TX-1234567890',
+  })
+  @ApiQuery({
+    name: 'outcome',
+    required: false,
+    enum: FakePaymentOutcome,
+    description: 'Overrides FAKE_PAYMENT_OUTCOME for this payment',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Payment settled (or left pending on timeout)',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Fake provider not enabled or payment not found',
+  })
+  async fakeCheckout(
+    @Param('txRef') txRef: string,
+    @Query('outcome') outcome?: FakePaymentOutcome,
+  ): Promise<PaymentVerification> {
+    if (!(this.provider instanceof FakePaymentProvider)) {
+      throw new NotFoundException();
+    }
+    try {
+      return await this.provider.checkout(txRef, outcome);
+    } catch {
+      throw new NotFoundException('Payment not found');
+    }
+  }
+}
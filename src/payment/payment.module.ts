@@ -0,0 +1,56 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { ChapaModule, ChapaService } from 'chapa-nestjs';
+import { Logger } from 'winston';
+import { WINSTON_MODULE_PROVIDER } from 'nest-winston';
+import { PaymentController } from './payment.controller';
+import {
+  ChapaPaymentProvider,
+  FakePaymentOutcome,
+  FakePaymentProvider,
+  PAYMENT_PROVIDER,
+  PaymentProvider,
+} from './providers';
+
+@Module({
+  imports: [
+    ChapaModule.registerAsync({
+      imports: [ConfigModule],
+      useFactory: async (configService: ConfigService) => ({
+        secretKey: configService.get<string>('CHAPA_TEST_SECRET_KEY'),
+      }),
+      inject: [ConfigService],
+    }),
+  ],
+  controllers: [PaymentController],
+  providers: [
+    {
+      provide: PAYMENT_PROVIDER,
+      useFactory: (
+        config: ConfigService,
+        chapa: ChapaService,
+        logger: Logger,
+      ): PaymentProvider => {
+        switch (config.get('PAYMENT_PROVIDER')) {
+          case 'fake':
+            return new FakePaymentProvider(
+              config.get('CALLBACK_URL') || 'http://localhost:3000',
+              config.get('FAKE_PAYMENT_WEBHOOK_SECRET') ||
+                'fake-webhook-secret',
+              config.get('FAKE_PAYMENT_OUTCOME') || FakePaymentOutcome.SUCCESS,
+              logger,
+            );
+          default:
+            return new ChapaPaymentProvider(
+              chapa,
+              config.get('CHAPA_TEST_SECRET_KEY'),
+              config.get('CHAPA_WEBHOOK_SECRET'),
+            );
+        }
+      },
+      inject: [ConfigService, ChapaService, WINSTON_MODULE_PROVIDER],
+    },
+  ],
+  exports: [PAYMENT_PROVIDER],
+})
+export class PaymentModule {}
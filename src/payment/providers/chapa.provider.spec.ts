@@ -0,0 +1,68 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { ChapaService } from 'chapa-nestjs';
+import { ChapaPaymentProvider } from './chapa.provider';
+import { PaymentStatus } from './payment-provider.interface';
+
+describe('ChapaPaymentProvider', () => {
+  const chapa = { verify: jest.fn() };
+  const provider = new ChapaPaymentProvider(
+    chapa as unknown as ChapaService,
+    'secret-key',
+    'webhook-secret',
+  );
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it('reports a settled payment', async () => {
+    chapa.verify.mockResolvedValueOnce({
+      status: 'success',
+      data: {
+        tx_ref: 'TX-1',
+        status: 'success',
+        amount: '24.00',
+        currency: 'ETB',
+      },
+    });
+
+    expect(await provider.verify('TX-1')).toEqual({
+      txRef: 'TX-1',
+      status: PaymentStatus.SUCCESS,
+      amount: 24,
+      currency: 'ETB',
+    });
+  });
+
+  it('treats a checkout Chapa has no payment for as still pending', async () => {
+    // What the SDK throws for Chapa's 4xx reply
+    chapa.verify.mockRejectedValueOnce(
+      new HttpException(
+        'Invalid transaction or Transaction not found',
+        HttpStatus.NOT_FOUND,
+      ),
+    );
+
+    expect(await provider.verify('TX-1')).toEqual({
+      txRef: 'TX-1',
+      status: PaymentStatus.PENDING,
+      amount: null,
+      currency: null,
+    });
+  });
+
+  it('lets other failures through', async () => {
+    chapa.verify.mockRejectedValueOnce(
+      new HttpException('Invalid API Key', HttpStatus.UNAUTHORIZED),
+    );
+
+    await expect(provider.verify('TX-1')).rejects.toBeInstanceOf(HttpException);
+  });
+
+  it('does not mistake other 400 replies for an unpaid checkout', async () => {
+    // What Chapa answers for a misconfigured secret key
+    chapa.verify.mockRejectedValueOnce(
+      new HttpException('Invalid API Key or User', HttpStatus.BAD_REQUEST),
+    );
+
+    await expect(provider.verify('TX-1')).rejects.toBeInstanceOf(HttpException);
+  });
+});
@@ -0,0 +1,157 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { ChapaService, VerifyResponse } from 'chapa-nestjs';
+import {
+  PaymentProvider,
+  PaymentRequest,
+  PaymentStatus,
+  PaymentVerification,
+  PaymentWebhook,
+  RefundRefusedError,
+  RefundRequest,
+  RefundResult,
+} from './payment-provider.interface';
+import { hmacSha256, parseJson, signatureMatches } from './webhook';
+
+const CHAPA_REFUND_URL = 'https://api.chapa.co/v1/refund';
+
+// Chapa's reply for a tx_ref it holds no payment for. The same statuses
+// also come back for a bad secret key or a malformed request, so only this
+// message means the checkout was never paid.
+const NOT_FOUND_STATUSES = [HttpStatus.BAD_REQUEST, HttpStatus.NOT_FOUND];
+const NOT_FOUND_MESSAGE = /transaction not found/i;
+
+// Chapa reports success, failed, or anything else while the payment is open
+const toStatus = (status: string | undefined): PaymentStatus => {
+  switch (status) {
+    case 'success':
+      return PaymentStatus.SUCCESS;
+    case 'failed':
+      return PaymentStatus.FAILED;
+    default:
+      return PaymentStatus.PENDING;
+  }
+};
+
+export class ChapaPaymentProvider implements PaymentProvider {
+  constructor(
+    private readonly chapa: ChapaService,
+    private readonly secretKey: string,
+    private readonly webhookSecret: string,
+  ) {}
+
+  async initialize(payment: PaymentRequest): Promise<{ checkoutUrl: string }> {
+    const response = await this.chapa.initialize({
+      first_name: payment.customer.firstName,
+      last_name: payment.customer.lastName,
+      email: payment.customer.email,
+      currency: payment.currency,
+      amount: payment.amount.toString(),
+      tx_ref: payment.txRef,
+      callback_url: payment.callbackUrl,
+      customization: {
+        title: 'product order',
+        description: payment.description,
+      },
+    });
+
+    if (!response?.data?.checkout_url) {
+      throw new Error('Chapa returned no checkout URL');
+    }
+    return { checkoutUrl: response.data.checkout_url };
+  }
+
+  async verify(txRef: string): Promise<PaymentVerification> {
+    let response: VerifyResponse;
+    try {
+      response = await this.chapa.verify({ tx_ref: txRef });
+    } catch (error) {
+      // A checkout that was never opened or never paid is still open;
+      // anything else is a real failure
+      if (
+        error instanceof HttpException &&
+        NOT_FOUND_STATUSES.includes(error.getStatus()) &&
+        NOT_FOUND_MESSAGE.test(error.message)
+      ) {
+        return {
+          txRef,
+          status: PaymentStatus.PENDING,
+          amount: null,
+          currency: null,
+        };
+      }
+      throw error;
+    }
+    // A payment only counts as made when the call itself succeeded too
+    const status =
+      response.status !== 'success' && response.data?.status === 'success'
+        ? PaymentStatus.PENDING
+        : toStatus(response.data?.status);
+
+    return {
+      txRef: response.data?.tx_ref ?? txRef,
+      status,
+      amount: response.data?.amount ? Number(response.data.amount) : null,
+      currency: response.data?.currency ?? null,
+    };
+  }
+
+  // The SDK has no refund call, so this goes to the REST API directly
+  async refund(refund: RefundRequest): Promise<RefundResult> {
+    const response = await fetch(
+      `${CHAPA_REFUND_URL}/${encodeURIComponent(refund.txRef)}`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${this.secretKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          reason: refund.reason,
+          amount: refund.amount?.toString(),
+        }),
+        signal: refund.signal,
+      },
+    );
+    const body = await response.json().catch(() => ({}));
+
+    // A 5xx says nothing about whether Chapa went through with it
+    if (response.status >= 500) {
+      throw new Error(`Chapa refund errored: ${response.status}`);
+    }
+    if (!response.ok || body.status !== 'success') {
+      throw new RefundRefusedError(
+        `Chapa refund failed: ${body.message ?? response.status}`,
+      );
+    }
+    return {
+      status: PaymentStatus.SUCCESS,
+      reference: body.data?.chapa_reference ?? null,
+    };
+  }
+
+  parseWebhook(
+    rawBody: Buffer,
+    headers: Record<string, string | string[] | undefined>,
+  ): PaymentWebhook | null {
+    if (
+      !signatureMatches(
+        hmacSha256(this.webhookSecret, rawBody),
+        headers['x-chapa-signature'],
+      )
+    ) {
+      return null;
+    }
+
+    const body = parseJson(rawBody);
+    if (!body?.tx_ref) {
+      return null;
+    }
+    const event = body.event ?? 'charge.success';
+    return {
+      eventId: `${event}:${body.tx_ref}`,
+      txRef: body.tx_ref,
+      event,
+      status: toStatus(body.status),
+    };
+  }
+}
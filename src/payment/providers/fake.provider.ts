@@ -0,0 +1,172 @@
+import * as crypto from 'crypto';
+import { Logger } from 'winston';
+import {
+  PaymentProvider,
+  PaymentRequest,
+  PaymentStatus,
+  PaymentVerification,
+  PaymentWebhook,
+  RefundRefusedError,
+  RefundRequest,
+  RefundResult,
+} from './payment-provider.interface';
+import { hmacSha256, parseJson, signatureMatches } from './webhook';
+
+// What happens when the buyer opens the fake checkout page: the payment
+// succeeds, fails, or is never finished (no webhook, stays pending)
+export enum FakePaymentOutcome {
+  SUCCESS = 'success',
+  FAILURE = 'failure',
+  TIMEOUT = 'timeout',
+}
+
+type FakePayment = PaymentRequest & {
+  status: PaymentStatus;
+  refunded: number;
+};
+
+// Offline stand-in for a gateway, for development and CI. Payments live in
+// memory only; opening the checkout URL settles one with the configured
+// outcome and posts a signed webhook to its callback URL like a real
+// gateway would.
+export class FakePaymentProvider implements PaymentProvider {
+  private readonly payments = new Map<string, FakePayment>();
+
+  constructor(
+    private readonly publicUrl: string,
+    private readonly webhookSecret: string,
+    private readonly outcome: FakePaymentOutcome,
+    private readonly logger: Logger,
+  ) {}
+
+  async initialize(payment: PaymentRequest): Promise<{ checkoutUrl: string }> {
+    this.payments.set(payment.txRef, {
+      ...payment,
+      status: PaymentStatus.PENDING,
+      refunded: 0,
+    });
+    return {
+      checkoutUrl: `${this.publicUrl.replace(/\/+$/, '')}/payments/fake/${encodeURIComponent(payment.txRef)}`,
+    };
+  }
+
+  async verify(txRef: string): Promise<PaymentVerification> {
+    const payment = this.find(txRef);
+    return {
+      txRef,
+      status: payment.status,
+      amount: payment.amount,
+      currency: payment.currency,
+    };
+  }
+
+  async refund(refund: RefundRequest): Promise<RefundResult> {
+    const payment = this.find(refund.txRef);
+    const amount = refund.amount ?? payment.amount - payment.refunded;
+    if (
+      payment.status !== PaymentStatus.SUCCESS ||
+      payment.refunded + amount > payment.amount
+    ) {
+      throw new RefundRefusedError(
+        `Cannot refund ${amount} of payment ${refund.txRef}`,
+      );
+    }
+
+    payment.refunded += amount;
+    return {
+      status: PaymentStatus.SUCCESS,
+      reference: `fake-refund-${crypto.randomUUID()}`,
+    };
+  }
+
+  parseWebhook(
+    rawBody: Buffer,
+    headers: Record<string, string | string[] | undefined>,
+  ): PaymentWebhook | null {
+    if (
+      !signatureMatches(
+        hmacSha256(this.webhookSecret, rawBody),
+        headers['x-fake-signature'],
+      )
+    ) {
+      return null;
+    }
+
+    const body = parseJson(rawBody);
+    if (!body?.id || !body.tx_ref) {
+      return null;
+    }
+    return {
+      eventId: body.id,
+      txRef: body.tx_ref,
+      event: body.event,
+      status: body.status,
+    };
+  }
+
+  // Plays the buyer on the checkout page, then the gateway calling back
+  async checkout(
+    txRef: string,
+    outcome = this.outcome,
+  ): Promise<PaymentVerification> {
+    const payment = this.find(txRef);
+    if (
+      payment.status === PaymentStatus.PENDING &&
+      outcome !== FakePaymentOutcome.TIMEOUT
+    ) {
+      payment.status =
+        outcome === FakePaymentOutcome.SUCCESS
+          ? PaymentStatus.SUCCESS
+          : PaymentStatus.FAILED;
+      await this.sendWebhook(payment);
+    }
+    return await this.verify(txRef);
+  }
+
+  private async sendWebhook(payment: FakePayment): Promise<void> {
+    const body = {
+      id: crypto.randomUUID(),
+      event:
+        payment.status === PaymentStatus.SUCCESS
+          ? 'charge.success'
+          : 'charge.failed',
+      tx_ref: payment.txRef,
+      status: payment.status,
+      amount: payment.amount,
+      currency: payment.currency,
+    };
+
+    const payload = JSON.stringify(body);
+
+    try {
+      const response = await fetch(payment.callbackUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-fake-signature': hmacSha256(this.webhookSecret, payload),
+        },
+        body: payload,
+      });
+      this.logger.info('Fake payment webhook sent', {
+        txRef: payment.txRef,
+        event: body.event,
+        responseStatus: response.status,
+      });
+    } catch (error) {
+      // Verification by tx_ref still works without the webhook
+      this.logger.warn('Fake payment webhook could not be delivered', {
+        txRef: payment.txRef,
+        callbackUrl: payment.callbackUrl,
+        error,
+      });
+    }
+  }
+
+  private find(txRef: string): FakePayment {
+    const payment = this.payments.get(txRef);
+    if (!payment) {
+      throw new Error(`Unknown fake payment: ${txRef}`);
+    }
+    return payment;
+  }
+}
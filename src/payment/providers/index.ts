@@ -0,0 +1,3 @@
+export * from './payment-provider.interface';
+export * from './chapa.provider';
+export * from './fake.provider';
@@ -0,0 +1,67 @@
+export const PAYMENT_PROVIDER = 'PAYMENT_PROVIDER';
+
+export enum PaymentStatus {
+  SUCCESS = 'success',
+  FAILED = 'failed',
+  // Not settled yet, e.g. the buyer has not finished the checkout
+  PENDING = 'pending',
+}
+
+export type PaymentRequest = {
+  txRef: string;
+  amount: number;
+  currency: string;
+  customer: { firstName: string; lastName: string; email: string };
+  description: string;
+  // Where the provider posts its webhook
+  callbackUrl: string;
+};
+
+export type PaymentVerification = {
+  txRef: string;
+  status: PaymentStatus;
+  amount: number | null;
+  currency: string | null;
+};
+
+export type RefundRequest = {
+  txRef: string;
+  // Leaving it out refunds the whole payment
+  amount?: number;
+  reason?: string;
+  // Gives up on the call; the refund may or may not have gone through
+  signal?: AbortSignal;
+};
+
+// Thrown by refund() when the provider answered and turned the refund down.
+// Any other error leaves open whether the money was sent.
+export class RefundRefusedError extends Error {}
+
+export type RefundResult = {
+  status: PaymentStatus;
+  // The provider's id for the refund, when it gives one
+  reference: string | null;
+};
+
+export type PaymentWebhook = {
+  // Same for every delivery of one event, the tx_ref and event name when
+  // the provider sends no id of its own
+  eventId: string;
+  txRef: string;
+  event: string;
+  status: PaymentStatus;
+};
+
+// A payment gateway. Amounts are in major units of the currency.
+export interface PaymentProvider {
+  // Starts a payment and returns the page the buyer pays on
+  initialize(payment: PaymentRequest): Promise<{ checkoutUrl: string }>;
+  verify(txRef: string): Promise<PaymentVerification>;
+  refund(refund: RefundRequest): Promise<RefundResult>;
+  // Checks the signature of a webhook call against the raw request body,
+  // null when it does not match or the body is not a webhook
+  parseWebhook(
+    rawBody: Buffer,
+    headers: Record<string, string | string[] | undefined>,
+  ): PaymentWebhook | null;
+}
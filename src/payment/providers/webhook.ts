@@ -0,0 +1,29 @@
+import * as crypto from 'crypto';
+
+// Hex HMAC-SHA256 of the exact bytes the sender signed
+export function hmacSha256(secret: string, payload: Buffer | string): string {
+  return crypto.createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+// Compares in constant time, so response timing does not leak how much of
+// a forged signature was right
+export function signatureMatches(
+  expected: string,
+  received: string | string[] | undefined,
+): boolean {
+  if (typeof received !== 'string') {
+    return false;
+  }
+  const a = Buffer.from(expected);
+  const b = Buffer.from(received);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+// Null for a body that is not JSON
+export function parseJson(rawBody: Buffer): any {
+  try {
+    return JSON.parse(rawBody.toString('utf8'));
+  } catch {
+    return null;
+  }
+}
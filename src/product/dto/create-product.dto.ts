@@ -4,8 +4,15 @@ import {
   IsNumber,
   Min,
   IsOptional,
+  IsArray,
+  ArrayUnique,
+  IsUUID,
+  ValidateNested,
+  MaxLength,
 } from 'class-validator';
+import { Type } from 'class-transformer';
 import { ApiProperty } from '@nestjs/swagger';
+import { CreateProductVariantDto } from './product-variant.dto';
 
 export class CreateProductDto {
   @ApiProperty({
@@ -16,6 +23,17 @@ export class CreateProductDto {
   @IsString()
   title: string;
 
+  @ApiProperty({
+    description: "Seller's own product code, unique within their catalog",
+    example: 'WH-1000',
+    required: false,
+  })
+  @IsOptional()
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(64)
+  sku?: string;
+
   @ApiProperty({
     description: 'Product description',
     example: 'High-quality wireless headphones with noise cancellation',
@@ -42,6 +60,29 @@ export class CreateProductDto {
   @IsNotEmpty()
   @IsOptional()
   @IsNumber()
-  @Min(1)
+  @Min(0)
   stock?: number;
+
+  @ApiProperty({
+    description: 'IDs of the categories to list the product under',
+    example: ['123e4567-e89b-12d3-a456-426614174000'],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsUUID('all', { each: true })
+  categoryIds?: string[];
+
+  @ApiProperty({
+    description:
+      'Variants with their own SKU, options, price and stock. When present the product stock is the sum of the variant stock',
+    type: [CreateProductVariantDto],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => CreateProductVariantDto)
+  variants?: CreateProductVariantDto[];
 }
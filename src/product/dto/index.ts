@@ -1,2 +1,6 @@
+export * from './product-variant.dto';
 export * from './create-product.dto';
 export * from './update-product.dto';
+export * from './product-query.dto';
+export * from './reorder-images.dto';
+export * from './product-import-query.dto';
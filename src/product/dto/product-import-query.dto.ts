@@ -0,0 +1,19 @@
+import { IsIn, IsOptional } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export const PRODUCT_IMPORT_MODES = ['dry-run', 'commit'] as const;
+
+export type ProductImportMode = (typeof PRODUCT_IMPORT_MODES)[number];
+
+export class ProductImportQueryDto {
+  @ApiProperty({
+    description:
+      'dry-run only validates and reports; commit also writes when every row is valid',
+    enum: PRODUCT_IMPORT_MODES,
+    default: 'dry-run',
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(PRODUCT_IMPORT_MODES)
+  mode: ProductImportMode = 'dry-run';
+}
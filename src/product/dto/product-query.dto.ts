@@ -0,0 +1,120 @@
+import {
+  IsDateString,
+  IsIn,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { PaginationQueryDto } from '../../common/dto';
+import { ProductStatus } from '../entities/product.entity';
+
+// Prefix with `-` for descending order
+export const PRODUCT_SORT_OPTIONS = [
+  'createdAt',
+  '-createdAt',
+  'price',
+  '-price',
+  'title',
+  '-title',
+] as const;
+
+export type ProductSort = (typeof PRODUCT_SORT_OPTIONS)[number];
+
+const LISTABLE_STATUSES = [ProductStatus.ACTIVE, ProductStatus.OUT_OF_STOCK];
+
+export class ProductQueryDto extends PaginationQueryDto {
+  @ApiProperty({
+    description: 'Case-insensitive search over title and description',
+    example: 'headphones',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  q?: string;
+
+  @ApiProperty({
+    description: 'Minimum price (inclusive)',
+    example: 10,
+    minimum: 0,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  minPrice?: number;
+
+  @ApiProperty({
+    description: 'Maximum price (inclusive)',
+    example: 250,
+    minimum: 0,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  maxPrice?: number;
+
+  @ApiProperty({
+    description: 'Product status',
+    enum: LISTABLE_STATUSES,
+    example: ProductStatus.ACTIVE,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(LISTABLE_STATUSES)
+  status?: ProductStatus;
+
+  @ApiProperty({
+    description: 'Only products of this seller (ignored on /products/me)',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID()
+  sellerId?: string;
+
+  @ApiProperty({
+    description: 'Only products in this category or any of its descendants',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID()
+  categoryId?: string;
+
+  @ApiProperty({
+    description: 'Created on or after this date',
+    example: '2024-01-01T00:00:00.000Z',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  createdFrom?: string;
+
+  @ApiProperty({
+    description: 'Created on or before this date',
+    example: '2024-12-31T23:59:59.999Z',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  createdTo?: string;
+
+  @ApiProperty({
+    description: 'Sort field, prefixed with - for descending order',
+    enum: PRODUCT_SORT_OPTIONS,
+    default: '-createdAt',
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(PRODUCT_SORT_OPTIONS)
+  sort?: ProductSort = '-createdAt';
+}
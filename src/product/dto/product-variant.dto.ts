@@ -0,0 +1,102 @@
+import {
+  IsNotEmpty,
+  IsNotEmptyObject,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreateProductVariantDto {
+  @ApiProperty({
+    description: 'Stock keeping unit, unique across the catalog',
+    example: 'TSHIRT-RED-M',
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(64)
+  sku: string;
+
+  @ApiProperty({
+    description: 'Option values identifying the variant',
+    example: { size: 'M', color: 'red' },
+  })
+  @IsNotEmptyObject()
+  options: Record<string, string>;
+
+  @ApiProperty({
+    description: 'Price override, omit to use the product price',
+    example: 24.99,
+    minimum: 0,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  price?: number;
+
+  @ApiProperty({
+    description: 'Available stock quantity',
+    example: 10,
+    minimum: 0,
+  })
+  @IsNumber()
+  @Min(0)
+  stock: number;
+}
+
+export class UpdateProductVariantDto {
+  @ApiProperty({
+    description: 'ID of an existing variant, omit to add a new one',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID()
+  id?: string;
+
+  @ApiProperty({
+    description: 'Stock keeping unit (required for new variants)',
+    example: 'TSHIRT-RED-M',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(64)
+  sku?: string;
+
+  @ApiProperty({
+    description: 'Option values (required for new variants)',
+    example: { size: 'M', color: 'red' },
+    required: false,
+  })
+  @IsOptional()
+  @IsNotEmptyObject()
+  options?: Record<string, string>;
+
+  @ApiProperty({
+    description: 'Price override, null to fall back to the product price',
+    example: 24.99,
+    minimum: 0,
+    nullable: true,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  price?: number | null;
+
+  @ApiProperty({
+    description: 'Available stock quantity',
+    example: 10,
+    minimum: 0,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  stock?: number;
+}
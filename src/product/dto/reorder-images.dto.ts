@@ -0,0 +1,17 @@
+import { ArrayNotEmpty, ArrayUnique, IsArray, IsUUID } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ReorderImagesDto {
+  @ApiProperty({
+    description: 'Every image ID of the product in the desired order',
+    example: [
+      '123e4567-e89b-12d3-a456-426614174000',
+      '0b8e7a4c-3f2d-4e1a-9b6c-5d4e3f2a1b0c',
+    ],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsUUID('all', { each: true })
+  imageIds: string[];
+}
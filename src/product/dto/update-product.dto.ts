@@ -1,6 +1,20 @@
-import { IsString, IsNumber, Min, IsOptional, IsEnum } from 'class-validator';
+import {
+  IsString,
+  IsNumber,
+  Min,
+  IsOptional,
+  IsEnum,
+  IsArray,
+  ArrayUnique,
+  IsUUID,
+  ValidateNested,
+  IsNotEmpty,
+  MaxLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
 import { ApiProperty } from '@nestjs/swagger';
 import { ProductStatus } from '../entities/product.entity';
+import { UpdateProductVariantDto } from './product-variant.dto';
 
 export class UpdateProductDto {
   @ApiProperty({
@@ -19,6 +33,17 @@ export class UpdateProductDto {
   @IsString()
   title?: string;
 
+  @ApiProperty({
+    description: "Seller's own product code, unique within their catalog",
+    example: 'WH-1000',
+    required: false,
+  })
+  @IsOptional()
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(64)
+  sku?: string;
+
   @ApiProperty({
     description: 'Product description',
     example: 'High-quality wireless headphones with noise cancellation',
@@ -47,7 +72,7 @@ export class UpdateProductDto {
   })
   @IsOptional()
   @IsNumber()
-  @Min(1)
+  @Min(0)
   stock?: number;
 
   @ApiProperty({
@@ -59,4 +84,39 @@ export class UpdateProductDto {
   @IsOptional()
   @IsEnum(ProductStatus)
   status?: ProductStatus;
+
+  @ApiProperty({
+    description:
+      'Replaces the product categories; an empty list removes them all',
+    example: ['123e4567-e89b-12d3-a456-426614174000'],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsUUID('all', { each: true })
+  categoryIds?: string[];
+
+  @ApiProperty({
+    description:
+      'Variants to add (without id) or change (with id); variants not listed are kept',
+    type: [UpdateProductVariantDto],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => UpdateProductVariantDto)
+  variants?: UpdateProductVariantDto[];
+
+  @ApiProperty({
+    description: 'IDs of variants to remove',
+    example: ['123e4567-e89b-12d3-a456-426614174000'],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsUUID('all', { each: true })
+  removedVariantIds?: string[];
 }
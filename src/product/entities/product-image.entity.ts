@@ -0,0 +1,91 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { ApiProperty } from '@nestjs/swagger';
+import { Product } from './product.entity';
+
+@Entity()
+export class ProductImage {
+  @ApiProperty({
+    description: 'Image unique identifier',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiProperty({
+    description: 'ID of the product the image belongs to',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Column()
+  productId: string;
+
+  @ManyToOne(() => Product, (product) => product.images, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'productId' })
+  product: Product;
+
+  @ApiProperty({
+    description: 'URL of the original upload',
+    example: '/uploads/products/123e4567/0b8e7a4c/original.jpg',
+  })
+  @Column()
+  url: string;
+
+  @ApiProperty({
+    description: 'Thumbnail URLs by size name',
+    example: {
+      small: '/uploads/products/123e4567/0b8e7a4c/small.webp',
+      medium: '/uploads/products/123e4567/0b8e7a4c/medium.webp',
+      large: '/uploads/products/123e4567/0b8e7a4c/large.webp',
+    },
+  })
+  @Column('jsonb')
+  thumbnails: Record<string, string>;
+
+  // Storage keys of the original and every thumbnail, for cleanup
+  @Column('text', { array: true })
+  storageKeys: string[];
+
+  @ApiProperty({
+    description: 'MIME type of the original',
+    example: 'image/jpeg',
+  })
+  @Column()
+  contentType: string;
+
+  @ApiProperty({ description: 'Original width in pixels', example: 1200 })
+  @Column('int')
+  width: number;
+
+  @ApiProperty({ description: 'Original height in pixels', example: 800 })
+  @Column('int')
+  height: number;
+
+  @ApiProperty({
+    description: 'Display order, starting at 0',
+    example: 0,
+  })
+  @Column('int')
+  position: number;
+
+  @ApiProperty({
+    description: 'Whether this is the main image of the product',
+    example: true,
+  })
+  @Column({ default: false })
+  isPrimary: boolean;
+
+  @ApiProperty({
+    description: 'Image upload date',
+    example: '2024-01-01T00:00:00.000Z',
+  })
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,84 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  DeleteDateColumn,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { ApiProperty } from '@nestjs/swagger';
+import { Product } from './product.entity';
+
+// A purchasable option of a product (e.g. size M in red). Removed variants
+// are soft deleted so past orders keep pointing at them.
+@Entity()
+export class ProductVariant {
+  @ApiProperty({
+    description: 'Variant unique identifier',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiProperty({
+    description: 'ID of the product the variant belongs to',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Column()
+  productId: string;
+
+  @ManyToOne(() => Product, (product) => product.variants, {
+    onDelete: 'CASCADE',
+    orphanedRowAction: 'soft-delete',
+  })
+  @JoinColumn({ name: 'productId' })
+  product: Product;
+
+  @ApiProperty({
+    description: 'Stock keeping unit, unique across the catalog',
+    example: 'TSHIRT-RED-M',
+  })
+  @Column({ unique: true })
+  sku: string;
+
+  @ApiProperty({
+    description: 'Option values identifying the variant',
+    example: { size: 'M', color: 'red' },
+  })
+  @Column('jsonb')
+  options: Record<string, string>;
+
+  @ApiProperty({
+    description: 'Price override, null to use the product price',
+    example: 24.99,
+    nullable: true,
+  })
+  @Column('decimal', { precision: 10, scale: 2, nullable: true })
+  price: number;
+
+  @ApiProperty({
+    description: 'Available stock quantity',
+    example: 10,
+  })
+  @Column('int', { default: 0 })
+  stock: number;
+
+  @ApiProperty({
+    description: 'Variant creation date',
+    example: '2024-01-01T00:00:00.000Z',
+  })
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'Variant last update date',
+    example: '2024-01-01T00:00:00.000Z',
+  })
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @DeleteDateColumn()
+  deletedAt: Date;
+}
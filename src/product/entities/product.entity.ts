@@ -5,10 +5,17 @@ import {
   CreateDateColumn,
   UpdateDateColumn,
   ManyToOne,
+  ManyToMany,
+  OneToMany,
   JoinColumn,
+  JoinTable,
+  Index,
 } from 'typeorm';
 import { ApiProperty } from '@nestjs/swagger';
 import { User } from '../../user/entities/user.entity';
+import { Category } from '../../category/entities/category.entity';
+import { ProductVariant } from './product-variant.entity';
+import { ProductImage } from './product-image.entity';
 
 export enum ProductStatus {
   ACTIVE = 'active',
@@ -17,6 +24,7 @@ export enum ProductStatus {
 }
 
 @Entity()
+@Index(['userId', 'sku'], { unique: true })
 export class Product {
   @ApiProperty({
     description: 'Product unique identifier',
@@ -32,6 +40,14 @@ export class Product {
   @Column()
   title: string;
 
+  @ApiProperty({
+    description: "Seller's own product code, unique within their catalog",
+    example: 'WH-1000',
+    nullable: true,
+  })
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  sku: string | null;
+
   @ApiProperty({
     description: 'Product description',
     example: 'High-quality wireless headphones with noise cancellation',
@@ -47,7 +63,8 @@ export class Product {
   price: number;
 
   @ApiProperty({
-    description: 'Available stock quantity',
+    description:
+      'Available stock quantity (sum of the variant stock when the product has variants)',
     example: 50,
   })
   @Column('int', { default: 1 })
@@ -76,6 +93,34 @@ export class Product {
   @JoinColumn({ name: 'userId' })
   user: User;
 
+  @ApiProperty({
+    description: 'Categories the product is listed under',
+    type: () => [Category],
+  })
+  @ManyToMany(() => Category)
+  @JoinTable({
+    name: 'product_categories',
+    joinColumn: { name: 'productId' },
+    inverseJoinColumn: { name: 'categoryId' },
+  })
+  categories: Category[];
+
+  @ApiProperty({
+    description: 'Purchasable variants, empty for single-option products',
+    type: () => [ProductVariant],
+  })
+  @OneToMany(() => ProductVariant, (variant) => variant.product, {
+    cascade: true,
+  })
+  variants: ProductVariant[];
+
+  @ApiProperty({
+    description: 'Images in display order',
+    type: () => [ProductImage],
+  })
+  @OneToMany(() => ProductImage, (image) => image.product)
+  images: ProductImage[];
+
   @ApiProperty({
     description: 'Product creation date',
     example: '2024-01-01T00:00:00.000Z',
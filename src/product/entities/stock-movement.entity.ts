@@ -0,0 +1,105 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { ApiProperty } from '@nestjs/swagger';
+import { Product } from './product.entity';
+import { ProductVariant } from './product-variant.entity';
+import { User } from '../../user/entities/user.entity';
+import { Order } from '../../order/entities/order.entity';
+
+export enum StockMovementReason {
+  MANUAL_ADJUST = 'manual_adjust',
+  SALE = 'sale',
+  REFUND = 'refund',
+  IMPORT = 'import',
+  // A cancelled line whose variant was removed since; recorded at delta 0
+  RESTOCK_SKIPPED = 'restock_skipped',
+}
+
+// Append-only ledger entry. Rows are never updated, so the deltas of a
+// product always add up to its current stock.
+@Entity()
+@Index(['productId', 'createdAt'])
+export class StockMovement {
+  @ApiProperty({
+    description: 'Movement unique identifier',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiProperty({
+    description: 'ID of the product whose stock changed',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Column()
+  productId: string;
+
+  @ManyToOne(() => Product, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'productId' })
+  product: Product;
+
+  @ApiProperty({
+    description: 'ID of the variant whose stock changed, null for the product',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    nullable: true,
+  })
+  @Column({ type: 'uuid', nullable: true })
+  variantId: string | null;
+
+  @ManyToOne(() => ProductVariant, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'variantId' })
+  variant: ProductVariant;
+
+  @ApiProperty({
+    description: 'Signed change in units',
+    example: -2,
+  })
+  @Column('int')
+  delta: number;
+
+  @ApiProperty({
+    description: 'Why the stock changed',
+    enum: StockMovementReason,
+    example: StockMovementReason.SALE,
+  })
+  @Column({ type: 'enum', enum: StockMovementReason })
+  reason: StockMovementReason;
+
+  @ApiProperty({
+    description: 'ID of the user who caused the change',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    nullable: true,
+  })
+  @Column({ type: 'uuid', nullable: true })
+  actorId: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'actorId' })
+  actor: User;
+
+  @ApiProperty({
+    description: 'ID of the order behind a sale or refund',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    nullable: true,
+  })
+  @Column({ type: 'uuid', nullable: true })
+  orderId: string | null;
+
+  @ManyToOne(() => Order, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'orderId' })
+  order: Order;
+
+  @ApiProperty({
+    description: 'Movement date',
+    example: '2024-01-01T00:00:00.000Z',
+  })
+  @CreateDateColumn()
+  createdAt: Date;
+}
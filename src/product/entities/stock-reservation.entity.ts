@@ -0,0 +1,70 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Product } from './product.entity';
+import { ProductVariant } from './product-variant.entity';
+import { Order } from '../../order/entities/order.entity';
+
+export enum ReservationStatus {
+  ACTIVE = 'active',
+  // The paid order took the units out of stock
+  CONSUMED = 'consumed',
+  RELEASED = 'released',
+}
+
+// Units held for a pending order. An active hold stops counting once
+// expiresAt has passed, even before anything marks it released.
+@Entity()
+@Index(['productId', 'status'])
+export class StockReservation {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column()
+  orderId: string;
+
+  @ManyToOne(() => Order, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'orderId' })
+  order: Order;
+
+  @Column()
+  productId: string;
+
+  @ManyToOne(() => Product, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'productId' })
+  product: Product;
+
+  @Column({ type: 'uuid', nullable: true })
+  variantId: string | null;
+
+  @ManyToOne(() => ProductVariant, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'variantId' })
+  variant: ProductVariant;
+
+  @Column('int')
+  quantity: number;
+
+  @Column({
+    type: 'enum',
+    enum: ReservationStatus,
+    default: ReservationStatus.ACTIVE,
+  })
+  status: ReservationStatus;
+
+  @Column()
+  expiresAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
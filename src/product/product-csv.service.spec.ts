@@ -0,0 +1,233 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { WINSTON_MODULE_PROVIDER } from 'nest-winston';
+import { ProductCsvService } from './product-csv.service';
+import { StockLedgerService } from './stock-ledger.service';
+import { StockMovement } from './entities/stock-movement.entity';
+import { Product, ProductStatus } from './entities/product.entity';
+import { CategoryService } from '../category/category.service';
+
+describe('ProductCsvService', () => {
+  let service: ProductCsvService;
+  let products: Product[];
+
+  const sellerId = '5f6b1c2e-8d4a-4b7e-9c3f-2a1d0e9b8c7a';
+  const header = 'id,sku,title,description,price,stock,categoryIds';
+
+  const product = (id: string, sku: string, stock = 5) =>
+    ({
+      id,
+      sku,
+      title: `Product ${id}`,
+      description: 'Existing product',
+      price: 10,
+      stock,
+      status: stock > 0 ? ProductStatus.ACTIVE : ProductStatus.OUT_OF_STOCK,
+      userId: sellerId,
+      categories: [],
+      variants: [],
+    }) as Product;
+
+  const productRepository = {
+    create: jest.fn((data) => ({ status: ProductStatus.ACTIVE, ...data })),
+    find: jest.fn(async ({ skip = 0 }) => (skip === 0 ? products : [])),
+  };
+
+  const manager = {
+    save: jest.fn(async (_target, rows: Product[]) =>
+      rows.map((row, index) => ({ ...row, id: row.id ?? `new-${index}` })),
+    ),
+    insert: jest.fn(),
+  };
+
+  const csv = (...lines: string[]) =>
+    Buffer.from([header, ...lines].join('\n'));
+
+  beforeEach(async () => {
+    products = [product('a1', 'MUG-01'), product('b2', null)];
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProductCsvService,
+        { provide: getRepositoryToken(Product), useValue: productRepository },
+        StockLedgerService,
+        { provide: getRepositoryToken(StockMovement), useValue: {} },
+        {
+          provide: CategoryService,
+          useValue: {
+            findByIds: jest.fn(async (ids: string[]) => {
+              throw new BadRequestException(`Unknown category: ${ids[0]}`);
+            }),
+          },
+        },
+        {
+          provide: DataSource,
+          useValue: { transaction: jest.fn(async (work) => work(manager)) },
+        },
+        {
+          provide: WINSTON_MODULE_PROVIDER,
+          useValue: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ProductCsvService>(ProductCsvService);
+  });
+
+  it('reports every invalid row without writing on a dry run', async () => {
+    const report = await service.importProducts(
+      sellerId,
+      csv(
+        ',NEW-01,Lamp,Desk lamp,25,3,',
+        ',,Chair,Office chair,-4,2,',
+        'missing,,Table,Oak table,90,1,',
+        ',,Rug,Wool rug,40,1,00000000-0000-0000-0000-000000000000',
+      ),
+      'dry-run',
+    );
+
+    expect(report).toMatchObject({
+      committed: false,
+      total: 4,
+      created: 1,
+      failed: 3,
+    });
+    expect(report.rows.map(({ row, errors }) => [row, errors.length])).toEqual([
+      [2, 0],
+      [3, 1],
+      [4, 1],
+      [5, 1],
+    ]);
+    expect(report.rows[1].errors[0]).toContain('price');
+    expect(manager.save).not.toHaveBeenCalled();
+  });
+
+  it('updates by id or sku and creates the rest in one transaction', async () => {
+    const report = await service.importProducts(
+      sellerId,
+      csv(
+        ',MUG-01,Mug,Large mug,12.5,,',
+        'b2,BOWL-01,Bowl,Soup bowl,8,4,',
+        ',,Plate,Dinner plate,6,10,',
+      ),
+      'commit',
+    );
+
+    expect(report).toMatchObject({ committed: true, created: 1, updated: 2 });
+    expect(report.rows.map(({ productId }) => productId)).toEqual([
+      'a1',
+      'b2',
+      'new-2',
+    ]);
+    expect(products[0]).toMatchObject({ price: 12.5, stock: 5 });
+    expect(products[1]).toMatchObject({ sku: 'BOWL-01', stock: 4 });
+    expect(manager.save).toHaveBeenCalledTimes(1);
+    // b2 went from 5 to 4 units and the plate starts at 10
+    expect(manager.insert).toHaveBeenCalledWith(StockMovement, [
+      expect.objectContaining({ productId: 'b2', delta: -1, reason: 'import' }),
+      expect.objectContaining({ productId: 'new-2', delta: 10 }),
+    ]);
+  });
+
+  it('marks products out of stock and back like a manual update', async () => {
+    products = [product('a1', 'MUG-01'), product('b2', 'BOWL-01', 0)];
+
+    await service.importProducts(
+      sellerId,
+      csv(
+        ',MUG-01,Mug,Large mug,12,0,',
+        ',BOWL-01,Bowl,Soup bowl,8,3,',
+        ',,Plate,Dinner plate,6,0,',
+      ),
+      'commit',
+    );
+
+    expect(products[0]).toMatchObject({
+      stock: 0,
+      status: ProductStatus.OUT_OF_STOCK,
+    });
+    expect(products[1]).toMatchObject({
+      stock: 3,
+      status: ProductStatus.ACTIVE,
+    });
+    expect(manager.save.mock.calls[0][1][2]).toMatchObject({
+      title: 'Plate',
+      status: ProductStatus.OUT_OF_STOCK,
+    });
+  });
+
+  it('writes nothing in commit mode when any row is invalid', async () => {
+    const report = await service.importProducts(
+      sellerId,
+      csv(
+        ',,Plate,Dinner plate,6,10,',
+        ',MUG-01,Mug,Large mug,3,,',
+        'a1,,Mug,Mug,4,,',
+      ),
+      'commit',
+    );
+
+    expect(report.committed).toBe(false);
+    expect(report.rows[2].errors).toEqual([
+      'Product appears more than once in the file',
+    ]);
+    expect(manager.save).not.toHaveBeenCalled();
+  });
+
+  it('imports the exported status column with the rules of a manual update', async () => {
+    const withStatus = (...lines: string[]) =>
+      Buffer.from(
+        [
+          'id,sku,title,description,price,stock,status,categoryIds',
+          ...lines,
+        ].join('\n'),
+      );
+
+    const refused = await service.importProducts(
+      sellerId,
+      withStatus(
+        'a1,MUG-01,Mug,Large mug,12,,deleted,',
+        'b2,,Bowl,Soup bowl,8,,archived,',
+      ),
+      'dry-run',
+    );
+    expect(refused.rows.map(({ errors }) => errors)).toEqual([
+      ['Cannot set status to DELETED. Use delete endpoint instead'],
+      [expect.stringContaining('status must be one of')],
+    ]);
+
+    const report = await service.importProducts(
+      sellerId,
+      withStatus(
+        'a1,MUG-01,Mug,Large mug,12,,out_of_stock,',
+        'b2,,Bowl,Soup bowl,8,,,',
+        ',,Plate,Dinner plate,6,10,out_of_stock,',
+      ),
+      'commit',
+    );
+
+    expect(report.committed).toBe(true);
+    expect(products[0].status).toBe(ProductStatus.OUT_OF_STOCK);
+    expect(products[1].status).toBe(ProductStatus.ACTIVE);
+    expect(manager.save.mock.calls[0][1][2]).toMatchObject({
+      title: 'Plate',
+      status: ProductStatus.OUT_OF_STOCK,
+    });
+  });
+
+  it('exports the catalog with the import columns', async () => {
+    let output = '';
+    for await (const chunk of service.exportProducts(sellerId)) {
+      output += chunk;
+    }
+
+    expect(output.trim().split('\n')).toEqual([
+      'id,sku,title,description,price,stock,status,categoryIds',
+      'a1,MUG-01,Product a1,Existing product,10,5,active,',
+      'b2,,Product b2,Existing product,10,5,active,',
+    ]);
+  });
+});
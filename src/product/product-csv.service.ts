@@ -0,0 +1,379 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  InternalServerErrorException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, Not, Repository } from 'typeorm';
+import { Readable, pipeline } from 'stream';
+import { parse } from 'csv-parse/sync';
+import { stringify } from 'csv-stringify';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { Logger } from 'winston';
+import { WINSTON_MODULE_PROVIDER } from 'nest-winston';
+import { Product, ProductStatus } from './entities/product.entity';
+import { stockStatus } from './product-stock-status';
+import { StockMovementReason } from './entities/stock-movement.entity';
+import {
+  EMPTY_STOCK,
+  StockLedgerService,
+  StockSnapshot,
+} from './stock-ledger.service';
+import { Category } from '../category/entities/category.entity';
+import { CategoryService } from '../category/category.service';
+import { CreateProductDto, ProductImportMode, UpdateProductDto } from './dto';
+
+export const MAX_PRODUCT_IMPORT_BYTES = 2 * 1024 * 1024;
+const MAX_IMPORT_ROWS = 1000;
+const EXPORT_BATCH_SIZE = 500;
+
+export const PRODUCT_CSV_COLUMNS = [
+  'id',
+  'sku',
+  'title',
+  'description',
+  'price',
+  'stock',
+  'status',
+  'categoryIds',
+];
+const REQUIRED_COLUMNS = ['title', 'description', 'price'];
+// Several category ids share one cell
+const LIST_SEPARATOR = '|';
+
+// A row as POST /product takes it, plus the status column of the export
+type ProductImportFields = CreateProductDto & { status?: ProductStatus };
+
+export type ProductImportRow = {
+  // Spreadsheet row number, the header being row 1
+  row: number;
+  action: 'create' | 'update';
+  productId: string | null;
+  errors: string[];
+};
+
+export type ProductImportReport = {
+  mode: ProductImportMode;
+  committed: boolean;
+  total: number;
+  created: number;
+  updated: number;
+  failed: number;
+  rows: ProductImportRow[];
+};
+
+@Injectable()
+export class ProductCsvService {
+  constructor(
+    @InjectRepository(Product)
+    private productRepository: Repository<Product>,
+    private categoryService: CategoryService,
+    private stockLedger: StockLedgerService,
+    private dataSource: DataSource,
+    @Inject(WINSTON_MODULE_PROVIDER) private readonly logger: Logger,
+  ) {}
+
+  async importProducts(
+    userId: string,
+    file: Buffer,
+    mode: ProductImportMode,
+  ): Promise<ProductImportReport> {
+    const records = this.parseCsv(file);
+
+    // Deleted products are loaded too: they can't be updated but still hold
+    // their SKU
+    const catalog = await this.productRepository.find({
+      where: { userId },
+      relations: ['categories', 'variants'],
+    });
+    const byId = new Map(
+      catalog
+        .filter((product) => product.status !== ProductStatus.DELETED)
+        .map((product) => [product.id, product]),
+    );
+    const bySku = new Map(
+      catalog
+        .filter((product) => product.sku)
+        .map((product) => [product.sku, product]),
+    );
+
+    const rows: ProductImportRow[] = [];
+    const pending: {
+      row: ProductImportRow;
+      product: Product;
+      stockBefore: StockSnapshot;
+    }[] = [];
+    const seenKeys = new Set<string>();
+
+    for (const [index, record] of records.entries()) {
+      const dto = this.toDto(record);
+      const existing = record.id
+        ? byId.get(record.id)
+        : dto.sku
+          ? bySku.get(dto.sku)
+          : undefined;
+      const row: ProductImportRow = {
+        row: index + 2,
+        action: existing ? 'update' : 'create',
+        productId: existing?.id ?? null,
+        errors: [
+          ...(await this.validateDto(dto)),
+          ...(await this.validateStatus(dto.status)),
+        ],
+      };
+      rows.push(row);
+
+      if (record.id && !existing) {
+        row.errors.push('Product not found');
+      }
+      if (existing?.status === ProductStatus.DELETED) {
+        row.errors.push(`SKU ${dto.sku} belongs to a deleted product`);
+      }
+      const skuHolder = dto.sku ? bySku.get(dto.sku) : undefined;
+      if (skuHolder && skuHolder !== existing) {
+        row.errors.push(`SKU ${dto.sku} is already in use`);
+      }
+
+      const keys = [existing?.id, dto.sku && `sku:${dto.sku}`].filter(Boolean);
+      if (keys.some((key) => seenKeys.has(key))) {
+        row.errors.push('Product appears more than once in the file');
+      }
+      keys.forEach((key) => seenKeys.add(key));
+
+      if (
+        existing &&
+        existing.variants.length > 0 &&
+        dto.stock !== undefined &&
+        dto.stock !== existing.stock
+      ) {
+        row.errors.push(
+          'Stock of a product with variants is managed per variant',
+        );
+      }
+
+      let categories: Category[];
+      if (dto.categoryIds && row.errors.length === 0) {
+        try {
+          categories = await this.categoryService.findByIds(dto.categoryIds);
+        } catch (error) {
+          if (!(error instanceof BadRequestException)) throw error;
+          row.errors.push(error.message);
+        }
+      }
+
+      if (row.errors.length === 0) {
+        pending.push({
+          row,
+          stockBefore: existing
+            ? this.stockLedger.snapshot(existing)
+            : EMPTY_STOCK,
+          product: existing
+            ? this.applyRow(existing, dto, categories)
+            : this.productRepository.create({
+                ...dto,
+                status:
+                  dto.status ?? stockStatus(ProductStatus.ACTIVE, dto.stock),
+                userId,
+                categories: categories ?? [],
+              }),
+        });
+      }
+    }
+
+    const failed = rows.length - pending.length;
+    // All or nothing, so a fixed file can simply be uploaded again
+    const committed = mode === 'commit' && failed === 0;
+
+    if (committed) {
+      try {
+        const saved = await this.dataSource.transaction(async (manager) => {
+          const products = await manager.save(
+            Product,
+            pending.map(({ product }) => product),
+          );
+          await this.stockLedger.record(
+            manager,
+            products.flatMap((product, index) =>
+              this.stockLedger.changesSince(
+                pending[index].stockBefore,
+                product,
+                StockMovementReason.IMPORT,
+                userId,
+              ),
+            ),
+          );
+          return products;
+        });
+        saved.forEach((product, index) => {
+          pending[index].row.productId = product.id;
+        });
+      } catch (error) {
+        this.logger.error('Failed to import products', { userId, error });
+        throw new InternalServerErrorException('Failed to import products');
+      }
+    }
+
+    const report: ProductImportReport = {
+      mode,
+      committed,
+      total: rows.length,
+      created: pending.filter(({ row }) => row.action === 'create').length,
+      updated: pending.filter(({ row }) => row.action === 'update').length,
+      failed,
+      rows,
+    };
+
+    this.logger.info('Product import processed', {
+      userId,
+      mode,
+      committed,
+      total: report.total,
+      failed,
+    });
+
+    return report;
+  }
+
+  exportProducts(userId: string): Readable {
+    return pipeline(
+      Readable.from(this.exportRows(userId)),
+      stringify({ header: true, columns: PRODUCT_CSV_COLUMNS }),
+      (error) => {
+        if (error) {
+          this.logger.error('Failed to export products', { userId, error });
+        }
+      },
+    );
+  }
+
+  private parseCsv(file: Buffer): Record<string, string>[] {
+    let records: Record<string, string>[];
+    try {
+      records = parse(file, {
+        columns: true,
+        bom: true,
+        trim: true,
+        skip_empty_lines: true,
+      });
+    } catch (error) {
+      throw new BadRequestException(`Invalid CSV: ${error.message}`);
+    }
+
+    if (records.length === 0) {
+      throw new BadRequestException('CSV file has no rows');
+    }
+    if (records.length > MAX_IMPORT_ROWS) {
+      throw new BadRequestException(
+        `A CSV import can have at most ${MAX_IMPORT_ROWS} rows`,
+      );
+    }
+    const missing = REQUIRED_COLUMNS.filter(
+      (column) => !(column in records[0]),
+    );
+    if (missing.length > 0) {
+      throw new BadRequestException(
+        `CSV is missing columns: ${missing.join(', ')}`,
+      );
+    }
+
+    return records;
+  }
+
+  // Empty cells mean "not set", so updates keep the current value
+  private toDto(record: Record<string, string>): ProductImportFields {
+    const number = (value?: string) => (value ? Number(value) : undefined);
+
+    return {
+      sku: record.sku || undefined,
+      title: record.title,
+      description: record.description,
+      price: number(record.price),
+      stock: number(record.stock),
+      status: (record.status || undefined) as ProductStatus,
+      categoryIds: record.categoryIds
+        ? record.categoryIds
+            .split(LIST_SEPARATOR)
+            .map((id) => id.trim())
+            .filter(Boolean)
+        : undefined,
+    };
+  }
+
+  // Same rules as POST /product
+  private async validateDto(dto: ProductImportFields): Promise<string[]> {
+    const errors = await validate(plainToInstance(CreateProductDto, dto));
+    return errors.flatMap((error) => Object.values(error.constraints ?? {}));
+  }
+
+  // Same rules as a status change through PUT /products/adjust
+  private async validateStatus(status?: ProductStatus): Promise<string[]> {
+    if (status === undefined) {
+      return [];
+    }
+    if (status === ProductStatus.DELETED) {
+      return ['Cannot set status to DELETED. Use delete endpoint instead'];
+    }
+    const errors = await validate(
+      plainToInstance(UpdateProductDto, { status }),
+      { skipMissingProperties: true },
+    );
+    return errors.flatMap((error) => Object.values(error.constraints ?? {}));
+  }
+
+  private applyRow(
+    product: Product,
+    dto: ProductImportFields,
+    categories?: Category[],
+  ): Product {
+    product.title = dto.title;
+    product.description = dto.description;
+    product.price = dto.price;
+    if (dto.sku !== undefined) product.sku = dto.sku;
+    if (categories) product.categories = categories;
+
+    if (dto.stock !== undefined && product.variants.length === 0) {
+      product.stock = dto.stock;
+      product.status = stockStatus(product.status, dto.stock);
+    }
+    // A status in the file wins over the one the stock implies, like on
+    // PUT /products/adjust
+    if (dto.status !== undefined) product.status = dto.status;
+
+    return product;
+  }
+
+  private async *exportRows(
+    userId: string,
+  ): AsyncGenerator<Record<string, unknown>> {
+    for (let skip = 0; ; skip += EXPORT_BATCH_SIZE) {
+      const products = await this.productRepository.find({
+        where: { userId, status: Not(ProductStatus.DELETED) },
+        relations: ['categories'],
+        order: { createdAt: 'ASC', id: 'ASC' },
+        skip,
+        take: EXPORT_BATCH_SIZE,
+      });
+
+      for (const product of products) {
+        yield {
+          id: product.id,
+          sku: product.sku,
+          title: product.title,
+          description: product.description,
+          price: Number(product.price),
+          stock: product.stock,
+          status: product.status,
+          categoryIds: product.categories
+            .map((category) => category.id)
+            .join(LIST_SEPARATOR),
+        };
+      }
+
+      if (products.length < EXPORT_BATCH_SIZE) {
+        return;
+      }
+    }
+  }
+}
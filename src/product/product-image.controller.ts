@@ -0,0 +1,209 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  HttpCode,
+  HttpStatus,
+  MaxFileSizeValidator,
+  Param,
+  ParseFilePipe,
+  Patch,
+  Post,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBody,
+  ApiBearerAuth,
+  ApiSecurity,
+  ApiParam,
+  ApiConsumes,
+} from '@nestjs/swagger';
+import {
+  MAX_PRODUCT_IMAGE_BYTES,
+  ProductImageService,
+} from './product-image.service';
+import { ApiKeyScope } from '../auth/entities';
+import { ApiKeyScopes, GetCurrentUser } from '../common/decorators';
+import { userReq } from '../common/types';
+import { ReorderImagesDto } from './dto';
+import { ProductImage } from './entities/product-image.entity';
+
+@ApiTags('products')
+@ApiBearerAuth('JWT-auth')
+@ApiSecurity('api-key')
+@ApiKeyScopes(ApiKeyScope.PRODUCTS_WRITE)
+@ApiParam({
+  name: 'productId',
+  description: 'Product ID',
+  example: '123e4567-e89b-12d3-a456-426614174000',
+})
+@Controller('products/:productId/images')
+export class ProductImageController {
+  constructor(private productImageService: ProductImageService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @UseInterceptors(
+    FileInterceptor('image', { limits: { fileSize: MAX_PRODUCT_IMAGE_BYTES } }),
+  )
+  @ApiOperation({
+    summary: 'Upload a product image (owner only)',
+    description:
+      'Accepts jpeg, png or webp up to 5 MB. Small, medium and large webp thumbnails are generated. The first image becomes the primary one.',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['image'],
+      properties: {
+        image: { type: 'string', format: 'binary' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Image uploaded successfully',
+    type: ProductImage,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Bad request - missing file, unsupported type or too many images',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - not the product owner',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Product not found',
+  })
+  @ApiResponse({
+    status: 413,
+    description: 'Payload too large - file exceeds 5 MB',
+  })
+  async uploadImage(
+    @GetCurrentUser() user: userReq,
+    @Param('productId') productId: string,
+    @UploadedFile(
+      new ParseFilePipe({
+        validators: [
+          new MaxFileSizeValidator({ maxSize: MAX_PRODUCT_IMAGE_BYTES }),
+        ],
+      }),
+    )
+    file: Express.Multer.File,
+  ): Promise<ProductImage> {
+    return await this.productImageService.uploadImage(
+      productId,
+      user.userId,
+      file,
+    );
+  }
+
+  @Patch('/order')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Reorder product images (owner only)' })
+  @ApiBody({ type: ReorderImagesDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Images in their new order',
+    type: [ProductImage],
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - the list does not match the product images',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - not the product owner',
+  })
+  async reorderImages(
+    @GetCurrentUser() user: userReq,
+    @Param('productId') productId: string,
+    @Body() dto: ReorderImagesDto,
+  ): Promise<ProductImage[]> {
+    return await this.productImageService.reorderImages(
+      productId,
+      user.userId,
+      dto.imageIds,
+    );
+  }
+
+  @Patch('/:imageId/primary')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Make an image the primary one (owner only)' })
+  @ApiParam({
+    name: 'imageId',
+    description: 'Image ID',
+    example: '0b8e7a4c-3f2d-4e1a-9b6c-5d4e3f2a1b0c',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Product images with the updated primary flag',
+    type: [ProductImage],
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - not the product owner',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Product or image not found',
+  })
+  async setPrimaryImage(
+    @GetCurrentUser() user: userReq,
+    @Param('productId') productId: string,
+    @Param('imageId') imageId: string,
+  ): Promise<ProductImage[]> {
+    return await this.productImageService.setPrimaryImage(
+      productId,
+      user.userId,
+      imageId,
+    );
+  }
+
+  @Delete('/:imageId')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Delete a product image (owner only)' })
+  @ApiParam({
+    name: 'imageId',
+    description: 'Image ID',
+    example: '0b8e7a4c-3f2d-4e1a-9b6c-5d4e3f2a1b0c',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Image deleted successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        message: {
+          type: 'string',
+          example: 'Image deleted successfully',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - not the product owner',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Product or image not found',
+  })
+  async deleteImage(
+    @GetCurrentUser() user: userReq,
+    @Param('productId') productId: string,
+    @Param('imageId') imageId: string,
+  ): Promise<{ message: string }> {
+    await this.productImageService.deleteImage(productId, user.userId, imageId);
+    return { message: 'Image deleted successfully' };
+  }
+}
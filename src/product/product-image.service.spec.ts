@@ -0,0 +1,119 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException } from '@nestjs/common';
+import { WINSTON_MODULE_PROVIDER } from 'nest-winston';
+import * as sharp from 'sharp';
+import { ProductImageService } from './product-image.service';
+import { ProductService } from './product.service';
+import { ProductImage } from './entities/product-image.entity';
+import { STORAGE_ADAPTER } from '../storage/adapters';
+
+describe('ProductImageService', () => {
+  let service: ProductImageService;
+  let images: ProductImage[];
+  let stored: Map<string, Buffer>;
+
+  const productId = '0d9c8b7a-6f5e-4d3c-2b1a-0f9e8d7c6b5a';
+  const sellerId = '5f6b1c2e-8d4a-4b7e-9c3f-2a1d0e9b8c7a';
+
+  const imageRepository = {
+    create: jest.fn((data) => data),
+    save: jest.fn(async (rows) => {
+      for (const row of [rows].flat()) {
+        images = [...images.filter(({ id }) => id !== row.id), row];
+      }
+      return rows;
+    }),
+    remove: jest.fn(async (row) => {
+      images = images.filter(({ id }) => id !== row.id);
+    }),
+    countBy: jest.fn(async () => images.length),
+    find: jest.fn(async () =>
+      [...images].sort((a, b) => a.position - b.position),
+    ),
+  };
+
+  const storage = {
+    put: jest.fn(async (key, data) => {
+      stored.set(key, data);
+    }),
+    delete: jest.fn(async (key) => {
+      stored.delete(key);
+    }),
+    getUrl: jest.fn((key) => `/uploads/${key}`),
+  };
+
+  const upload = async (format: 'png' | 'gif' = 'png') => {
+    const buffer = await sharp({
+      create: { width: 1000, height: 500, channels: 3, background: '#c33' },
+    })
+      .toFormat(format)
+      .toBuffer();
+    return await service.uploadImage(productId, sellerId, {
+      buffer,
+      size: buffer.length,
+    } as Express.Multer.File);
+  };
+
+  beforeEach(async () => {
+    images = [];
+    stored = new Map();
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProductImageService,
+        {
+          provide: getRepositoryToken(ProductImage),
+          useValue: imageRepository,
+        },
+        {
+          provide: ProductService,
+          useValue: { getProductById: jest.fn(async () => ({})) },
+        },
+        { provide: STORAGE_ADAPTER, useValue: storage },
+        {
+          provide: WINSTON_MODULE_PROVIDER,
+          useValue: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ProductImageService>(ProductImageService);
+  });
+
+  it('stores the original with resized thumbnails', async () => {
+    const image = await upload();
+
+    expect(image.isPrimary).toBe(true);
+    expect(image.contentType).toBe('image/png');
+    expect(image.url).toMatch(/original\.png$/);
+    expect(Object.keys(image.thumbnails)).toEqual(['small', 'medium', 'large']);
+
+    const small = await sharp(stored.get(image.storageKeys[1])).metadata();
+    expect(small.format).toBe('webp');
+    expect(small.width).toBe(150);
+  });
+
+  it('rejects files that are not a supported image', async () => {
+    await expect(upload('gif')).rejects.toBeInstanceOf(BadRequestException);
+    await expect(
+      service.uploadImage(productId, sellerId, {
+        buffer: Buffer.from('not an image'),
+      } as Express.Multer.File),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(stored.size).toBe(0);
+  });
+
+  it('promotes the next image when the primary one is deleted', async () => {
+    const first = await upload();
+    const second = await upload();
+
+    await service.deleteImage(productId, sellerId, first.id);
+
+    expect(images).toEqual([
+      expect.objectContaining({ id: second.id, position: 0, isPrimary: true }),
+    ]);
+    expect(stored.size).toBe(4);
+  });
+});
@@ -0,0 +1,256 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  InternalServerErrorException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { randomUUID } from 'crypto';
+import * as sharp from 'sharp';
+import { Logger } from 'winston';
+import { WINSTON_MODULE_PROVIDER } from 'nest-winston';
+import { ProductImage } from './entities/product-image.entity';
+import { ProductService } from './product.service';
+import { STORAGE_ADAPTER, StorageAdapter } from '../storage/adapters';
+
+export const MAX_PRODUCT_IMAGE_BYTES = 5 * 1024 * 1024;
+const MAX_IMAGES_PER_PRODUCT = 10;
+
+// Bounding box edge in pixels; thumbnails keep the aspect ratio
+const THUMBNAIL_SIZES = {
+  small: 150,
+  medium: 400,
+  large: 800,
+};
+
+// Keyed by the format sharp detects from the file content, so a renamed
+// or mislabeled upload cannot slip through
+const SUPPORTED_FORMATS: Record<
+  string,
+  { contentType: string; extension: string }
+> = {
+  jpeg: { contentType: 'image/jpeg', extension: 'jpg' },
+  png: { contentType: 'image/png', extension: 'png' },
+  webp: { contentType: 'image/webp', extension: 'webp' },
+};
+
+@Injectable()
+export class ProductImageService {
+  constructor(
+    @InjectRepository(ProductImage)
+    private imageRepository: Repository<ProductImage>,
+    private productService: ProductService,
+    @Inject(STORAGE_ADAPTER) private storage: StorageAdapter,
+    @Inject(WINSTON_MODULE_PROVIDER) private readonly logger: Logger,
+  ) {}
+
+  async uploadImage(
+    productId: string,
+    userId: string,
+    file: Express.Multer.File,
+  ): Promise<ProductImage> {
+    // Throws unless the product exists and belongs to the caller
+    await this.productService.getProductById(productId, userId);
+
+    const imageCount = await this.imageRepository.countBy({ productId });
+    if (imageCount >= MAX_IMAGES_PER_PRODUCT) {
+      throw new BadRequestException(
+        `A product can have at most ${MAX_IMAGES_PER_PRODUCT} images`,
+      );
+    }
+
+    let metadata: sharp.Metadata;
+    try {
+      metadata = await sharp(file.buffer).metadata();
+    } catch {
+      throw new BadRequestException('File is not a valid image');
+    }
+
+    const format = SUPPORTED_FORMATS[metadata.format];
+    if (!format) {
+      this.logger.warn('Unsupported image upload', {
+        productId,
+        userId,
+        format: metadata.format,
+      });
+      throw new BadRequestException(
+        'Unsupported image type. Allowed types: jpeg, png, webp',
+      );
+    }
+
+    const imageId = randomUUID();
+    const baseKey = `products/${productId}/${imageId}`;
+    const files: { key: string; data: Buffer; contentType: string }[] = [
+      {
+        key: `${baseKey}/original.${format.extension}`,
+        data: file.buffer,
+        contentType: format.contentType,
+      },
+    ];
+
+    try {
+      for (const [name, size] of Object.entries(THUMBNAIL_SIZES)) {
+        files.push({
+          key: `${baseKey}/${name}.webp`,
+          data: await sharp(file.buffer)
+            .rotate()
+            .resize(size, size, { fit: 'inside', withoutEnlargement: true })
+            .webp()
+            .toBuffer(),
+          contentType: 'image/webp',
+        });
+      }
+    } catch (error) {
+      this.logger.warn('Failed to generate thumbnails', { productId, error });
+      throw new BadRequestException('File is not a valid image');
+    }
+
+    const storageKeys = files.map(({ key }) => key);
+    let image: ProductImage;
+    try {
+      for (const { key, data, contentType } of files) {
+        await this.storage.put(key, data, contentType);
+      }
+
+      image = await this.imageRepository.save(
+        this.imageRepository.create({
+          id: imageId,
+          productId,
+          url: this.storage.getUrl(storageKeys[0]),
+          thumbnails: Object.fromEntries(
+            Object.keys(THUMBNAIL_SIZES).map((name, index) => [
+              name,
+              this.storage.getUrl(storageKeys[index + 1]),
+            ]),
+          ),
+          storageKeys,
+          contentType: format.contentType,
+          width: metadata.width,
+          height: metadata.height,
+          position: imageCount,
+          isPrimary: imageCount === 0,
+        }),
+      );
+    } catch (error) {
+      await this.deleteFiles(storageKeys);
+      this.logger.error('Failed to store product image', {
+        productId,
+        userId,
+        error,
+      });
+      throw new InternalServerErrorException('Failed to store product image');
+    }
+
+    this.logger.info('Product image uploaded', {
+      productId,
+      imageId,
+      userId,
+      size: file.size,
+    });
+
+    return image;
+  }
+
+  async reorderImages(
+    productId: string,
+    userId: string,
+    imageIds: string[],
+  ): Promise<ProductImage[]> {
+    await this.productService.getProductById(productId, userId);
+    const images = await this.getImages(productId);
+
+    if (
+      imageIds.length !== images.length ||
+      !images.every((image) => imageIds.includes(image.id))
+    ) {
+      throw new BadRequestException(
+        'imageIds must list every image of the product exactly once',
+      );
+    }
+
+    for (const image of images) {
+      image.position = imageIds.indexOf(image.id);
+    }
+    await this.imageRepository.save(images);
+
+    this.logger.info('Product images reordered', { productId, userId });
+
+    return images.sort((a, b) => a.position - b.position);
+  }
+
+  async setPrimaryImage(
+    productId: string,
+    userId: string,
+    imageId: string,
+  ): Promise<ProductImage[]> {
+    await this.productService.getProductById(productId, userId);
+    const images = await this.getImages(productId);
+
+    if (!images.some((image) => image.id === imageId)) {
+      throw new NotFoundException('Image not found');
+    }
+
+    for (const image of images) {
+      image.isPrimary = image.id === imageId;
+    }
+    await this.imageRepository.save(images);
+
+    this.logger.info('Primary product image changed', {
+      productId,
+      imageId,
+      userId,
+    });
+
+    return images;
+  }
+
+  async deleteImage(
+    productId: string,
+    userId: string,
+    imageId: string,
+  ): Promise<void> {
+    await this.productService.getProductById(productId, userId);
+    const images = await this.getImages(productId);
+
+    const image = images.find(({ id }) => id === imageId);
+    if (!image) {
+      throw new NotFoundException('Image not found');
+    }
+
+    const remaining = images.filter(({ id }) => id !== imageId);
+    await this.imageRepository.remove(image);
+
+    // Close the gap in positions and keep a primary image if any are left
+    remaining.forEach((other, index) => {
+      other.position = index;
+      if (image.isPrimary && index === 0) {
+        other.isPrimary = true;
+      }
+    });
+    await this.imageRepository.save(remaining);
+
+    await this.deleteFiles(image.storageKeys);
+
+    this.logger.info('Product image deleted', { productId, imageId, userId });
+  }
+
+  private async getImages(productId: string): Promise<ProductImage[]> {
+    return await this.imageRepository.find({
+      where: { productId },
+      order: { position: 'ASC' },
+    });
+  }
+
+  // Best effort: a leftover file is harmless, a failed request is not
+  private async deleteFiles(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      try {
+        await this.storage.delete(key);
+      } catch (error) {
+        this.logger.warn('Failed to delete stored file', { key, error });
+      }
+    }
+  }
+}
@@ -0,0 +1,17 @@
+import { ProductStatus } from './entities/product.entity';
+
+// The status a product moves to when its stock changes: an active product
+// sells out at zero and comes back once there is stock again. Deleted
+// products, and statuses set by hand, are left alone.
+export function stockStatus(
+  status: ProductStatus,
+  stock: number,
+): ProductStatus {
+  if (stock === 0 && status === ProductStatus.ACTIVE) {
+    return ProductStatus.OUT_OF_STOCK;
+  }
+  if (stock > 0 && status === ProductStatus.OUT_OF_STOCK) {
+    return ProductStatus.ACTIVE;
+  }
+  return status;
+}
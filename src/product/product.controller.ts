@@ -5,33 +5,70 @@ import {
   Get,
   HttpCode,
   HttpStatus,
+  MaxFileSizeValidator,
   Param,
+  ParseFilePipe,
   Post,
   Put,
+  Query,
+  StreamableFile,
+  UploadedFile,
+  UseInterceptors,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiBody,
   ApiBearerAuth,
+  ApiSecurity,
   ApiParam,
+  ApiConsumes,
+  ApiProduces,
 } from '@nestjs/swagger';
-import { ProductService } from './product.service';
-import { GetCurrentUser, NoAuth } from '../common/decorators';
+import { ProductAvailability, ProductService } from './product.service';
+import {
+  MAX_PRODUCT_IMPORT_BYTES,
+  ProductCsvService,
+  ProductImportReport,
+} from './product-csv.service';
+import { ApiKeyScope } from '../auth/entities';
+import {
+  ApiKeyScopes,
+  GetCurrentUser,
+  NoAuth,
+  RequireVerifiedEmail,
+  Roles,
+} from '../common/decorators';
 import { userReq } from '../common/types';
-import { CreateProductDto, UpdateProductDto } from './dto';
+import { PaginationQueryDto, Paginated } from '../common/dto';
+import {
+  CreateProductDto,
+  ProductImportQueryDto,
+  ProductQueryDto,
+  UpdateProductDto,
+} from './dto';
 import { Product, ProductStatus } from './entities/product.entity';
+import { StockMovement } from './entities/stock-movement.entity';
+import { Role } from '../user/entities/user.entity';
 
 @ApiTags('products')
 @Controller()
 export class ProductController {
-  constructor(private productService: ProductService) {}
+  constructor(
+    private productService: ProductService,
+    private productCsvService: ProductCsvService,
+  ) {}
 
   @ApiBearerAuth('JWT-auth')
+  @ApiSecurity('api-key')
+  @ApiKeyScopes(ApiKeyScope.PRODUCTS_WRITE)
+  @Roles(Role.SELLER, Role.ADMIN)
+  @RequireVerifiedEmail()
   @Post('/product')
   @HttpCode(HttpStatus.CREATED)
-  @ApiOperation({ summary: 'Create a new product' })
+  @ApiOperation({ summary: 'Create a new product (sellers only)' })
   @ApiBody({ type: CreateProductDto })
   @ApiResponse({
     status: 201,
@@ -46,6 +83,10 @@ export class ProductController {
     status: 401,
     description: 'Unauthorized',
   })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - seller role and verified email required',
+  })
   async createProduct(
     @GetCurrentUser() user: userReq,
     @Body() dto: CreateProductDto,
@@ -54,6 +95,96 @@ export class ProductController {
   }
 
   @ApiBearerAuth('JWT-auth')
+  @ApiSecurity('api-key')
+  @ApiKeyScopes(ApiKeyScope.PRODUCTS_WRITE)
+  @Roles(Role.SELLER, Role.ADMIN)
+  @RequireVerifiedEmail()
+  @Post('/products/import')
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_PRODUCT_IMPORT_BYTES } }),
+  )
+  @ApiOperation({
+    summary: 'Create or update products from a CSV file (sellers only)',
+    description:
+      'Columns: id, sku, title, description, price, stock, categoryIds (separated by `|`). Rows with an id or a known sku update that product, other rows create one. Every row is validated like POST /product. In commit mode nothing is written unless every row is valid.',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['file'],
+      properties: {
+        file: { type: 'string', format: 'binary' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Per-row import report',
+    schema: {
+      type: 'object',
+      properties: {
+        mode: { type: 'string', example: 'dry-run' },
+        committed: { type: 'boolean', example: false },
+        total: { type: 'number', example: 2 },
+        created: { type: 'number', example: 1 },
+        updated: { type: 'number', example: 0 },
+        failed: { type: 'number', example: 1 },
+        rows: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              row: { type: 'number', example: 3 },
+              action: { type: 'string', example: 'create' },
+              productId: { type: 'string', nullable: true, example: null },
+              errors: {
+                type: 'array',
+                items: { type: 'string' },
+                example: ['price must not be less than 0'],
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Bad request - missing file, unreadable CSV or missing columns',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - seller role and verified email required',
+  })
+  @ApiResponse({
+    status: 413,
+    description: 'Payload too large - file exceeds 2 MB',
+  })
+  async importProducts(
+    @GetCurrentUser() user: userReq,
+    @Query() query: ProductImportQueryDto,
+    @UploadedFile(
+      new ParseFilePipe({
+        validators: [
+          new MaxFileSizeValidator({ maxSize: MAX_PRODUCT_IMPORT_BYTES }),
+        ],
+      }),
+    )
+    file: Express.Multer.File,
+  ): Promise<ProductImportReport> {
+    return await this.productCsvService.importProducts(
+      user.userId,
+      file.buffer,
+      query.mode,
+    );
+  }
+
+  @ApiBearerAuth('JWT-auth')
+  @ApiSecurity('api-key')
+  @ApiKeyScopes(ApiKeyScope.PRODUCTS_WRITE)
   @Put('/products/adjust')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Update product data' })
@@ -88,7 +219,11 @@ export class ProductController {
 
   @NoAuth()
   @Get('/status/:productId')
-  @ApiOperation({ summary: 'Get product status and availability' })
+  @ApiOperation({
+    summary: 'Get product status and availability',
+    description:
+      'Availability is the stock minus units reserved by pending orders. Includes per-variant price, stock and availability for products with variants.',
+  })
   @ApiParam({
     name: 'productId',
     description: 'Product ID',
@@ -111,10 +246,36 @@ export class ProductController {
           type: 'number',
           example: 50,
         },
+        available: {
+          type: 'number',
+          description: 'Stock minus units held for pending orders',
+          example: 48,
+        },
         isAvailable: {
           type: 'boolean',
           example: true,
         },
+        variants: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: {
+                type: 'string',
+                example: '123e4567-e89b-12d3-a456-426614174000',
+              },
+              sku: { type: 'string', example: 'TSHIRT-RED-M' },
+              options: {
+                type: 'object',
+                example: { size: 'M', color: 'red' },
+              },
+              price: { type: 'number', example: 24.99 },
+              stock: { type: 'number', example: 10 },
+              available: { type: 'number', example: 9 },
+              isAvailable: { type: 'boolean', example: true },
+            },
+          },
+        },
       },
     },
   })
@@ -124,42 +285,93 @@ export class ProductController {
   })
   async getProductStatus(
     @Param('productId') productId: string,
-  ): Promise<{ status: ProductStatus; stock: number; isAvailable: boolean }> {
+  ): Promise<ProductAvailability> {
     return await this.productService.getProductStatus(productId);
   }
 
   @ApiBearerAuth('JWT-auth')
+  @ApiSecurity('api-key')
+  @ApiKeyScopes(ApiKeyScope.PRODUCTS_READ)
   @Get('/products')
   @ApiOperation({
     summary: 'List all active products (authenticated users)',
+    description:
+      'Paginated; supports price range, status, seller and created date filters, sorting and text search. Pagination details are returned in `meta`.',
   })
   @ApiResponse({
     status: 200,
-    description: 'Products list retrieved successfully',
+    description: 'Products page retrieved successfully',
     type: [Product],
   })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - invalid filters',
+  })
   @ApiResponse({
     status: 401,
     description: 'Unauthorized',
   })
-  async getAllProducts(): Promise<Product[]> {
-    return await this.productService.getAllProducts();
+  async getAllProducts(
+    @Query() query: ProductQueryDto,
+  ): Promise<Paginated<Product>> {
+    return await this.productService.getAllProducts(query);
   }
 
   @ApiBearerAuth('JWT-auth')
+  @ApiSecurity('api-key')
+  @ApiKeyScopes(ApiKeyScope.PRODUCTS_READ)
   @Get('/products/me')
-  @ApiOperation({ summary: 'Get current user products' })
+  @ApiOperation({
+    summary: 'Get current user products',
+    description:
+      'Same pagination, filters and sorting as /products, restricted to the caller.',
+  })
   @ApiResponse({
     status: 200,
-    description: 'User products retrieved successfully',
+    description: 'User products page retrieved successfully',
     type: [Product],
   })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - invalid filters',
+  })
   @ApiResponse({
     status: 401,
     description: 'Unauthorized',
   })
-  async getMyProducts(@GetCurrentUser() user: userReq): Promise<Product[]> {
-    return await this.productService.getMyProducts(user.userId);
+  async getMyProducts(
+    @GetCurrentUser() user: userReq,
+    @Query() query: ProductQueryDto,
+  ): Promise<Paginated<Product>> {
+    return await this.productService.getMyProducts(user.userId, query);
+  }
+
+  @ApiBearerAuth('JWT-auth')
+  @ApiSecurity('api-key')
+  @ApiKeyScopes(ApiKeyScope.PRODUCTS_READ)
+  @Get('/products/me/export')
+  @ApiOperation({
+    summary: 'Download the caller catalog as CSV',
+    description:
+      'Streams every non-deleted product with the same columns the import accepts, plus status.',
+  })
+  @ApiProduces('text/csv')
+  @ApiResponse({
+    status: 200,
+    description: 'CSV file',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  exportProducts(@GetCurrentUser() user: userReq): StreamableFile {
+    return new StreamableFile(
+      this.productCsvService.exportProducts(user.userId),
+      {
+        type: 'text/csv',
+        disposition: 'attachment; filename="products.csv"',
+      },
+    );
   }
 
   @NoAuth()
@@ -188,6 +400,8 @@ export class ProductController {
   }
 
   @ApiBearerAuth('JWT-auth')
+  @ApiSecurity('api-key')
+  @ApiKeyScopes(ApiKeyScope.PRODUCTS_READ)
   @Get('/product/:productId')
   @ApiOperation({ summary: 'Get product by ID (owner only)' })
   @ApiParam({
@@ -219,6 +433,49 @@ export class ProductController {
     return await this.productService.getProductById(productId, user.userId);
   }
 
+  @ApiBearerAuth('JWT-auth')
+  @ApiSecurity('api-key')
+  @ApiKeyScopes(ApiKeyScope.PRODUCTS_READ)
+  @Get('/products/:productId/stock-history')
+  @ApiOperation({
+    summary: 'Get the stock movements of a product (owner only)',
+    description:
+      'Newest first and paginated. Every change to the product or variant stock is listed with its delta, reason, actor and order.',
+  })
+  @ApiParam({
+    name: 'productId',
+    description: 'Product ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Stock movements page retrieved successfully',
+    type: [StockMovement],
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - not the product owner',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Product not found',
+  })
+  async getStockHistory(
+    @GetCurrentUser() user: userReq,
+    @Param('productId') productId: string,
+    @Query() query: PaginationQueryDto,
+  ): Promise<Paginated<StockMovement>> {
+    return await this.productService.getStockHistory(
+      productId,
+      user.userId,
+      query,
+    );
+  }
+
   @ApiBearerAuth('JWT-auth')
   @Delete('/products/:productId')
   @HttpCode(HttpStatus.OK)
@@ -2,12 +2,39 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { ProductController } from './product.controller';
 import { ProductService } from './product.service';
+import { ProductCsvService } from './product-csv.service';
+import { StockLedgerService } from './stock-ledger.service';
+import { StockReservationService } from './stock-reservation.service';
 import { Product } from './entities/product.entity';
+import { ProductVariant } from './entities/product-variant.entity';
+import { ProductImage } from './entities/product-image.entity';
+import { StockMovement } from './entities/stock-movement.entity';
+import { StockReservation } from './entities/stock-reservation.entity';
+import { ProductImageController } from './product-image.controller';
+import { ProductImageService } from './product-image.service';
+import { CategoryModule } from '../category/category.module';
+import { StorageModule } from '../storage/storage.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Product])],
-  controllers: [ProductController],
-  providers: [ProductService],
-  exports: [ProductService],
+  imports: [
+    TypeOrmModule.forFeature([
+      Product,
+      ProductVariant,
+      ProductImage,
+      StockMovement,
+      StockReservation,
+    ]),
+    CategoryModule,
+    StorageModule,
+  ],
+  controllers: [ProductController, ProductImageController],
+  providers: [
+    ProductService,
+    ProductCsvService,
+    ProductImageService,
+    StockLedgerService,
+    StockReservationService,
+  ],
+  exports: [ProductService, StockLedgerService, StockReservationService],
 })
 export class ProductModule {}
@@ -1,12 +1,128 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { WINSTON_MODULE_PROVIDER } from 'nest-winston';
 import { ProductService } from './product.service';
+import { StockLedgerService } from './stock-ledger.service';
+import { StockReservationService } from './stock-reservation.service';
+import { Product, ProductStatus } from './entities/product.entity';
+import { ProductVariant } from './entities/product-variant.entity';
+import {
+  StockMovement,
+  StockMovementReason,
+} from './entities/stock-movement.entity';
+import { ProductQueryDto } from './dto';
+import { CategoryService } from '../category/category.service';
 
 describe('ProductService', () => {
   let service: ProductService;
+  let products: Product[];
+  let variants: ProductVariant[];
+  let listed: { items: Product[]; total: number };
+
+  const sellerId = '5f6b1c2e-8d4a-4b7e-9c3f-2a1d0e9b8c7a';
+
+  // Records what findProducts asks of the query builder
+  const queryBuilder = {
+    leftJoinAndSelect: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    orderBy: jest.fn().mockReturnThis(),
+    addOrderBy: jest.fn().mockReturnThis(),
+    skip: jest.fn().mockReturnThis(),
+    take: jest.fn().mockReturnThis(),
+    getManyAndCount: jest.fn(async () => [listed.items, listed.total]),
+  };
+
+  const conditions = () =>
+    Object.assign(
+      {},
+      ...queryBuilder.andWhere.mock.calls.map(([, params]) => params),
+    );
+
+  const productRepository = {
+    createQueryBuilder: jest.fn(() => queryBuilder),
+    create: jest.fn((data) => ({ status: ProductStatus.ACTIVE, ...data })),
+    save: jest.fn(async (product) => {
+      product.id ??= `product-${products.length + 1}`;
+      product.variants?.forEach((variant, index) => {
+        variant.id ??= `${product.id}-variant-${index + 1}`;
+      });
+      products = [...products.filter(({ id }) => id !== product.id), product];
+      variants = products.flatMap((row) => row.variants ?? []);
+      return product;
+    }),
+    findOne: jest.fn(
+      async ({ where }) => products.find(({ id }) => id === where.id) ?? null,
+    ),
+  };
+
+  const variantRepository = {
+    create: jest.fn((data) => ({ ...data })),
+    find: jest.fn(async ({ where }) =>
+      variants.filter(({ sku }) => where.sku.value.includes(sku)),
+    ),
+  };
+
+  const stockReservations = {
+    getReserved: jest.fn(async () => ({ total: 0, byVariant: new Map() })),
+  };
+
+  const manager = {
+    save: jest.fn((product) => productRepository.save(product)),
+    insert: jest.fn(),
+  };
+
+  const shirt = () =>
+    service.createProduct(sellerId, {
+      title: 'T-shirt',
+      description: 'Cotton t-shirt',
+      price: 20,
+      variants: [
+        { sku: 'TS-M', options: { size: 'M' }, stock: 3 },
+        { sku: 'TS-L', options: { size: 'L' }, price: 22, stock: 0 },
+      ],
+    });
 
   beforeEach(async () => {
+    products = [];
+    variants = [];
+    listed = { items: [], total: 0 };
+    jest.clearAllMocks();
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [ProductService],
+      providers: [
+        ProductService,
+        { provide: getRepositoryToken(Product), useValue: productRepository },
+        {
+          provide: getRepositoryToken(ProductVariant),
+          useValue: variantRepository,
+        },
+        StockLedgerService,
+        { provide: getRepositoryToken(StockMovement), useValue: {} },
+        { provide: StockReservationService, useValue: stockReservations },
+        {
+          provide: DataSource,
+          useValue: { transaction: jest.fn(async (work) => work(manager)) },
+        },
+        {
+          provide: CategoryService,
+          useValue: {
+            findByIds: jest.fn(async () => []),
+            getDescendantIds: jest.fn(async (id: string) => [
+              id,
+              `${id}-child`,
+            ]),
+          },
+        },
+        {
+          provide: WINSTON_MODULE_PROVIDER,
+          useValue: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+        },
+      ],
     }).compile();
 
     service = module.get<ProductService>(ProductService);
@@ -15,4 +131,264 @@ describe('ProductService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('listing', () => {
+    const query = (params: Record<string, unknown>) =>
+      plainToInstance(ProductQueryDto, params);
+
+    it('pages with the defaults and reports the page in meta', async () => {
+      listed = { items: [{ id: 'p1' } as Product], total: 45 };
+
+      const page = await service.getAllProducts(query({}));
+
+      expect(queryBuilder.skip).toHaveBeenCalledWith(0);
+      expect(queryBuilder.take).toHaveBeenCalledWith(20);
+      expect(page.items).toEqual([{ id: 'p1' }]);
+      expect(page.meta).toEqual({
+        page: 1,
+        limit: 20,
+        total: 45,
+        totalPages: 3,
+        hasNextPage: true,
+      });
+
+      await service.getAllProducts(query({ page: '3', limit: '20' }));
+      expect(queryBuilder.skip).toHaveBeenLastCalledWith(40);
+    });
+
+    it('rejects pages and limits out of bounds', async () => {
+      const errors = async (params: Record<string, unknown>) =>
+        (await validate(query(params))).map(({ property }) => property);
+
+      expect(await errors({ page: '0', limit: '0' })).toEqual([
+        'page',
+        'limit',
+      ]);
+      expect(await errors({ limit: '101' })).toEqual(['limit']);
+      expect(await errors({ page: '1.5' })).toEqual(['page']);
+      expect(await errors({ page: '2', limit: '100' })).toEqual([]);
+    });
+
+    it('leaves out deleted products when nothing is filtered', async () => {
+      await service.getAllProducts(query({}));
+
+      expect(queryBuilder.where).toHaveBeenCalledWith(
+        'product.status != :deleted',
+        { deleted: ProductStatus.DELETED },
+      );
+      expect(queryBuilder.andWhere).not.toHaveBeenCalled();
+    });
+
+    it('applies each filter', async () => {
+      await service.getAllProducts(
+        query({
+          q: ' 100%_cotton ',
+          minPrice: '10',
+          maxPrice: '50',
+          status: ProductStatus.OUT_OF_STOCK,
+          sellerId,
+          categoryId: 'shirts',
+          createdFrom: '2024-01-01T00:00:00.000Z',
+          createdTo: '2024-12-31T23:59:59.999Z',
+        }),
+      );
+
+      expect(queryBuilder.andWhere).toHaveBeenCalledTimes(8);
+      expect(conditions()).toEqual({
+        q: '%100\\%\\_cotton%',
+        minPrice: 10,
+        maxPrice: 50,
+        status: ProductStatus.OUT_OF_STOCK,
+        sellerId,
+        categoryIds: ['shirts', 'shirts-child'],
+        createdFrom: new Date('2024-01-01T00:00:00.000Z'),
+        createdTo: new Date('2024-12-31T23:59:59.999Z'),
+      });
+    });
+
+    it('refuses a price range that is upside down', async () => {
+      await expect(
+        service.getAllProducts(query({ minPrice: '50', maxPrice: '10' })),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(queryBuilder.getManyAndCount).not.toHaveBeenCalled();
+    });
+
+    it("lists only the caller's products on /products/me", async () => {
+      await service.getMyProducts(sellerId, query({ sellerId: 'someone' }));
+
+      expect(conditions()).toEqual({ sellerId });
+    });
+
+    it('sorts by a whitelisted field with a stable tie-break', async () => {
+      await service.getAllProducts(query({}));
+      expect(queryBuilder.orderBy).toHaveBeenLastCalledWith(
+        'product.createdAt',
+        'DESC',
+      );
+      expect(queryBuilder.addOrderBy).toHaveBeenCalledWith(
+        'product.id',
+        'DESC',
+      );
+
+      await service.getAllProducts(query({ sort: 'price' }));
+      expect(queryBuilder.orderBy).toHaveBeenLastCalledWith(
+        'product.price',
+        'ASC',
+      );
+
+      const [error] = await validate(query({ sort: 'userId' }));
+      expect(error.property).toBe('sort');
+    });
+  });
+
+  describe('variants', () => {
+    it('derives the product stock from its variants', async () => {
+      const product = await shirt();
+
+      expect(product.stock).toBe(3);
+      expect(product.variants).toHaveLength(2);
+    });
+
+    it('rejects duplicate option combinations and taken SKUs', async () => {
+      await shirt();
+
+      await expect(
+        service.createProduct(sellerId, {
+          title: 'Hoodie',
+          description: 'Warm hoodie',
+          price: 40,
+          variants: [
+            { sku: 'HD-M', options: { size: 'M', color: 'red' }, stock: 1 },
+            { sku: 'HD-M2', options: { color: 'red', size: 'M' }, stock: 1 },
+          ],
+        }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+
+      await expect(
+        service.createProduct(sellerId, {
+          title: 'Hoodie',
+          description: 'Warm hoodie',
+          price: 40,
+          variants: [{ sku: 'TS-M', options: { size: 'M' }, stock: 1 }],
+        }),
+      ).rejects.toBeInstanceOf(ConflictException);
+    });
+
+    it('updates, adds and removes variants and keeps the stock in sync', async () => {
+      const product = await shirt();
+      const [medium, large] = product.variants;
+
+      const updated = await service.updateProduct(sellerId, {
+        productId: product.id,
+        variants: [
+          { id: large.id, stock: 5 },
+          { sku: 'TS-XL', options: { size: 'XL' }, stock: 2 },
+        ],
+        removedVariantIds: [medium.id],
+      });
+
+      expect(updated.variants.map(({ sku }) => sku)).toEqual(['TS-L', 'TS-XL']);
+      expect(updated.stock).toBe(7);
+    });
+
+    it('marks the product out of stock when no variant has stock left', async () => {
+      const product = await shirt();
+
+      const updated = await service.updateProduct(sellerId, {
+        productId: product.id,
+        variants: [{ id: product.variants[0].id, stock: 0 }],
+      });
+
+      expect(updated.stock).toBe(0);
+      expect(updated.status).toBe(ProductStatus.OUT_OF_STOCK);
+    });
+
+    it('refuses a product level stock change when variants exist', async () => {
+      const product = await shirt();
+
+      await expect(
+        service.updateProduct(sellerId, { productId: product.id, stock: 10 }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('reports availability per variant', async () => {
+      const product = await shirt();
+
+      const status = await service.getProductStatus(product.id);
+
+      expect(status.isAvailable).toBe(true);
+      expect(status.variants).toEqual([
+        expect.objectContaining({ sku: 'TS-M', price: 20, isAvailable: true }),
+        expect.objectContaining({ sku: 'TS-L', price: 22, isAvailable: false }),
+      ]);
+    });
+  });
+
+  describe('reservations', () => {
+    it('subtracts units held for pending orders from availability', async () => {
+      const product = await shirt();
+      stockReservations.getReserved.mockResolvedValueOnce({
+        total: 3,
+        byVariant: new Map([[product.variants[0].id, 3]]),
+      });
+
+      const status = await service.getProductStatus(product.id);
+
+      expect(status).toMatchObject({
+        stock: 3,
+        available: 0,
+        isAvailable: false,
+      });
+      expect(status.variants[0]).toMatchObject({
+        stock: 3,
+        available: 0,
+        isAvailable: false,
+      });
+    });
+  });
+
+  describe('stock ledger', () => {
+    it('records the opening stock of each variant', async () => {
+      const product = await shirt();
+
+      expect(manager.insert).toHaveBeenCalledWith(StockMovement, [
+        expect.objectContaining({
+          variantId: product.variants[0].id,
+          delta: 3,
+          reason: StockMovementReason.MANUAL_ADJUST,
+          actorId: sellerId,
+        }),
+      ]);
+    });
+
+    it('records one movement per changed or removed variant', async () => {
+      const product = await shirt();
+      const [medium, large] = product.variants;
+      manager.insert.mockClear();
+
+      await service.updateProduct(sellerId, {
+        productId: product.id,
+        variants: [{ id: large.id, stock: 4 }],
+        removedVariantIds: [medium.id],
+      });
+
+      const [, movements] = manager.insert.mock.calls[0];
+      expect(movements).toEqual([
+        expect.objectContaining({ variantId: large.id, delta: 4 }),
+        expect.objectContaining({ variantId: medium.id, delta: -3 }),
+      ]);
+    });
+
+    it('leaves the ledger alone when the stock does not change', async () => {
+      const product = await shirt();
+      manager.insert.mockClear();
+
+      await service.updateProduct(sellerId, {
+        productId: product.id,
+        price: 25,
+      });
+
+      expect(manager.insert).not.toHaveBeenCalled();
+    });
+  });
 });
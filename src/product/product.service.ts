@@ -5,31 +5,90 @@ import {
   InternalServerErrorException,
   Inject,
   BadRequestException,
+  ConflictException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, Not } from 'typeorm';
+import { DataSource, Repository, Not, In } from 'typeorm';
 import { Product, ProductStatus } from './entities/product.entity';
-import { CreateProductDto, UpdateProductDto } from './dto';
+import { ProductVariant } from './entities/product-variant.entity';
+import { stockStatus } from './product-stock-status';
+import {
+  StockMovement,
+  StockMovementReason,
+} from './entities/stock-movement.entity';
+import {
+  EMPTY_STOCK,
+  StockLedgerService,
+  StockSnapshot,
+} from './stock-ledger.service';
+import { StockReservationService } from './stock-reservation.service';
+import {
+  CreateProductDto,
+  CreateProductVariantDto,
+  ProductQueryDto,
+  UpdateProductDto,
+} from './dto';
+import { PaginationQueryDto, Paginated } from '../common/dto';
+import { CategoryService } from '../category/category.service';
 import { Logger } from 'winston';
 import { WINSTON_MODULE_PROVIDER } from 'nest-winston';
 
+// `available` is the stock minus units held for pending orders
+export type VariantAvailability = {
+  id: string;
+  sku: string;
+  options: Record<string, string>;
+  price: number;
+  stock: number;
+  available: number;
+  isAvailable: boolean;
+};
+
+export type ProductAvailability = {
+  status: ProductStatus;
+  stock: number;
+  available: number;
+  isAvailable: boolean;
+  variants: VariantAvailability[];
+};
+
 @Injectable()
 export class ProductService {
   constructor(
     @InjectRepository(Product)
     private productRepository: Repository<Product>,
+    @InjectRepository(ProductVariant)
+    private variantRepository: Repository<ProductVariant>,
+    private categoryService: CategoryService,
+    private stockLedger: StockLedgerService,
+    private stockReservations: StockReservationService,
+    private dataSource: DataSource,
     @Inject(WINSTON_MODULE_PROVIDER) private readonly logger: Logger,
   ) {}
 
   async createProduct(userId: string, dto: CreateProductDto): Promise<Product> {
+    const { categoryIds, variants = [], ...fields } = dto;
+    if (dto.sku !== undefined) {
+      await this.assertSkuAvailable(userId, dto.sku);
+    }
+    await this.assertVariantsValid(variants);
+
     const product = this.productRepository.create({
-      ...dto,
+      ...fields,
       userId,
+      categories: await this.categoryService.findByIds(categoryIds ?? []),
+      variants: variants.map((variant) =>
+        this.variantRepository.create(variant),
+      ),
     });
+    if (product.variants.length > 0) {
+      product.stock = this.totalVariantStock(product.variants);
+    }
+    product.status = stockStatus(ProductStatus.ACTIVE, product.stock);
 
     let savedProduct: Product;
     try {
-      savedProduct = await this.productRepository.save(product);
+      savedProduct = await this.saveWithMovements(product, EMPTY_STOCK, userId);
     } catch (error) {
       this.logger.error('Failed to create product', { userId, error });
       throw new InternalServerErrorException('Failed to create product');
@@ -44,11 +103,8 @@ export class ProductService {
     return savedProduct;
   }
 
-  async getAllProducts(): Promise<Product[]> {
-    return await this.productRepository.find({
-      where: { status: Not(ProductStatus.DELETED) },
-      order: { createdAt: 'DESC' },
-    });
+  async getAllProducts(query: ProductQueryDto): Promise<Paginated<Product>> {
+    return await this.findProducts(query);
   }
 
   async getPublicProduct(productId: string): Promise<Product> {
@@ -57,6 +113,8 @@ export class ProductService {
         id: productId,
         status: ProductStatus.ACTIVE,
       },
+      relations: ['categories', 'variants', 'images'],
+      order: { images: { position: 'ASC' } },
     });
 
     if (!product || product.stock === 0) {
@@ -73,6 +131,8 @@ export class ProductService {
         id: productId,
         status: Not(ProductStatus.DELETED),
       },
+      relations: ['categories', 'variants', 'images'],
+      order: { images: { position: 'ASC' } },
     });
 
     if (!product) {
@@ -92,14 +152,11 @@ export class ProductService {
     return product;
   }
 
-  async getMyProducts(userId: string): Promise<Product[]> {
-    return await this.productRepository.find({
-      where: {
-        userId,
-        status: Not(ProductStatus.DELETED),
-      },
-      order: { createdAt: 'DESC' },
-    });
+  async getMyProducts(
+    userId: string,
+    query: ProductQueryDto,
+  ): Promise<Paginated<Product>> {
+    return await this.findProducts({ ...query, sellerId: userId });
   }
 
   async updateProduct(userId: string, dto: UpdateProductDto): Promise<Product> {
@@ -108,6 +165,8 @@ export class ProductService {
         id: dto.productId,
         status: Not(ProductStatus.DELETED),
       },
+      relations: ['categories', 'variants', 'images'],
+      order: { images: { position: 'ASC' } },
     });
 
     if (!product) {
@@ -128,6 +187,8 @@ export class ProductService {
       );
     }
 
+    const stockBefore = this.stockLedger.snapshot(product);
+
     // Prevent setting status to DELETED via update
     if (dto.status === ProductStatus.DELETED) {
       throw new BadRequestException(
@@ -135,28 +196,51 @@ export class ProductService {
       );
     }
 
+    if (dto.sku !== undefined && dto.sku !== product.sku) {
+      await this.assertSkuAvailable(userId, dto.sku, product.id);
+      product.sku = dto.sku;
+    }
     if (dto.title !== undefined) product.title = dto.title;
     if (dto.description !== undefined) product.description = dto.description;
     if (dto.price !== undefined) product.price = dto.price;
-    if (dto.stock !== undefined) {
-      product.stock = dto.stock;
+
+    const variantsChanged =
+      dto.variants !== undefined || dto.removedVariantIds !== undefined;
+    if (variantsChanged) {
+      await this.applyVariantChanges(product, dto);
+    }
+
+    if (dto.stock !== undefined && product.variants.length > 0) {
+      throw new BadRequestException(
+        'Stock of a product with variants is managed per variant',
+      );
+    }
+
+    if (dto.stock !== undefined || variantsChanged) {
+      const stock =
+        product.variants.length > 0
+          ? this.totalVariantStock(product.variants)
+          : (dto.stock ?? product.stock);
+      product.stock = stock;
       // Auto-update status based on stock (only if not manually overridden)
       if (dto.status === undefined) {
-        if (dto.stock === 0 && product.status === ProductStatus.ACTIVE) {
-          product.status = ProductStatus.OUT_OF_STOCK;
-        } else if (
-          dto.stock > 0 &&
-          product.status === ProductStatus.OUT_OF_STOCK
-        ) {
-          product.status = ProductStatus.ACTIVE;
-        }
+        product.status = stockStatus(product.status, stock);
       }
     }
     if (dto.status !== undefined) product.status = dto.status;
+    if (dto.categoryIds !== undefined) {
+      product.categories = await this.categoryService.findByIds(
+        dto.categoryIds,
+      );
+    }
 
     let updatedProduct: Product;
     try {
-      updatedProduct = await this.productRepository.save(product);
+      updatedProduct = await this.saveWithMovements(
+        product,
+        stockBefore,
+        userId,
+      );
     } catch (error) {
       this.logger.error('Failed to update product', {
         productId: dto.productId,
@@ -215,14 +299,13 @@ export class ProductService {
     this.logger.info('Product deleted successfully', { productId, userId });
   }
 
-  async getProductStatus(
-    productId: string,
-  ): Promise<{ status: ProductStatus; stock: number; isAvailable: boolean }> {
+  async getProductStatus(productId: string): Promise<ProductAvailability> {
     const product = await this.productRepository.findOne({
       where: {
         id: productId,
         status: Not(ProductStatus.DELETED),
       },
+      relations: ['variants'],
     });
 
     if (!product) {
@@ -230,10 +313,261 @@ export class ProductService {
       throw new NotFoundException('Product not found');
     }
 
+    const isActive = product.status === ProductStatus.ACTIVE;
+    const reserved = await this.stockReservations.getReserved(productId);
+    const available = Math.max(product.stock - reserved.total, 0);
+
     return {
       status: product.status,
       stock: product.stock,
-      isAvailable: product.status === ProductStatus.ACTIVE && product.stock > 0,
+      available,
+      isAvailable: isActive && available > 0,
+      variants: product.variants.map((variant) => {
+        const variantAvailable = Math.max(
+          variant.stock - (reserved.byVariant.get(variant.id) ?? 0),
+          0,
+        );
+        return {
+          id: variant.id,
+          sku: variant.sku,
+          options: variant.options,
+          price: Number(variant.price ?? product.price),
+          stock: variant.stock,
+          available: variantAvailable,
+          isAvailable: isActive && variantAvailable > 0,
+        };
+      }),
     };
   }
+
+  async getStockHistory(
+    productId: string,
+    userId: string,
+    query: PaginationQueryDto,
+  ): Promise<Paginated<StockMovement>> {
+    // Throws unless the product exists and belongs to the caller
+    await this.getProductById(productId, userId);
+    return await this.stockLedger.getHistory(productId, query);
+  }
+
+  private async findProducts(
+    query: ProductQueryDto,
+  ): Promise<Paginated<Product>> {
+    const { page = 1, limit = 20, sort = '-createdAt' } = query;
+
+    if (
+      query.minPrice !== undefined &&
+      query.maxPrice !== undefined &&
+      query.minPrice > query.maxPrice
+    ) {
+      throw new BadRequestException('minPrice cannot be greater than maxPrice');
+    }
+
+    const qb = this.productRepository
+      .createQueryBuilder('product')
+      .leftJoinAndSelect('product.categories', 'category')
+      .leftJoinAndSelect('product.variants', 'variant')
+      .leftJoinAndSelect('product.images', 'image')
+      .where('product.status != :deleted', { deleted: ProductStatus.DELETED });
+
+    if (query.status) {
+      qb.andWhere('product.status = :status', { status: query.status });
+    }
+    if (query.sellerId) {
+      qb.andWhere('product.userId = :sellerId', { sellerId: query.sellerId });
+    }
+    if (query.categoryId) {
+      const categoryIds = await this.categoryService.getDescendantIds(
+        query.categoryId,
+      );
+      // Filter through a subquery so the joined categories stay complete
+      qb.andWhere(
+        'EXISTS (SELECT 1 FROM product_categories pc WHERE pc."productId" = product.id AND pc."categoryId" IN (:...categoryIds))',
+        { categoryIds },
+      );
+    }
+    if (query.minPrice !== undefined) {
+      qb.andWhere('product.price >= :minPrice', { minPrice: query.minPrice });
+    }
+    if (query.maxPrice !== undefined) {
+      qb.andWhere('product.price <= :maxPrice', { maxPrice: query.maxPrice });
+    }
+    if (query.createdFrom) {
+      qb.andWhere('product.createdAt >= :createdFrom', {
+        createdFrom: new Date(query.createdFrom),
+      });
+    }
+    if (query.createdTo) {
+      qb.andWhere('product.createdAt <= :createdTo', {
+        createdTo: new Date(query.createdTo),
+      });
+    }
+    if (query.q?.trim()) {
+      // Escape LIKE wildcards so the search term is matched literally
+      const term = query.q.trim().replace(/[\\%_]/g, '\\$&');
+      qb.andWhere('(product.title ILIKE :q OR product.description ILIKE :q)', {
+        q: `%${term}%`,
+      });
+    }
+
+    const direction = sort.startsWith('-') ? 'DESC' : 'ASC';
+    const field = sort.replace(/^-/, '');
+    // Tie-break on id so pages stay stable when sort values repeat
+    qb.orderBy(`product.${field}`, direction)
+      .addOrderBy('product.id', direction)
+      .addOrderBy('image.position', 'ASC')
+      .skip((page - 1) * limit)
+      .take(limit);
+
+    const [items, total] = await qb.getManyAndCount();
+
+    return Paginated.of(items, total, page, limit);
+  }
+
+  // Seller edits are recorded as manual adjustments in the same transaction
+  private async saveWithMovements(
+    product: Product,
+    before: StockSnapshot,
+    userId: string,
+  ): Promise<Product> {
+    return await this.dataSource.transaction(async (manager) => {
+      const saved = await manager.save(product);
+      await this.stockLedger.record(
+        manager,
+        this.stockLedger.changesSince(
+          before,
+          saved,
+          StockMovementReason.MANUAL_ADJUST,
+          userId,
+        ),
+      );
+      return saved;
+    });
+  }
+
+  // Adds, changes and removes variants on a product loaded with its variants
+  private async applyVariantChanges(
+    product: Product,
+    dto: UpdateProductDto,
+  ): Promise<void> {
+    const removedIds = new Set(dto.removedVariantIds ?? []);
+    const unknownRemoved = [...removedIds].find(
+      (id) => !product.variants.some((variant) => variant.id === id),
+    );
+    if (unknownRemoved) {
+      throw new BadRequestException(`Unknown variant: ${unknownRemoved}`);
+    }
+    // Detached variants are soft deleted on save (orphanedRowAction)
+    const variants = product.variants.filter(
+      (variant) => !removedIds.has(variant.id),
+    );
+
+    const added: CreateProductVariantDto[] = [];
+    for (const change of dto.variants ?? []) {
+      if (!change.id) {
+        if (!change.sku || !change.options || change.stock === undefined) {
+          throw new BadRequestException(
+            'New variants require sku, options and stock',
+          );
+        }
+        added.push({
+          sku: change.sku,
+          options: change.options,
+          price: change.price ?? undefined,
+          stock: change.stock,
+        });
+        continue;
+      }
+
+      const variant = variants.find((existing) => existing.id === change.id);
+      if (!variant) {
+        throw new BadRequestException(`Unknown variant: ${change.id}`);
+      }
+      if (change.sku !== undefined) variant.sku = change.sku;
+      if (change.options !== undefined) variant.options = change.options;
+      if (change.price !== undefined) variant.price = change.price;
+      if (change.stock !== undefined) variant.stock = change.stock;
+    }
+
+    const newVariants = added.map((variant) =>
+      this.variantRepository.create(variant),
+    );
+    await this.assertVariantsValid(
+      [...variants, ...newVariants],
+      variants.map((variant) => variant.id),
+    );
+
+    product.variants = [...variants, ...newVariants];
+  }
+
+  // SKUs are unique catalog wide and option combinations within a product
+  private async assertVariantsValid(
+    variants: Pick<ProductVariant, 'sku' | 'options'>[],
+    ownVariantIds: string[] = [],
+  ): Promise<void> {
+    const optionKeys = new Set<string>();
+    const skus = new Set<string>();
+
+    for (const { sku, options } of variants) {
+      const entries = Object.entries(options);
+      if (
+        entries.some(
+          ([key, value]) => !key.trim() || typeof value !== 'string' || !value,
+        )
+      ) {
+        throw new BadRequestException(
+          `Variant ${sku} options must map names to non-empty strings`,
+        );
+      }
+
+      const key = JSON.stringify(
+        entries.sort(([a], [b]) => a.localeCompare(b)),
+      );
+      if (optionKeys.has(key)) {
+        throw new BadRequestException(
+          `Duplicate variant options: ${JSON.stringify(options)}`,
+        );
+      }
+      optionKeys.add(key);
+
+      if (skus.has(sku)) {
+        throw new BadRequestException(`Duplicate SKU: ${sku}`);
+      }
+      skus.add(sku);
+    }
+
+    if (skus.size === 0) {
+      return;
+    }
+
+    const taken = await this.variantRepository.find({
+      where: { sku: In([...skus]) },
+      withDeleted: true,
+    });
+    const conflict = taken.find(
+      (variant) => !ownVariantIds.includes(variant.id),
+    );
+    if (conflict) {
+      throw new ConflictException(`SKU ${conflict.sku} is already in use`);
+    }
+  }
+
+  // Product SKUs are the seller's own codes, so they only clash within
+  // one catalog, deleted products included
+  private async assertSkuAvailable(
+    userId: string,
+    sku: string,
+    productId?: string,
+  ): Promise<void> {
+    const existing = await this.productRepository.findOne({
+      where: { userId, sku },
+    });
+    if (existing && existing.id !== productId) {
+      throw new ConflictException(`SKU ${sku} is already in use`);
+    }
+  }
+
+  private totalVariantStock(variants: ProductVariant[]): number {
+    return variants.reduce((total, variant) => total + variant.stock, 0);
+  }
 }
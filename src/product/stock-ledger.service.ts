@@ -0,0 +1,102 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import { Product } from './entities/product.entity';
+import {
+  StockMovement,
+  StockMovementReason,
+} from './entities/stock-movement.entity';
+import { PaginationQueryDto, Paginated } from '../common/dto';
+
+export type StockChange = {
+  productId: string;
+  variantId?: string | null;
+  delta: number;
+  reason: StockMovementReason;
+  actorId?: string | null;
+  orderId?: string | null;
+};
+
+// Stock levels of a product and its variants at some point in time
+export type StockSnapshot = {
+  stock: number;
+  variants: Map<string, number>;
+};
+
+export const EMPTY_STOCK: StockSnapshot = { stock: 0, variants: new Map() };
+
+@Injectable()
+export class StockLedgerService {
+  constructor(
+    @InjectRepository(StockMovement)
+    private movementRepository: Repository<StockMovement>,
+  ) {}
+
+  snapshot(product: Product): StockSnapshot {
+    return {
+      stock: product.stock,
+      variants: new Map(
+        (product.variants ?? []).map((variant) => [variant.id, variant.stock]),
+      ),
+    };
+  }
+
+  // Diffs a saved product (with its variants loaded) against an earlier
+  // snapshot. Variant deltas get their own rows; whatever the variants don't
+  // explain, such as product stock folded into newly added variants, lands
+  // on a product level row.
+  changesSince(
+    before: StockSnapshot,
+    product: Product,
+    reason: StockMovementReason,
+    actorId: string | null,
+  ): StockChange[] {
+    const variants = product.variants ?? [];
+    const variantDeltas = [
+      ...variants.map((variant) => ({
+        variantId: variant.id,
+        delta: variant.stock - (before.variants.get(variant.id) ?? 0),
+      })),
+      ...[...before.variants]
+        .filter(([id]) => !variants.some((variant) => variant.id === id))
+        .map(([variantId, stock]) => ({ variantId, delta: -stock })),
+    ];
+    const remainder =
+      product.stock -
+      before.stock -
+      variantDeltas.reduce((total, { delta }) => total + delta, 0);
+
+    return [...variantDeltas, { variantId: null, delta: remainder }]
+      .filter(({ delta }) => delta !== 0)
+      .map(({ variantId, delta }) => ({
+        productId: product.id,
+        variantId,
+        delta,
+        reason,
+        actorId,
+      }));
+  }
+
+  // Must run on the manager of the transaction that changes the stock
+  async record(manager: EntityManager, changes: StockChange[]): Promise<void> {
+    if (changes.length > 0) {
+      await manager.insert(StockMovement, changes);
+    }
+  }
+
+  async getHistory(
+    productId: string,
+    query: PaginationQueryDto,
+  ): Promise<Paginated<StockMovement>> {
+    const { page = 1, limit = 20 } = query;
+
+    const [items, total] = await this.movementRepository.findAndCount({
+      where: { productId },
+      order: { createdAt: 'DESC', id: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return Paginated.of(items, total, page, limit);
+  }
+}
@@ -0,0 +1,105 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { EntityManager, Repository } from 'typeorm';
+import { Logger } from 'winston';
+import { WINSTON_MODULE_PROVIDER } from 'nest-winston';
+import {
+  ReservationStatus,
+  StockReservation,
+} from './entities/stock-reservation.entity';
+
+export type ReservedStock = {
+  total: number;
+  byVariant: Map<string, number>;
+};
+
+@Injectable()
+export class StockReservationService {
+  constructor(
+    @InjectRepository(StockReservation)
+    private reservationRepository: Repository<StockReservation>,
+    private config: ConfigService,
+    @Inject(WINSTON_MODULE_PROVIDER) private readonly logger: Logger,
+  ) {}
+
+  // Units of a product held by unexpired active reservations, optionally
+  // leaving out the holds of one order
+  async getReserved(
+    productId: string,
+    excludeOrderId?: string,
+    manager: EntityManager = this.reservationRepository.manager,
+  ): Promise<ReservedStock> {
+    const qb = manager
+      .createQueryBuilder(StockReservation, 'reservation')
+      .select('reservation.variantId', 'variantId')
+      .addSelect('SUM(reservation.quantity)', 'quantity')
+      .where('reservation.productId = :productId', { productId })
+      .andWhere('reservation.status = :status', {
+        status: ReservationStatus.ACTIVE,
+      })
+      .andWhere('reservation.expiresAt > :now', { now: new Date() });
+
+    if (excludeOrderId) {
+      qb.andWhere('reservation.orderId != :excludeOrderId', {
+        excludeOrderId,
+      });
+    }
+
+    const rows: { variantId: string | null; quantity: string }[] = await qb
+      .groupBy('reservation.variantId')
+      .getRawMany();
+
+    return {
+      total: rows.reduce((total, row) => total + Number(row.quantity), 0),
+      byVariant: new Map(
+        rows
+          .filter((row) => row.variantId)
+          .map((row) => [row.variantId, Number(row.quantity)]),
+      ),
+    };
+  }
+
+  async reserve(
+    manager: EntityManager,
+    hold: Pick<
+      StockReservation,
+      'orderId' | 'productId' | 'variantId' | 'quantity'
+    >,
+  ): Promise<StockReservation> {
+    const ttlMinutes = Number(
+      this.config.get('STOCK_RESERVATION_TTL_MINUTES') || 15,
+    );
+
+    return await manager.save(
+      manager.create(StockReservation, {
+        ...hold,
+        expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000),
+      }),
+    );
+  }
+
+  // Called once the order is paid and its units have left the stock
+  async consume(manager: EntityManager, orderId: string): Promise<void> {
+    await manager.update(
+      StockReservation,
+      { orderId, status: ReservationStatus.ACTIVE },
+      { status: ReservationStatus.CONSUMED },
+    );
+  }
+
+  async release(
+    orderId: string,
+    manager: EntityManager = this.reservationRepository.manager,
+  ): Promise<void> {
+    const result = await manager.update(
+      StockReservation,
+      { orderId, status: ReservationStatus.ACTIVE },
+      { status: ReservationStatus.RELEASED },
+    );
+
+    if (result.affected) {
+      this.logger.info('Stock reservation released', { orderId });
+    }
+  }
+}
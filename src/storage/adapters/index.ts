@@ -0,0 +1,2 @@
+export * from './storage-adapter.interface';
+export * from './local-disk.storage';
@@ -0,0 +1,39 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { StorageAdapter } from './storage-adapter.interface';
+
+// Writes files below a local directory that the app serves statically
+// under publicUrl
+export class LocalDiskStorage implements StorageAdapter {
+  private readonly rootDir: string;
+
+  constructor(
+    rootDir: string,
+    private readonly publicUrl: string,
+  ) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const file = this.resolve(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, data);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  getUrl(key: string): string {
+    return `${this.publicUrl.replace(/\/+$/, '')}/${key}`;
+  }
+
+  private resolve(key: string): string {
+    const file = path.resolve(this.rootDir, key);
+    // Keys are built by the app, but never let one escape the root
+    if (!file.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return file;
+  }
+}
@@ -0,0 +1,9 @@
+export const STORAGE_ADAPTER = 'STORAGE_ADAPTER';
+
+// Where uploaded files live. Keys are slash separated relative paths such
+// as `products/<id>/<imageId>/original.png`.
+export interface StorageAdapter {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  delete(key: string): Promise<void>;
+  getUrl(key: string): string;
+}
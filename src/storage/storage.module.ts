@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LocalDiskStorage, STORAGE_ADAPTER, StorageAdapter } from './adapters';
+
+@Module({
+  providers: [
+    {
+      provide: STORAGE_ADAPTER,
+      useFactory: (config: ConfigService): StorageAdapter => {
+        // Only local disk for now; an S3 compatible adapter slots in here
+        switch (config.get('STORAGE_DRIVER')) {
+          default:
+            return new LocalDiskStorage(
+              config.get('STORAGE_LOCAL_DIR') || 'uploads',
+              config.get('STORAGE_PUBLIC_URL') || '/uploads',
+            );
+        }
+      },
+      inject: [ConfigService],
+    },
+  ],
+  exports: [STORAGE_ADAPTER],
+})
+export class StorageModule {}
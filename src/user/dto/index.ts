@@ -1,2 +1,3 @@
 export * from './update-profile.dto';
 export * from './update-password.dto';
+export * from './update-role.dto';
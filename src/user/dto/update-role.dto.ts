@@ -0,0 +1,13 @@
+import { IsEnum } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Role } from '../entities/user.entity';
+
+export class UpdateRoleDto {
+  @ApiProperty({
+    description: 'New user role',
+    enum: Role,
+    example: Role.SELLER,
+  })
+  @IsEnum(Role)
+  role: Role;
+}
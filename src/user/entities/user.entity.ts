@@ -8,6 +8,13 @@ import {
 import { ApiProperty } from '@nestjs/swagger';
 
 import { Order } from '../../order/entities/order.entity';
+
+export enum Role {
+  BUYER = 'buyer',
+  SELLER = 'seller',
+  ADMIN = 'admin',
+}
+
 @Entity()
 export class User {
   @ApiProperty({
@@ -41,6 +48,26 @@ export class User {
   @Column()
   password: string;
 
+  @ApiProperty({
+    description: 'User role',
+    enum: Role,
+    example: Role.BUYER,
+  })
+  @Column({
+    type: 'enum',
+    enum: Role,
+    default: Role.BUYER,
+  })
+  role: Role;
+
+  @ApiProperty({
+    description: 'When the user confirmed ownership of their email address',
+    example: '2024-01-01T00:00:00.000Z',
+    nullable: true,
+  })
+  @Column('timestamp', { nullable: true })
+  emailVerifiedAt: Date;
+
   @ApiProperty({
     description: 'User account creation date',
     example: '2024-01-01T00:00:00.000Z',
@@ -1,10 +1,13 @@
 import {
   Body,
   Controller,
+  Delete,
   Get,
   HttpCode,
   HttpStatus,
+  Param,
   Patch,
+  Post,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -12,12 +15,15 @@ import {
   ApiResponse,
   ApiBody,
   ApiBearerAuth,
+  ApiParam,
 } from '@nestjs/swagger';
 import { UserService } from './user.service';
-import { GetCurrentUser } from 'src/common/decorators';
+import { GetCurrentUser, Roles } from 'src/common/decorators';
 import { userReq } from 'src/common/types';
-import { UpdateProfileDto, UpdatePasswordDto } from './dto';
-import { User } from './entities/user.entity';
+import { UpdateProfileDto, UpdatePasswordDto, UpdateRoleDto } from './dto';
+import { Role, User } from './entities/user.entity';
+import { ApiKey, Session } from '../auth/entities';
+import { CreateApiKeyDto } from '../auth/dto';
 
 @ApiTags('user')
 @ApiBearerAuth('JWT-auth')
@@ -74,7 +80,10 @@ export class UserController {
 
   @Patch('/me/password')
   @HttpCode(HttpStatus.OK)
-  @ApiOperation({ summary: 'Update current user password' })
+  @ApiOperation({
+    summary: 'Update current user password',
+    description: 'Every session other than the current one is revoked.',
+  })
   @ApiBody({ type: UpdatePasswordDto })
   @ApiResponse({
     status: 200,
@@ -105,6 +114,215 @@ export class UserController {
     @GetCurrentUser() user: userReq,
     @Body() dto: UpdatePasswordDto,
   ): Promise<{ message: string }> {
-    return await this.userService.updatePassword(user.userId, dto);
+    return await this.userService.updatePassword(
+      user.userId,
+      dto,
+      user.sessionId,
+    );
+  }
+
+  @Get('/me/sessions')
+  @ApiOperation({
+    summary: 'List active sessions of the current user',
+    description:
+      'Each entry is one signin on one device. The session making the request is flagged with `current: true`.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Active sessions retrieved successfully',
+    type: [Session],
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  async getSessions(@GetCurrentUser() user: userReq) {
+    return await this.userService.getSessions(user.userId, user.sessionId);
+  }
+
+  @Delete('/me/sessions/:sessionId')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Revoke one of the current user sessions',
+    description:
+      'Access and refresh tokens of the revoked session stop working immediately.',
+  })
+  @ApiParam({
+    name: 'sessionId',
+    description: 'Session ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Session revoked successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        message: {
+          type: 'string',
+          example: 'Session revoked successfully',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Session not found',
+  })
+  async revokeSession(
+    @GetCurrentUser() user: userReq,
+    @Param('sessionId') sessionId: string,
+  ): Promise<{ message: string }> {
+    return await this.userService.revokeSession(user.userId, sessionId);
+  }
+
+  @Roles(Role.SELLER, Role.ADMIN)
+  @Post('/me/api-keys')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Create a scoped API key (sellers only)',
+    description:
+      'The returned `key` is shown only once; send it in the `X-API-KEY` header. Only endpoints that declare a matching scope accept API keys.',
+  })
+  @ApiBody({ type: CreateApiKeyDto })
+  @ApiResponse({
+    status: 201,
+    description: 'API key created successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          example: '123e4567-e89b-12d3-a456-426614174000',
+        },
+        name: { type: 'string', example: 'Warehouse sync' },
+        prefix: { type: 'string', example: '3f9a1c0b7e2d' },
+        scopes: {
+          type: 'array',
+          items: { type: 'string' },
+          example: ['products:write'],
+        },
+        key: {
+          type: 'string',
+          example: 'pmk_3f9a1c0b7e2d9b5e0c...',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - validation error',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - seller role required',
+  })
+  async createApiKey(
+    @GetCurrentUser() user: userReq,
+    @Body() dto: CreateApiKeyDto,
+  ) {
+    return await this.userService.createApiKey(user.userId, dto);
+  }
+
+  @Get('/me/api-keys')
+  @ApiOperation({ summary: 'List active API keys of the current user' })
+  @ApiResponse({
+    status: 200,
+    description: 'API keys retrieved successfully',
+    type: [ApiKey],
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  async getApiKeys(@GetCurrentUser() user: userReq): Promise<ApiKey[]> {
+    return await this.userService.getApiKeys(user.userId);
+  }
+
+  @Delete('/me/api-keys/:apiKeyId')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Revoke an API key' })
+  @ApiParam({
+    name: 'apiKeyId',
+    description: 'API key ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'API key revoked successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        message: {
+          type: 'string',
+          example: 'API key revoked successfully',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'API key not found',
+  })
+  async revokeApiKey(
+    @GetCurrentUser() user: userReq,
+    @Param('apiKeyId') apiKeyId: string,
+  ): Promise<{ message: string }> {
+    return await this.userService.revokeApiKey(user.userId, apiKeyId);
+  }
+
+  @Roles(Role.ADMIN)
+  @Patch('/:userId/role')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Change a user role (admin only)',
+    description:
+      'The new role is reflected in the JWT the next time the user signs in or refreshes their tokens.',
+  })
+  @ApiParam({
+    name: 'userId',
+    description: 'User ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiBody({ type: UpdateRoleDto })
+  @ApiResponse({
+    status: 200,
+    description: 'User role updated successfully',
+    type: User,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - validation error',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - admin only',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'User not found',
+  })
+  async updateRole(
+    @GetCurrentUser() user: userReq,
+    @Param('userId') userId: string,
+    @Body() dto: UpdateRoleDto,
+  ): Promise<User> {
+    return await this.userService.updateRole(userId, dto, user.userId);
   }
 }
@@ -8,16 +8,22 @@ import {
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { User } from './entities/user.entity';
-import { UpdateProfileDto, UpdatePasswordDto } from './dto';
+import { UpdateProfileDto, UpdatePasswordDto, UpdateRoleDto } from './dto';
 import * as argon from 'argon2';
 import { Logger } from 'winston';
 import { WINSTON_MODULE_PROVIDER } from 'nest-winston';
+import { SessionService } from '../auth/session.service';
+import { ApiKeyService } from '../auth/api-key.service';
+import { ApiKey, Session } from '../auth/entities';
+import { CreateApiKeyDto } from '../auth/dto';
 
 @Injectable()
 export class UserService {
   constructor(
     @InjectRepository(User) private userRepository: Repository<User>,
     @Inject(WINSTON_MODULE_PROVIDER) private readonly logger: Logger,
+    private sessionService: SessionService,
+    private apiKeyService: ApiKeyService,
   ) {}
 
   async getCurrentUser(userId: string): Promise<User> {
@@ -77,6 +83,7 @@ export class UserService {
   async updatePassword(
     userId: string,
     dto: UpdatePasswordDto,
+    currentSessionId: string,
   ): Promise<{ message: string }> {
     const user = await this.userRepository.findOne({ where: { id: userId } });
 
@@ -111,6 +118,9 @@ export class UserService {
       throw new InternalServerErrorException('Failed to update password');
     }
 
+    // Keep the caller signed in but kick out every other device
+    await this.sessionService.revokeAllForUser(userId, currentSessionId);
+
     this.logger.info('User password updated successfully', {
       userId,
       email: updatedUser.email,
@@ -118,4 +128,93 @@ export class UserService {
 
     return { message: 'Password updated successfully' };
   }
+
+  async updateRole(
+    userId: string,
+    dto: UpdateRoleDto,
+    adminId: string,
+  ): Promise<User> {
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+
+    if (!user) {
+      this.logger.warn('User not found for role update', { userId, adminId });
+      throw new NotFoundException('User not found');
+    }
+
+    const oldRole = user.role;
+    user.role = dto.role;
+
+    let updatedUser: User;
+    try {
+      updatedUser = await this.userRepository.save(user);
+    } catch (error) {
+      this.logger.error('Failed to update user role', { userId, error });
+      throw new InternalServerErrorException('Failed to update user role');
+    }
+
+    this.logger.info('User role updated successfully', {
+      userId,
+      adminId,
+      oldRole,
+      newRole: dto.role,
+    });
+
+    // Remove password from response
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { password, ...userWithoutPassword } = updatedUser;
+    return userWithoutPassword as User;
+  }
+
+  async getSessions(
+    userId: string,
+    currentSessionId: string,
+  ): Promise<(Session & { current: boolean })[]> {
+    const sessions = await this.sessionService.listForUser(userId);
+
+    return sessions.map((session) => ({
+      ...session,
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  async revokeSession(
+    userId: string,
+    sessionId: string,
+  ): Promise<{ message: string }> {
+    await this.sessionService.revokeForUser(userId, sessionId);
+
+    this.logger.info('User revoked session', { userId, sessionId });
+
+    return { message: 'Session revoked successfully' };
+  }
+
+  async createApiKey(
+    userId: string,
+    dto: CreateApiKeyDto,
+  ): Promise<ApiKey & { key: string }> {
+    const { apiKey, key } = await this.apiKeyService.create(userId, dto);
+
+    // The plain key is only ever returned here
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { keyHash, ...apiKeyWithoutHash } = apiKey;
+    return { ...(apiKeyWithoutHash as ApiKey), key };
+  }
+
+  async getApiKeys(userId: string): Promise<ApiKey[]> {
+    const apiKeys = await this.apiKeyService.listForUser(userId);
+
+    return apiKeys.map((apiKey) => {
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { keyHash, ...apiKeyWithoutHash } = apiKey;
+      return apiKeyWithoutHash as ApiKey;
+    });
+  }
+
+  async revokeApiKey(
+    userId: string,
+    apiKeyId: string,
+  ): Promise<{ message: string }> {
+    await this.apiKeyService.revoke(userId, apiKeyId);
+    return { message: 'API key revoked successfully' };
+  }
 }